@@ -5,11 +5,17 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { AuthProvider, ProtectedRoute } from "@/lib/auth";
+import { LeaveTypesProvider } from "@/lib/leaveTypes";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Employees from "./pages/Employees";
 import Leaves from "./pages/Leaves";
+import LeavePolicies from "./pages/LeavePolicies";
+import LeaveCalendar from "./pages/LeaveCalendar";
+import AbsencePatterns from "./pages/AbsencePatterns";
+import Holidays from "./pages/Holidays";
 import Attendance from "./pages/Attendance";
+import Roster from "./pages/Roster";
 import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 
@@ -23,51 +29,93 @@ const App = () => (
         <Sonner />
         <BrowserRouter>
           <AuthProvider>
-            <Routes>
-              <Route path="/auth" element={<Auth />} />
-              <Route
-                path="/"
-                element={
-                  <ProtectedRoute>
-                    <Dashboard />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/employees"
-                element={
-                  <ProtectedRoute>
-                    <Employees />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/leaves"
-                element={
-                  <ProtectedRoute>
-                    <Leaves />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/attendance"
-                element={
-                  <ProtectedRoute>
-                    <Attendance />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/profile"
-                element={
-                  <ProtectedRoute>
-                    <Profile />
-                  </ProtectedRoute>
-                }
-              />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
+            <LeaveTypesProvider>
+              <Routes>
+                <Route path="/auth" element={<Auth />} />
+                <Route
+                  path="/"
+                  element={
+                    <ProtectedRoute>
+                      <Dashboard />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/employees"
+                  element={
+                    <ProtectedRoute>
+                      <Employees />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/leaves"
+                  element={
+                    <ProtectedRoute>
+                      <Leaves />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/leaves/calendar"
+                  element={
+                    <ProtectedRoute>
+                      <LeaveCalendar />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/leaves/policies"
+                  element={
+                    <ProtectedRoute>
+                      <LeavePolicies />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/leaves/absence-patterns"
+                  element={
+                    <ProtectedRoute>
+                      <AbsencePatterns />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/holidays"
+                  element={
+                    <ProtectedRoute>
+                      <Holidays />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/attendance"
+                  element={
+                    <ProtectedRoute>
+                      <Attendance />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/attendance/roster"
+                  element={
+                    <ProtectedRoute>
+                      <Roster />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/profile"
+                  element={
+                    <ProtectedRoute>
+                      <Profile />
+                    </ProtectedRoute>
+                  }
+                />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </LeaveTypesProvider>
           </AuthProvider>
         </BrowserRouter>
       </TooltipProvider>
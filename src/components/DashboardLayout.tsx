@@ -7,10 +7,15 @@ import {
   LayoutDashboard, 
   Users, 
   Calendar, 
+  CalendarDays,
+  CalendarRange,
   ClipboardList, 
   User as UserIcon, 
   LogOut,
-  Menu
+  Menu,
+  ShieldCheck,
+  Activity,
+  CalendarClock
 } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -40,9 +45,14 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
     { path: "/", icon: LayoutDashboard, label: "Dashboard" },
     { path: "/employees", icon: Users, label: "Employees" },
     { path: "/leaves", icon: Calendar, label: "Leaves" },
+    { path: "/leaves/calendar", icon: CalendarRange, label: "Team Calendar" },
+    { path: "/leaves/policies", icon: ShieldCheck, label: "Leave Policies", adminOnly: true },
+    { path: "/leaves/absence-patterns", icon: Activity, label: "Absence Patterns", adminOnly: true },
+    { path: "/holidays", icon: CalendarDays, label: "Holidays" },
     { path: "/attendance", icon: ClipboardList, label: "Attendance" },
+    { path: "/attendance/roster", icon: CalendarClock, label: "Roster", adminOnly: true },
     { path: "/profile", icon: UserIcon, label: "Profile" },
-  ];
+  ].filter((item) => !item.adminOnly || isAdmin);
 
   const NavContent = ({ onItemClick }: { onItemClick?: () => void }) => (
     <div className="flex flex-col h-full">
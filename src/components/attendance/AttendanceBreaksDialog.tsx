@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Trash2 } from "lucide-react";
+import { format, isSameDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  BREAK_TYPE_LABELS,
+  formatHours,
+  getSessionHours,
+  type AttendanceBreak,
+  type AttendanceBreakType,
+} from "@/lib/attendance";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface SessionWithBreaks {
+  id: string;
+  clock_in: string;
+  clock_out: string | null;
+  attendance_breaks: AttendanceBreak[];
+}
+
+interface AttendanceBreaksDialogProps {
+  session: SessionWithBreaks | null;
+  // Only admins add or remove breaks here; employees use the clock widget
+  canEdit: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const toLocalInput = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+const formatBreakTimes = (entry: AttendanceBreak) => {
+  const start = new Date(entry.started_at);
+  if (!entry.ended_at) return `${format(start, "p")} - ongoing`;
+  const end = new Date(entry.ended_at);
+  return `${format(start, "p")} - ${format(end, isSameDay(start, end) ? "p" : "PPp")}`;
+};
+
+export const AttendanceBreaksDialog = ({
+  session,
+  canEdit,
+  onOpenChange,
+  onChanged,
+}: AttendanceBreaksDialogProps) => {
+  const [breakType, setBreakType] = useState<AttendanceBreakType>("unpaid");
+  const [startedAt, setStartedAt] = useState("");
+  const [endedAt, setEndedAt] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (session) {
+      setBreakType("unpaid");
+      setStartedAt(toLocalInput(session.clock_in));
+      setEndedAt("");
+    }
+  }, [session?.id]);
+
+  if (!session) return null;
+
+  const breaks = [...session.attendance_breaks].sort((a, b) =>
+    a.started_at.localeCompare(b.started_at)
+  );
+  const hours = getSessionHours(session.clock_in, session.clock_out, breaks);
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from("attendance_breaks").insert([
+        {
+          attendance_id: session.id,
+          break_type: breakType,
+          started_at: new Date(startedAt).toISOString(),
+          ended_at: endedAt ? new Date(endedAt).toISOString() : null,
+        },
+      ]);
+
+      if (error) throw error;
+
+      toast.success("Break added");
+      setEndedAt("");
+      onChanged();
+    } catch (error) {
+      console.error("Error adding break:", error);
+      // Breaks outside the session or overlapping another are refused by the database
+      toast.error((error as { message?: string })?.message || "Failed to add break");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (breakId: string) => {
+    try {
+      const { error } = await supabase.from("attendance_breaks").delete().eq("id", breakId);
+
+      if (error) throw error;
+
+      toast.success("Break removed");
+      onChanged();
+    } catch (error) {
+      console.error("Error removing break:", error);
+      toast.error("Failed to remove break");
+    }
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Breaks</DialogTitle>
+          <DialogDescription>
+            {format(new Date(session.clock_in), "PPp")}
+            {hours.netHours !== null &&
+              ` · ${formatHours(hours.netHours)} worked of ${formatHours(hours.grossHours)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          {breaks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No breaks recorded</p>
+          ) : (
+            breaks.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  <Badge variant={entry.break_type === "paid" ? "secondary" : "outline"}>
+                    {BREAK_TYPE_LABELS[entry.break_type]}
+                  </Badge>
+                  {formatBreakTimes(entry)}
+                </div>
+                {canEdit && (
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(entry.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {canEdit && (
+          <form onSubmit={handleAdd} className="space-y-4 border-t pt-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="break_type">Type</Label>
+                <Select
+                  value={breakType}
+                  onValueChange={(value) => setBreakType(value as AttendanceBreakType)}
+                >
+                  <SelectTrigger id="break_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(BREAK_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="break_started_at">Start</Label>
+                <Input
+                  id="break_started_at"
+                  type="datetime-local"
+                  value={startedAt}
+                  onChange={(e) => setStartedAt(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="break_ended_at">End</Label>
+                <Input
+                  id="break_ended_at"
+                  type="datetime-local"
+                  value={endedAt}
+                  min={startedAt || undefined}
+                  onChange={(e) => setEndedAt(e.target.value)}
+                  // A closed session cannot have a break that is still going
+                  required={!!session.clock_out}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Adding..." : "Add Break"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
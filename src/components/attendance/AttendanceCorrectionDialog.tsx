@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface CorrectableRecord {
+  id: string;
+  clock_in: string;
+  clock_out: string | null;
+}
+
+interface AttendanceCorrectionDialogProps {
+  open: boolean;
+  // Record to correct; without one the request is for a day with no record
+  record: CorrectableRecord | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+// Value for a datetime-local input, in the browser's time zone
+const toLocalInput = (value: string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+
+export const AttendanceCorrectionDialog = ({
+  open,
+  record,
+  onOpenChange,
+  onSubmitted,
+}: AttendanceCorrectionDialogProps) => {
+  const { user } = useAuth();
+  const [clockIn, setClockIn] = useState("");
+  const [clockOut, setClockOut] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setClockIn(toLocalInput(record?.clock_in ?? null));
+      setClockOut(toLocalInput(record?.clock_out ?? null));
+      setReason("");
+    }
+  }, [open, record?.id]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (new Date(clockOut) <= new Date(clockIn)) {
+      toast.error("Clock out must be after clock in");
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase.from("attendance_corrections").insert([
+        {
+          user_id: user?.id,
+          attendance_id: record?.id ?? null,
+          proposed_clock_in: new Date(clockIn).toISOString(),
+          proposed_clock_out: new Date(clockOut).toISOString(),
+          reason: reason.trim(),
+        },
+      ]);
+
+      if (error) throw error;
+
+      toast.success("Correction request sent");
+      onOpenChange(false);
+      onSubmitted();
+    } catch (error) {
+      console.error("Error requesting attendance correction:", error);
+      // A second open request for the same record is refused by a unique index
+      toast.error(
+        (error as { code?: string })?.code === "23505"
+          ? "This record already has a pending correction"
+          : "Failed to send correction request"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{record ? "Request Correction" : "Report Missing Day"}</DialogTitle>
+            <DialogDescription>
+              {record
+                ? "Propose the times this record should have. An admin will review the request."
+                : "Propose the times you worked on a day with no attendance record. An admin will review the request."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="proposed_clock_in">Clock In</Label>
+                <Input
+                  id="proposed_clock_in"
+                  type="datetime-local"
+                  value={clockIn}
+                  onChange={(e) => setClockIn(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="proposed_clock_out">Clock Out</Label>
+                <Input
+                  id="proposed_clock_out"
+                  type="datetime-local"
+                  value={clockOut}
+                  min={clockIn || undefined}
+                  onChange={(e) => setClockOut(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correction_reason">Reason</Label>
+              <Textarea
+                id="correction_reason"
+                placeholder="e.g. I forgot to clock out yesterday at 18:00"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={submitting || !reason.trim()}>
+              {submitting ? "Sending..." : "Send Request"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarPlus, Check, Undo2, X } from "lucide-react";
+import { format, isSameDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import type { AttendanceCorrection } from "@/hooks/useAttendanceCorrections";
+import { ReviewLeaveDialog, type ReviewDecision } from "@/components/leaves/ReviewLeaveDialog";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface AttendanceCorrectionsCardProps {
+  isAdmin: boolean;
+  corrections: AttendanceCorrection[];
+  loading: boolean;
+  onReportMissingDay: () => void;
+  // Called after a request is decided or withdrawn
+  onChanged: () => void;
+}
+
+export const formatSession = (clockIn: string | null, clockOut: string | null) => {
+  if (!clockIn) return "No record";
+  const start = new Date(clockIn);
+  if (!clockOut) return `${format(start, "PPp")} - not clocked out`;
+  const end = new Date(clockOut);
+  return `${format(start, "PPp")} - ${format(end, isSameDay(start, end) ? "p" : "PPp")}`;
+};
+
+const getStatusVariant = (status: AttendanceCorrection["status"]) => {
+  switch (status) {
+    case "approved":
+      return "default";
+    case "rejected":
+      return "destructive";
+    case "withdrawn":
+      return "outline";
+    default:
+      return "secondary";
+  }
+};
+
+// Employees follow their own correction requests here; for admins it is the review inbox
+export const AttendanceCorrectionsCard = ({
+  isAdmin,
+  corrections,
+  loading,
+  onReportMissingDay,
+  onChanged,
+}: AttendanceCorrectionsCardProps) => {
+  const { user } = useAuth();
+  const [reviewTarget, setReviewTarget] = useState<{
+    correction: AttendanceCorrection;
+    decision: ReviewDecision;
+  } | null>(null);
+
+  const handleReview = async (notes: string) => {
+    if (!reviewTarget) return;
+    const { correction, decision } = reviewTarget;
+
+    try {
+      const { error } = await supabase.rpc("review_attendance_correction", {
+        _correction_id: correction.id,
+        _decision: decision,
+        _notes: notes || null,
+      });
+
+      if (error) throw error;
+
+      toast.success(decision === "approved" ? "Correction approved" : "Correction rejected");
+      setReviewTarget(null);
+      onChanged();
+    } catch (error) {
+      console.error("Error reviewing attendance correction:", error);
+      // Overlaps with the employee's other records are reported by the database
+      toast.error((error as { message?: string })?.message || "Failed to review correction");
+    }
+  };
+
+  const handleWithdraw = async (correctionId: string) => {
+    try {
+      const { error } = await supabase
+        .from("attendance_corrections")
+        .update({ status: "withdrawn" })
+        .eq("id", correctionId);
+
+      if (error) throw error;
+
+      toast.success("Correction request withdrawn");
+      onChanged();
+    } catch (error) {
+      console.error("Error withdrawing attendance correction:", error);
+      toast.error("Failed to withdraw correction request");
+    }
+  };
+
+  // What the record said before the request: the replaced times once approved
+  const getRecordedSession = (correction: AttendanceCorrection) => {
+    const revision = correction.attendance_revisions[0];
+    if (correction.status === "approved" && revision) {
+      return formatSession(revision.previous_clock_in, revision.previous_clock_out);
+    }
+    return correction.attendance
+      ? formatSession(correction.attendance.clock_in, correction.attendance.clock_out)
+      : "No record";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{isAdmin ? "Correction Requests" : "My Correction Requests"}</CardTitle>
+          <CardDescription>
+            {isAdmin
+              ? "Approving a request updates the attendance record and keeps the times it replaced."
+              : "Changes you asked for to your attendance records."}
+          </CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={onReportMissingDay}>
+          <CalendarPlus className="h-4 w-4 mr-1" />
+          Report Missing Day
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : corrections.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No correction requests</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isAdmin && <TableHead>Employee</TableHead>}
+                <TableHead>Recorded</TableHead>
+                <TableHead>Proposed</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {corrections.map((correction) => (
+                <TableRow key={correction.id}>
+                  {isAdmin && <TableCell>{correction.employee?.name}</TableCell>}
+                  <TableCell className="text-muted-foreground">
+                    {getRecordedSession(correction)}
+                  </TableCell>
+                  <TableCell>
+                    {formatSession(correction.proposed_clock_in, correction.proposed_clock_out)}
+                  </TableCell>
+                  <TableCell className="max-w-xs break-words">{correction.reason}</TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(correction.status)}>{correction.status}</Badge>
+                    {correction.review_notes && (
+                      <p className="mt-1 max-w-xs text-xs italic text-muted-foreground break-words">
+                        "{correction.review_notes}"
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {correction.status === "pending" && (
+                      <div className="flex gap-2">
+                        {isAdmin && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReviewTarget({ correction, decision: "approved" })}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReviewTarget({ correction, decision: "rejected" })}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                        {correction.user_id === user?.id && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleWithdraw(correction.id)}
+                          >
+                            <Undo2 className="h-4 w-4 mr-1" />
+                            Withdraw
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ReviewLeaveDialog
+        decision={reviewTarget?.decision ?? null}
+        subject="Correction"
+        summary={
+          reviewTarget
+            ? `${reviewTarget.correction.employee?.name} · ${formatSession(
+                reviewTarget.correction.proposed_clock_in,
+                reviewTarget.correction.proposed_clock_out
+              )}`
+            : ""
+        }
+        onOpenChange={(open) => !open && setReviewTarget(null)}
+        onConfirm={handleReview}
+      />
+    </Card>
+  );
+};
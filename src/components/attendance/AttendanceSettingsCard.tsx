@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import type { AttendanceSettings } from "@/hooks/useAttendanceSettings";
+import type { Database } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type PayPeriodFrequency = Database["public"]["Enums"]["pay_period_frequency"];
+
+const PAY_PERIOD_LABELS: Record<PayPeriodFrequency, string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  monthly: "Monthly",
+};
+
+interface AttendanceSettingsCardProps {
+  settings: AttendanceSettings;
+  onSaved: () => void;
+}
+
+// Intl throws a RangeError for names it does not know
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const AttendanceSettingsCard = ({ settings, onSaved }: AttendanceSettingsCardProps) => {
+  const [saving, setSaving] = useState(false);
+  const [timeZone, setTimeZone] = useState(settings.time_zone);
+  const [graceMinutes, setGraceMinutes] = useState(String(settings.late_grace_minutes));
+  const [payPeriodFrequency, setPayPeriodFrequency] = useState(settings.pay_period_frequency);
+  const [payPeriodAnchor, setPayPeriodAnchor] = useState(settings.pay_period_anchor);
+
+  useEffect(() => {
+    setTimeZone(settings.time_zone);
+    setGraceMinutes(String(settings.late_grace_minutes));
+    setPayPeriodFrequency(settings.pay_period_frequency);
+    setPayPeriodAnchor(settings.pay_period_anchor);
+  }, [
+    settings.time_zone,
+    settings.late_grace_minutes,
+    settings.pay_period_frequency,
+    settings.pay_period_anchor,
+  ]);
+
+  const saveSettings = async (changes: Partial<AttendanceSettings>, successMessage: string) => {
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("attendance_settings")
+        .update(changes)
+        .eq("id", true);
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      onSaved();
+    } catch (error) {
+      console.error("Error saving attendance settings:", error);
+      toast.error("Failed to save attendance settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSelfServiceChange = (enabled: boolean) =>
+    saveSettings(
+      { self_service_enabled: enabled },
+      enabled ? "Self-service clock-in turned on" : "Self-service clock-in turned off"
+    );
+
+  const handlePayPeriodSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    saveSettings(
+      { pay_period_frequency: payPeriodFrequency, pay_period_anchor: payPeriodAnchor },
+      "Pay period saved"
+    );
+  };
+
+  const handleShiftSettingsSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!isValidTimeZone(timeZone.trim())) {
+      toast.error("Unknown time zone. Use a name like Europe/London.");
+      return;
+    }
+
+    saveSettings(
+      { time_zone: timeZone.trim(), late_grace_minutes: Number(graceMinutes) },
+      "Shift settings saved"
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attendance Settings</CardTitle>
+        <CardDescription>
+          Admins can always mark attendance for anyone, whatever these settings say.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="self_service_enabled"
+            checked={settings.self_service_enabled}
+            disabled={saving}
+            onCheckedChange={handleSelfServiceChange}
+          />
+          <Label htmlFor="self_service_enabled">Employees clock themselves in and out</Label>
+        </div>
+
+        <form
+          onSubmit={handleShiftSettingsSubmit}
+          className="grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="time_zone">Time zone for shifts</Label>
+            <Input
+              id="time_zone"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="late_grace_minutes">Grace period (minutes)</Label>
+            <Input
+              id="late_grace_minutes"
+              type="number"
+              min={0}
+              value={graceMinutes}
+              onChange={(e) => setGraceMinutes(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={saving}>
+            Save
+          </Button>
+        </form>
+
+        <form
+          onSubmit={handlePayPeriodSubmit}
+          className="grid gap-4 md:grid-cols-[1fr_1fr_auto] md:items-end"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="pay_period_frequency">Pay period</Label>
+            <Select
+              value={payPeriodFrequency}
+              onValueChange={(value) => setPayPeriodFrequency(value as PayPeriodFrequency)}
+            >
+              <SelectTrigger id="pay_period_frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAY_PERIOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay_period_anchor">First day of a pay period</Label>
+            <Input
+              id="pay_period_anchor"
+              type="date"
+              value={payPeriodAnchor}
+              // Monthly periods always start on the 1st
+              disabled={payPeriodFrequency === "monthly"}
+              onChange={(e) => setPayPeriodAnchor(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={saving}>
+            Save
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
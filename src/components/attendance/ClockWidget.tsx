@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Coffee, LogIn, LogOut, Timer } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { BREAK_TYPE_LABELS, type AttendanceBreakType } from "@/lib/attendance";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ClockWidgetProps {
+  // Called after the user clocks in or out, or starts or ends a break
+  onChange?: () => void;
+}
+
+const formatElapsed = (milliseconds: number) => {
+  const totalMinutes = Math.max(Math.floor(milliseconds / 60000), 0);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+};
+
+// Lets employees clock themselves in and out; the server records the time
+export const ClockWidget = ({ onChange }: ClockWidgetProps) => {
+  const { user } = useAuth();
+  const [openSince, setOpenSince] = useState<Date | null>(null);
+  const [breakSince, setBreakSince] = useState<Date | null>(null);
+  const [breakType, setBreakType] = useState<AttendanceBreakType>("unpaid");
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [now, setNow] = useState(() => new Date());
+
+  const fetchOpenSession = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from("attendance")
+      .select("clock_in, attendance_breaks(started_at, ended_at)")
+      .eq("user_id", user.id)
+      .is("clock_out", null)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching open session:", error);
+    } else {
+      const openBreak = data?.attendance_breaks.find((entry) => !entry.ended_at);
+      setOpenSince(data ? new Date(data.clock_in) : null);
+      setBreakSince(openBreak ? new Date(openBreak.started_at) : null);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchOpenSession();
+  }, [user?.id]);
+
+  // Keeps the elapsed time ticking while clocked in
+  useEffect(() => {
+    if (!openSince) return;
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, [openSince]);
+
+  const runAction = async (
+    action: () => PromiseLike<{ error: unknown }>,
+    successMessage: string
+  ) => {
+    setSubmitting(true);
+
+    try {
+      const { error } = await action();
+
+      if (error) throw error;
+
+      toast.success(successMessage);
+      setNotes("");
+      setNow(new Date());
+      await fetchOpenSession();
+      onChange?.();
+    } catch (error) {
+      console.error("Error recording attendance:", error);
+      toast.error((error as { message?: string })?.message || "Failed to record attendance");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Clocking out during a break ends the break too
+  const handleClock = () =>
+    openSince
+      ? runAction(() => supabase.rpc("clock_out"), "Clocked out")
+      : runAction(() => supabase.rpc("clock_in", { _notes: notes || null }), "Clocked in");
+
+  const handleBreak = () =>
+    breakSince
+      ? runAction(() => supabase.rpc("end_break"), "Break ended")
+      : runAction(
+          () => supabase.rpc("start_break", { _break_type: breakType }),
+          `${BREAK_TYPE_LABELS[breakType]} started`
+        );
+
+  if (loading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <Card className={openSince ? "border-green-600" : undefined}>
+      <CardContent className="flex flex-col gap-4 py-6 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-3">
+          <Timer className={`h-8 w-8 ${openSince ? "text-green-600" : "text-muted-foreground"}`} />
+          <div>
+            <p className="text-lg font-semibold">
+              {breakSince
+                ? `On a break · ${formatElapsed(now.getTime() - breakSince.getTime())}`
+                : openSince
+                  ? `Clocked in · ${formatElapsed(now.getTime() - openSince.getTime())}`
+                  : "Not clocked in"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {breakSince
+                ? `Since ${format(breakSince, "p")}, clocked in at ${format(openSince, "p")}`
+                : openSince
+                  ? `Since ${format(openSince, "PPp")}`
+                  : format(now, "PPPP")}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          {!openSince && (
+            <Input
+              className="md:w-[240px]"
+              placeholder="Note (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          )}
+          {openSince && !breakSince && (
+            <Select
+              value={breakType}
+              onValueChange={(value) => setBreakType(value as AttendanceBreakType)}
+            >
+              <SelectTrigger className="md:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(BREAK_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {openSince && (
+            <Button
+              size="lg"
+              variant={breakSince ? "default" : "outline"}
+              disabled={submitting}
+              onClick={handleBreak}
+            >
+              <Coffee className="mr-2 h-4 w-4" />
+              {breakSince ? "End Break" : "Start Break"}
+            </Button>
+          )}
+          <Button
+            size="lg"
+            variant={openSince ? "outline" : "default"}
+            disabled={submitting}
+            onClick={handleClock}
+          >
+            {openSince ? <LogOut className="mr-2 h-4 w-4" /> : <LogIn className="mr-2 h-4 w-4" />}
+            {openSince ? "Clock Out" : "Clock In"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, Hourglass, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useCompOffCredits, type CompOffCredit } from "@/hooks/useCompOffCredits";
+import { ReviewLeaveDialog, type ReviewDecision } from "@/components/leaves/ReviewLeaveDialog";
+import { formatDays, parseDateOnly } from "@/lib/leaves";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface CompOffCreditsCardProps {
+  isAdmin: boolean;
+}
+
+const getStatusVariant = (status: CompOffCredit["status"]) => {
+  switch (status) {
+    case "approved":
+      return "default";
+    case "rejected":
+      return "destructive";
+    default:
+      return "secondary";
+  }
+};
+
+// Comp-off earned by working weekends, holidays or beyond the schedule.
+// Admins approve or reject each day; approved days become bookable leave.
+export const CompOffCreditsCard = ({ isAdmin }: CompOffCreditsCardProps) => {
+  const { user } = useAuth();
+  const { credits, loading, refetchCredits } = useCompOffCredits();
+  const [reviewTarget, setReviewTarget] = useState<{
+    credit: CompOffCredit;
+    decision: ReviewDecision;
+  } | null>(null);
+  const [expiring, setExpiring] = useState(false);
+
+  const handleReview = async (notes: string) => {
+    if (!reviewTarget) return;
+    const { credit, decision } = reviewTarget;
+
+    try {
+      const { error } = await supabase
+        .from("comp_off_credits")
+        .update({
+          status: decision,
+          review_notes: notes || null,
+          reviewed_by: user?.id,
+          reviewed_at: new Date().toISOString(),
+        })
+        .eq("id", credit.id);
+
+      if (error) throw error;
+
+      toast.success(decision === "approved" ? "Comp-off approved" : "Comp-off rejected");
+      setReviewTarget(null);
+      refetchCredits();
+    } catch (error) {
+      console.error("Error reviewing comp-off:", error);
+      toast.error((error as { message?: string })?.message || "Failed to review comp-off");
+    }
+  };
+
+  const handleExpire = async () => {
+    setExpiring(true);
+
+    try {
+      const { data, error } = await supabase.rpc("expire_comp_off_credits");
+
+      if (error) throw error;
+
+      toast.success(
+        data === 0 ? "No comp-off was due to expire" : `Expired ${data} comp-off credits`
+      );
+      refetchCredits();
+    } catch (error) {
+      console.error("Error expiring comp-off:", error);
+      toast.error("Failed to expire comp-off");
+    } finally {
+      setExpiring(false);
+    }
+  };
+
+  const renderExpiry = (credit: CompOffCredit) => {
+    if (credit.status !== "approved" || !credit.expires_on) return "-";
+    if (credit.expired_at) {
+      return credit.expired_days
+        ? `${formatDays(credit.expired_days)} expired`
+        : "Used before expiry";
+    }
+    return parseDateOnly(credit.expires_on).toLocaleDateString();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Comp-Off</CardTitle>
+          <CardDescription>
+            Time off earned by working weekends, holidays or beyond scheduled hours. Approved
+            days can be booked as leave until they expire.
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button size="sm" variant="outline" disabled={expiring} onClick={handleExpire}>
+            <Hourglass className="mr-2 h-4 w-4" />
+            {expiring ? "Expiring..." : "Expire Overdue"}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : credits.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No comp-off earned yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isAdmin && <TableHead>Employee</TableHead>}
+                <TableHead>Date</TableHead>
+                <TableHead>Hours Worked</TableHead>
+                <TableHead>Extra Hours</TableHead>
+                <TableHead>Comp-Off</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Expires</TableHead>
+                {isAdmin && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {credits.map((credit) => (
+                <TableRow key={credit.id}>
+                  {isAdmin && <TableCell>{credit.employee?.name}</TableCell>}
+                  <TableCell>
+                    {parseDateOnly(credit.work_date).toLocaleDateString()}
+                    {!credit.is_working_day && (
+                      <span className="ml-1 text-xs text-muted-foreground">(day off)</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{credit.hours_worked} hours</TableCell>
+                  <TableCell>{credit.extra_hours} hours</TableCell>
+                  <TableCell>{formatDays(credit.days)}</TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(credit.status)}>{credit.status}</Badge>
+                    {credit.review_notes && (
+                      <p className="mt-1 max-w-xs text-xs italic text-muted-foreground break-words">
+                        "{credit.review_notes}"
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{renderExpiry(credit)}</TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      {credit.status === "pending" && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReviewTarget({ credit, decision: "approved" })}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReviewTarget({ credit, decision: "rejected" })}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ReviewLeaveDialog
+        decision={reviewTarget?.decision ?? null}
+        subject="Comp-Off"
+        summary={
+          reviewTarget
+            ? `${reviewTarget.credit.employee?.name} · ${parseDateOnly(
+                reviewTarget.credit.work_date
+              ).toLocaleDateString()} · ${formatDays(reviewTarget.credit.days)}`
+            : ""
+        }
+        onOpenChange={(open) => !open && setReviewTarget(null)}
+        onConfirm={handleReview}
+      />
+    </Card>
+  );
+};
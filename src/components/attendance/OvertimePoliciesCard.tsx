@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type OvertimePolicy = Database["public"]["Tables"]["overtime_policies"]["Row"];
+
+interface OvertimePoliciesCardProps {
+  departments: string[];
+  // Called after a policy changes, since the overtime report depends on them
+  onSaved: () => void;
+}
+
+const formatThreshold = (hours: number | null, unit: string) => (hours ? `${hours}h ${unit}` : "Off");
+
+export const OvertimePoliciesCard = ({ departments, onSaved }: OvertimePoliciesCardProps) => {
+  const [policies, setPolicies] = useState<OvertimePolicy[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<OvertimePolicy | null>(null);
+  const [department, setDepartment] = useState("");
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchPolicies = async () => {
+    const { data, error } = await supabase
+      .from("overtime_policies")
+      .select("*")
+      .order("department", { nullsFirst: true });
+
+    if (error) {
+      console.error("Error fetching overtime policies:", error);
+      return;
+    }
+    setPolicies(data || []);
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const availableDepartments = departments.filter(
+    (name) => !policies.some((policy) => policy.department === name)
+  );
+
+  const openDialog = (policy: OvertimePolicy | null) => {
+    setEditingPolicy(policy);
+    setDepartment(policy?.department ?? "");
+    setRequiresApproval(policy?.requires_approval ?? false);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const formData = new FormData(e.currentTarget);
+    const optionalNumber = (name: string) =>
+      formData.get(name) ? Number(formData.get(name)) : null;
+    const policyData = {
+      daily_threshold_hours: optionalNumber("daily_threshold_hours"),
+      weekly_threshold_hours: optionalNumber("weekly_threshold_hours"),
+      overtime_multiplier: Number(formData.get("overtime_multiplier")),
+      weekend_multiplier: Number(formData.get("weekend_multiplier")),
+      holiday_multiplier: Number(formData.get("holiday_multiplier")),
+      requires_approval: requiresApproval,
+    };
+
+    try {
+      const { error } = editingPolicy
+        ? await supabase.from("overtime_policies").update(policyData).eq("id", editingPolicy.id)
+        : await supabase.from("overtime_policies").insert([{ department, ...policyData }]);
+
+      if (error) throw error;
+
+      toast.success("Overtime policy saved");
+      setDialogOpen(false);
+      fetchPolicies();
+      onSaved();
+    } catch (error) {
+      console.error("Error saving overtime policy:", error);
+      toast.error("Failed to save overtime policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (policyId: string) => {
+    try {
+      const { error } = await supabase.from("overtime_policies").delete().eq("id", policyId);
+
+      if (error) throw error;
+
+      toast.success("Overtime policy removed");
+      fetchPolicies();
+      onSaved();
+    } catch (error) {
+      console.error("Error deleting overtime policy:", error);
+      toast.error("Failed to remove overtime policy");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Overtime Policies</CardTitle>
+          <CardDescription>
+            Departments without their own policy use the default
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          disabled={availableDepartments.length === 0}
+          onClick={() => openDialog(null)}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Department Policy
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Thresholds</TableHead>
+                <TableHead>Overtime</TableHead>
+                <TableHead>Weekend</TableHead>
+                <TableHead>Holiday</TableHead>
+                <TableHead>Approval</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{policy.department ?? "Default"}</TableCell>
+                  <TableCell>
+                    {formatThreshold(policy.daily_threshold_hours, "a day")} ·{" "}
+                    {formatThreshold(policy.weekly_threshold_hours, "a week")}
+                  </TableCell>
+                  <TableCell>×{policy.overtime_multiplier}</TableCell>
+                  <TableCell>×{policy.weekend_multiplier}</TableCell>
+                  <TableCell>×{policy.holiday_multiplier}</TableCell>
+                  <TableCell>{policy.requires_approval ? "Required" : "-"}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(policy)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {policy.department && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(policy.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>
+                {editingPolicy
+                  ? `Overtime Policy: ${editingPolicy.department ?? "Default"}`
+                  : "Add Department Policy"}
+              </DialogTitle>
+              <DialogDescription>
+                Leave a threshold empty to turn that rule off. Weekend and holiday hours are
+                always paid at their own rate.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              {!editingPolicy && (
+                <div className="space-y-2">
+                  <Label htmlFor="overtime_department">Department</Label>
+                  <Select value={department} onValueChange={setDepartment}>
+                    <SelectTrigger id="overtime_department">
+                      <SelectValue placeholder="Select department" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableDepartments.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="daily_threshold_hours">Daily threshold (hours)</Label>
+                  <Input
+                    id="daily_threshold_hours"
+                    name="daily_threshold_hours"
+                    type="number"
+                    min={0.25}
+                    step={0.25}
+                    defaultValue={editingPolicy ? editingPolicy.daily_threshold_hours ?? "" : 8}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="weekly_threshold_hours">Weekly threshold (hours)</Label>
+                  <Input
+                    id="weekly_threshold_hours"
+                    name="weekly_threshold_hours"
+                    type="number"
+                    min={0.25}
+                    step={0.25}
+                    defaultValue={editingPolicy ? editingPolicy.weekly_threshold_hours ?? "" : 40}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="overtime_multiplier">Overtime rate</Label>
+                  <Input
+                    id="overtime_multiplier"
+                    name="overtime_multiplier"
+                    type="number"
+                    min={1}
+                    step={0.05}
+                    defaultValue={editingPolicy?.overtime_multiplier ?? 1.5}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="weekend_multiplier">Weekend rate</Label>
+                  <Input
+                    id="weekend_multiplier"
+                    name="weekend_multiplier"
+                    type="number"
+                    min={1}
+                    step={0.05}
+                    defaultValue={editingPolicy?.weekend_multiplier ?? 1.5}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="holiday_multiplier">Holiday rate</Label>
+                  <Input
+                    id="holiday_multiplier"
+                    name="holiday_multiplier"
+                    type="number"
+                    min={1}
+                    step={0.05}
+                    defaultValue={editingPolicy?.holiday_multiplier ?? 2}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="requires_approval">Overtime needs approval before payroll</Label>
+                <Switch
+                  id="requires_approval"
+                  checked={requiresApproval}
+                  onCheckedChange={setRequiresApproval}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || (!editingPolicy && !department)}>
+                {saving ? "Saving..." : "Save Policy"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, ChevronLeft, ChevronRight, Download, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { parseDateOnly, toDateOnly } from "@/lib/leaves";
+import { buildCsv, downloadCsvFile } from "@/lib/csv";
+import { ReviewLeaveDialog, type ReviewDecision } from "@/components/leaves/ReviewLeaveDialog";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type OvertimeRow = Database["public"]["Functions"]["get_overtime_report"]["Returns"][number];
+type PayPeriod = Database["public"]["Functions"]["get_pay_period"]["Returns"][number];
+
+interface OvertimeReportCardProps {
+  isAdmin: boolean;
+  // Changing it reloads the report, e.g. after a policy is edited
+  refreshKey?: number;
+}
+
+const APPROVAL_LABELS: Record<string, string> = {
+  not_required: "Not required",
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+// Hours expressed at the base rate, i.e. what payroll multiplies by the hourly wage
+const getWeightedHours = (row: OvertimeRow) =>
+  Math.round(
+    (row.regular_hours +
+      row.overtime_hours * row.overtime_multiplier +
+      row.weekend_hours * row.weekend_multiplier +
+      row.holiday_hours * row.holiday_multiplier) *
+      100
+  ) / 100;
+
+const formatBucket = (hours: number, multiplier?: number) =>
+  hours > 0 ? `${hours}h${multiplier ? ` ×${multiplier}` : ""}` : "-";
+
+export const OvertimeReportCard = ({ isAdmin, refreshKey }: OvertimeReportCardProps) => {
+  const [period, setPeriod] = useState<PayPeriod | null>(null);
+  const [rows, setRows] = useState<OvertimeRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewTarget, setReviewTarget] = useState<{
+    row: OvertimeRow;
+    decision: ReviewDecision;
+  } | null>(null);
+
+  const fetchPayPeriod = async (date?: Date) => {
+    const { data, error } = await supabase.rpc(
+      "get_pay_period",
+      date ? { _date: toDateOnly(date) } : {}
+    );
+
+    if (error) {
+      console.error("Error fetching pay period:", error);
+      toast.error("Failed to load pay period");
+      return;
+    }
+    setPeriod(data?.[0] ?? null);
+  };
+
+  const fetchReport = async () => {
+    if (!period) return;
+
+    try {
+      const { data, error } = await supabase.rpc("get_overtime_report", {
+        _period_start: period.period_start,
+        _period_end: period.period_end,
+      });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error("Error fetching overtime report:", error);
+      toast.error("Failed to load overtime report");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPayPeriod();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [period?.period_start, period?.period_end]);
+
+  const handleReview = async (notes: string) => {
+    if (!reviewTarget || !period) return;
+    const { row, decision } = reviewTarget;
+
+    try {
+      const { error } = await supabase.rpc("review_overtime", {
+        _user_id: row.user_id,
+        _period_start: period.period_start,
+        _period_end: period.period_end,
+        _decision: decision,
+        _notes: notes || null,
+      });
+
+      if (error) throw error;
+
+      toast.success(decision === "approved" ? "Overtime approved" : "Overtime rejected");
+      setReviewTarget(null);
+      fetchReport();
+    } catch (error) {
+      console.error("Error reviewing overtime:", error);
+      toast.error((error as { message?: string })?.message || "Failed to review overtime");
+    }
+  };
+
+  const handleExport = () => {
+    if (!period) return;
+
+    const content = buildCsv(
+      [
+        "Employee",
+        "Department",
+        "Period Start",
+        "Period End",
+        "Regular Hours",
+        "Overtime Hours",
+        "Overtime Rate",
+        "Weekend Hours",
+        "Weekend Rate",
+        "Holiday Hours",
+        "Holiday Rate",
+        "Weighted Hours",
+        "Approval",
+      ],
+      rows.map((row) => [
+        row.employee_name,
+        row.department,
+        period.period_start,
+        period.period_end,
+        row.regular_hours,
+        row.overtime_hours,
+        row.overtime_multiplier,
+        row.weekend_hours,
+        row.weekend_multiplier,
+        row.holiday_hours,
+        row.holiday_multiplier,
+        getWeightedHours(row),
+        APPROVAL_LABELS[row.approval_status] ?? row.approval_status,
+      ])
+    );
+    downloadCsvFile(`overtime-${period.period_start}-${period.period_end}.csv`, content);
+  };
+
+  const pendingCount = rows.filter((row) => row.approval_status === "pending").length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{isAdmin ? "Overtime" : "My Overtime"}</CardTitle>
+          <CardDescription>
+            Net hours per pay period split into regular, overtime and weekend or holiday hours
+            {pendingCount > 0 && ` · ${pendingCount} awaiting approval`}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!period}
+            onClick={() => fetchPayPeriod(addDays(parseDateOnly(period.period_start), -1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium">
+            {period
+              ? `${format(parseDateOnly(period.period_start), "d MMM")} – ${format(
+                  parseDateOnly(period.period_end),
+                  "d MMM yyyy"
+                )}`
+              : "-"}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!period}
+            onClick={() => fetchPayPeriod(addDays(parseDateOnly(period.period_end), 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" disabled={rows.length === 0} onClick={handleExport}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No completed attendance in this pay period
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isAdmin && <TableHead>Employee</TableHead>}
+                <TableHead>Regular</TableHead>
+                <TableHead>Overtime</TableHead>
+                <TableHead>Weekend</TableHead>
+                <TableHead>Holiday</TableHead>
+                <TableHead>Weighted</TableHead>
+                <TableHead>Approval</TableHead>
+                {isAdmin && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.user_id}>
+                  {isAdmin && (
+                    <TableCell className="font-medium">
+                      {row.employee_name}
+                      {row.department && (
+                        <p className="text-xs text-muted-foreground">{row.department}</p>
+                      )}
+                    </TableCell>
+                  )}
+                  <TableCell>{formatBucket(row.regular_hours)}</TableCell>
+                  <TableCell>{formatBucket(row.overtime_hours, row.overtime_multiplier)}</TableCell>
+                  <TableCell>{formatBucket(row.weekend_hours, row.weekend_multiplier)}</TableCell>
+                  <TableCell>{formatBucket(row.holiday_hours, row.holiday_multiplier)}</TableCell>
+                  <TableCell>{getWeightedHours(row)}h</TableCell>
+                  <TableCell>
+                    {row.approval_status === "not_required" ? (
+                      "-"
+                    ) : (
+                      <Badge
+                        variant={
+                          row.approval_status === "approved"
+                            ? "default"
+                            : row.approval_status === "rejected"
+                              ? "destructive"
+                              : "secondary"
+                        }
+                      >
+                        {APPROVAL_LABELS[row.approval_status] ?? row.approval_status}
+                      </Badge>
+                    )}
+                    {row.review_notes && (
+                      <p className="mt-1 max-w-xs text-xs italic text-muted-foreground break-words">
+                        "{row.review_notes}"
+                      </p>
+                    )}
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      {row.approval_status !== "not_required" && (
+                        <div className="flex gap-2">
+                          {row.approval_status !== "approved" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReviewTarget({ row, decision: "approved" })}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                          )}
+                          {row.approval_status !== "rejected" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setReviewTarget({ row, decision: "rejected" })}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ReviewLeaveDialog
+        decision={reviewTarget?.decision ?? null}
+        subject="Overtime"
+        summary={
+          reviewTarget
+            ? `${reviewTarget.row.employee_name} · ${reviewTarget.row.overtime_hours}h overtime · ${
+                Math.round((reviewTarget.row.weekend_hours + reviewTarget.row.holiday_hours) * 100) / 100
+              }h weekend or holiday`
+            : ""
+        }
+        onOpenChange={(open) => !open && setReviewTarget(null)}
+        onConfirm={handleReview}
+      />
+    </Card>
+  );
+};
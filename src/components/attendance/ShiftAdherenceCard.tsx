@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { addWeeks, endOfWeek, format, startOfWeek } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { parseDateOnly, toDateOnly } from "@/lib/leaves";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type ShiftAdherenceRow = Database["public"]["Functions"]["get_shift_adherence"]["Returns"][number];
+
+interface ShiftAdherenceCardProps {
+  isAdmin: boolean;
+}
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), "p") : "-");
+
+const isException = (row: ShiftAdherenceRow) => row.is_late || row.left_early || row.no_show;
+
+// Rostered shifts next to the clock-ins that matched them, one week at a time
+export const ShiftAdherenceCard = ({ isAdmin }: ShiftAdherenceCardProps) => {
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [rows, setRows] = useState<ShiftAdherenceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exceptionsOnly, setExceptionsOnly] = useState(false);
+
+  const weekStart = startOfWeek(anchorDate);
+  const weekEnd = endOfWeek(anchorDate);
+  const weekStartKey = toDateOnly(weekStart);
+
+  useEffect(() => {
+    const fetchAdherence = async () => {
+      try {
+        const { data, error } = await supabase.rpc("get_shift_adherence", {
+          _start_date: weekStartKey,
+          _end_date: toDateOnly(weekEnd),
+        });
+
+        if (error) throw error;
+        setRows(data || []);
+      } catch (error) {
+        console.error("Error fetching shift adherence:", error);
+        toast.error("Failed to load shifts");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAdherence();
+  }, [weekStartKey]);
+
+  const visibleRows = rows.filter((row) => !exceptionsOnly || isException(row));
+  const lateCount = rows.filter((row) => row.is_late).length;
+  const noShowCount = rows.filter((row) => row.no_show).length;
+
+  const renderStatus = (row: ShiftAdherenceRow) => {
+    if (row.no_show) {
+      return <Badge variant="destructive">No show</Badge>;
+    }
+    if (!row.clock_in) {
+      return <Badge variant="outline">Scheduled</Badge>;
+    }
+    if (!row.is_late && !row.left_early) {
+      return <Badge variant="outline">On time</Badge>;
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {row.is_late && <Badge variant="secondary">Late {row.late_minutes}m</Badge>}
+        {row.left_early && <Badge variant="secondary">Left {row.early_minutes}m early</Badge>}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{isAdmin ? "Shifts vs Attendance" : "My Shifts"}</CardTitle>
+          <CardDescription>
+            {rows.length === 0
+              ? "No shifts rostered this week"
+              : `${lateCount} late arrival${lateCount === 1 ? "" : "s"} · ${noShowCount} missed shift${
+                  noShowCount === 1 ? "" : "s"
+                }`}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-2 mr-2">
+            <Switch
+              id="exceptions_only"
+              checked={exceptionsOnly}
+              onCheckedChange={setExceptionsOnly}
+            />
+            <Label htmlFor="exceptions_only">Exceptions only</Label>
+          </div>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setAnchorDate((current) => addWeeks(current, -1))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium">
+            {format(weekStart, "d MMM")} – {format(weekEnd, "d MMM yyyy")}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setAnchorDate((current) => addWeeks(current, 1))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : visibleRows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            {exceptionsOnly ? "Everyone kept to their shifts" : "No shifts to show"}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isAdmin && <TableHead>Employee</TableHead>}
+                <TableHead>Date</TableHead>
+                <TableHead>Shift</TableHead>
+                <TableHead>Clocked</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map((row) => (
+                <TableRow key={row.assignment_id}>
+                  {isAdmin && <TableCell className="font-medium">{row.employee_name}</TableCell>}
+                  <TableCell>{format(parseDateOnly(row.shift_date), "EEE, PP")}</TableCell>
+                  <TableCell>
+                    {row.shift_name}
+                    <span className="ml-1 text-muted-foreground">
+                      {formatTime(row.scheduled_start)}–{formatTime(row.scheduled_end)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {row.clock_in
+                      ? `${formatTime(row.clock_in)}–${row.clock_out ? formatTime(row.clock_out) : "now"}`
+                      : "-"}
+                  </TableCell>
+                  <TableCell>{renderStatus(row)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
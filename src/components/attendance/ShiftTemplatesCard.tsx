@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Pencil, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ShiftTemplate } from "@/hooks/useShiftTemplates";
+import { formatShiftHours, formatShiftTime } from "@/lib/shifts";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const DEFAULT_COLOR = "#64748b";
+
+interface ShiftTemplatesCardProps {
+  shiftTemplates: ShiftTemplate[];
+  onChanged: () => void;
+}
+
+export const ShiftTemplatesCard = ({ shiftTemplates, onChanged }: ShiftTemplatesCardProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ShiftTemplate | null>(null);
+  const [name, setName] = useState("");
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("17:00");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (template: ShiftTemplate | null) => {
+    setEditingTemplate(template);
+    setName(template?.name || "");
+    setStartTime(template ? formatShiftTime(template.start_time) : "09:00");
+    setEndTime(template ? formatShiftTime(template.end_time) : "17:00");
+    setColor(template?.color || DEFAULT_COLOR);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (startTime === endTime) {
+      toast.error("A shift must end at a different time than it starts");
+      return;
+    }
+
+    setSaving(true);
+    const templateData = {
+      name: name.trim(),
+      start_time: startTime,
+      end_time: endTime,
+      color,
+    };
+
+    try {
+      const { error } = editingTemplate
+        ? await supabase.from("shift_templates").update(templateData).eq("id", editingTemplate.id)
+        : await supabase.from("shift_templates").insert([templateData]);
+
+      if (error) throw error;
+
+      toast.success(editingTemplate ? "Shift updated" : "Shift created");
+      setDialogOpen(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error saving shift template:", error);
+      toast.error("Failed to save shift. Names must be unique.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: ShiftTemplate, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("shift_templates")
+        .update({ is_active: active })
+        .eq("id", template.id);
+
+      if (error) throw error;
+
+      onChanged();
+    } catch (error) {
+      console.error("Error updating shift template:", error);
+      toast.error("Failed to update shift");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Shifts</CardTitle>
+          <CardDescription>
+            Inactive shifts can no longer be rostered but stay on days already planned
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Shift
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {shiftTemplates.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Add a shift before building the roster
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shiftTemplates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="h-3 w-3 rounded-full"
+                          style={{ backgroundColor: template.color }}
+                        />
+                        {template.name}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatShiftHours(template)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={template.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(template, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(template)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editingTemplate ? "Edit Shift" : "Add Shift"}</DialogTitle>
+              <DialogDescription>
+                Times are in the organisation's time zone. A shift that ends before it starts
+                finishes the next day.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="shift_name">Name</Label>
+                <Input
+                  id="shift_name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Morning"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="shift_start_time">Start</Label>
+                  <Input
+                    id="shift_start_time"
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="shift_end_time">End</Label>
+                  <Input
+                    id="shift_end_time"
+                    type="time"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="shift_color">Colour</Label>
+                  <Input
+                    id="shift_color"
+                    type="color"
+                    className="h-10 p-1"
+                    value={color}
+                    onChange={(e) => setColor(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                {saving ? "Saving..." : "Save Shift"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
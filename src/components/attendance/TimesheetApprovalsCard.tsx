@@ -0,0 +1,384 @@
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, History, LockOpen, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/lib/auth";
+import { parseDateOnly } from "@/lib/leaves";
+import {
+  formatHours,
+  getTimesheetStatusVariant,
+  TIMESHEET_STATUS_LABELS,
+  type TimesheetStatus,
+} from "@/lib/attendance";
+import { ReviewLeaveDialog, type ReviewDecision } from "@/components/leaves/ReviewLeaveDialog";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type Timesheet = Database["public"]["Tables"]["timesheets"]["Row"] & {
+  employee: { name: string } | null;
+  reviewer: { name: string } | null;
+  delegator: { name: string } | null;
+};
+
+type TimesheetEvent = Database["public"]["Tables"]["timesheet_events"]["Row"] & {
+  actor: { name: string } | null;
+};
+
+type TimesheetEventType = Database["public"]["Enums"]["timesheet_event_type"];
+
+const EVENT_LABELS: Record<TimesheetEventType, string> = {
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  unlocked: "Unlocked",
+};
+
+interface TimesheetApprovalsCardProps {
+  isAdmin: boolean;
+  // Called after a week is approved or unlocked, since that locks or frees attendance
+  onChanged: () => void;
+}
+
+const formatWeek = (weekStart: string) => {
+  const start = parseDateOnly(weekStart);
+  return `${format(start, "d MMM")} – ${format(addDays(start, 6), "d MMM yyyy")}`;
+};
+
+// Review inbox for admins and anyone standing in for an approver
+export const TimesheetApprovalsCard = ({ isAdmin, onChanged }: TimesheetApprovalsCardProps) => {
+  const { user } = useAuth();
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [statusFilter, setStatusFilter] = useState<TimesheetStatus | "all">("submitted");
+  const [loading, setLoading] = useState(true);
+  const [reviewTarget, setReviewTarget] = useState<{
+    timesheet: Timesheet;
+    decision: ReviewDecision;
+  } | null>(null);
+  const [unlockTarget, setUnlockTarget] = useState<Timesheet | null>(null);
+  const [unlockReason, setUnlockReason] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<Timesheet | null>(null);
+  const [events, setEvents] = useState<TimesheetEvent[]>([]);
+
+  const fetchTimesheets = async () => {
+    try {
+      let query = supabase
+        .from("timesheets")
+        .select(`
+          *,
+          employee:profiles!timesheets_user_id_fkey(name),
+          reviewer:profiles!timesheets_reviewed_by_fkey(name),
+          delegator:profiles!timesheets_reviewed_on_behalf_of_fkey(name)
+        `)
+        .order("week_start", { ascending: false })
+        .order("submitted_at");
+
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setTimesheets(data || []);
+    } catch (error) {
+      console.error("Error fetching timesheets:", error);
+      toast.error("Failed to load timesheets");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTimesheets();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (!historyTarget) return;
+
+    const fetchEvents = async () => {
+      const { data, error } = await supabase
+        .from("timesheet_events")
+        .select("*, actor:profiles!timesheet_events_actor_id_fkey(name)")
+        .eq("timesheet_id", historyTarget.id)
+        .order("created_at");
+
+      if (error) {
+        console.error("Error fetching timesheet history:", error);
+        toast.error("Failed to load timesheet history");
+        return;
+      }
+      setEvents(data || []);
+    };
+
+    fetchEvents();
+  }, [historyTarget?.id]);
+
+  const handleReview = async (notes: string) => {
+    if (!reviewTarget) return;
+    const { timesheet, decision } = reviewTarget;
+
+    try {
+      const { error } = await supabase.rpc("review_timesheet", {
+        _timesheet_id: timesheet.id,
+        _decision: decision,
+        _notes: notes || null,
+      });
+
+      if (error) throw error;
+
+      toast.success(decision === "approved" ? "Timesheet approved" : "Timesheet rejected");
+      setReviewTarget(null);
+      fetchTimesheets();
+      onChanged();
+    } catch (error) {
+      console.error("Error reviewing timesheet:", error);
+      toast.error((error as { message?: string })?.message || "Failed to review timesheet");
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!unlockTarget) return;
+    setUnlocking(true);
+
+    try {
+      const { error } = await supabase.rpc("unlock_timesheet", {
+        _timesheet_id: unlockTarget.id,
+        _reason: unlockReason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast.success("Timesheet unlocked");
+      setUnlockTarget(null);
+      fetchTimesheets();
+      onChanged();
+    } catch (error) {
+      console.error("Error unlocking timesheet:", error);
+      toast.error((error as { message?: string })?.message || "Failed to unlock timesheet");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Timesheet Approvals</CardTitle>
+          <CardDescription>
+            Approving a week locks its attendance. Only admins can unlock it again.
+          </CardDescription>
+        </div>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as TimesheetStatus | "all")}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(TIMESHEET_STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : timesheets.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No timesheets to show</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Week</TableHead>
+                <TableHead>Hours</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {timesheets.map((timesheet) => (
+                <TableRow key={timesheet.id}>
+                  <TableCell className="font-medium">
+                    {timesheet.employee?.name || "Unknown"}
+                    {timesheet.employee_notes && (
+                      <p className="max-w-xs text-xs font-normal italic text-muted-foreground break-words">
+                        "{timesheet.employee_notes}"
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatWeek(timesheet.week_start)}</TableCell>
+                  <TableCell>{formatHours(timesheet.total_hours)}</TableCell>
+                  <TableCell>
+                    <Badge variant={getTimesheetStatusVariant(timesheet.status)}>
+                      {TIMESHEET_STATUS_LABELS[timesheet.status]}
+                    </Badge>
+                    {timesheet.reviewer && timesheet.status !== "submitted" && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        by {timesheet.reviewer.name}
+                        {timesheet.delegator && ` for ${timesheet.delegator.name}`}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {timesheet.status === "submitted" && timesheet.user_id !== user?.id && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReviewTarget({ timesheet, decision: "approved" })}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReviewTarget({ timesheet, decision: "rejected" })}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {isAdmin && timesheet.status === "approved" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            setUnlockReason("");
+                            setUnlockTarget(timesheet);
+                          }}
+                        >
+                          <LockOpen className="h-4 w-4 mr-1" />
+                          Unlock
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setEvents([]);
+                          setHistoryTarget(timesheet);
+                        }}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ReviewLeaveDialog
+        decision={reviewTarget?.decision ?? null}
+        subject="Timesheet"
+        summary={
+          reviewTarget
+            ? `${reviewTarget.timesheet.employee?.name || "Unknown"} · ${formatWeek(
+                reviewTarget.timesheet.week_start
+              )} · ${formatHours(reviewTarget.timesheet.total_hours)}`
+            : ""
+        }
+        onOpenChange={(open) => !open && setReviewTarget(null)}
+        onConfirm={handleReview}
+      />
+
+      <Dialog open={!!unlockTarget} onOpenChange={(open) => !open && setUnlockTarget(null)}>
+        <DialogContent>
+          <form onSubmit={handleUnlock}>
+            <DialogHeader>
+              <DialogTitle>Unlock Timesheet</DialogTitle>
+              <DialogDescription>
+                {unlockTarget &&
+                  `${unlockTarget.employee?.name || "Unknown"} · ${formatWeek(
+                    unlockTarget.week_start
+                  )}. Attendance for this week can be edited again and the employee must resubmit it.`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="unlock_reason">Reason</Label>
+              <Textarea
+                id="unlock_reason"
+                value={unlockReason}
+                onChange={(e) => setUnlockReason(e.target.value)}
+                rows={3}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={unlocking || !unlockReason.trim()}>
+                {unlocking ? "Unlocking..." : "Unlock"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyTarget} onOpenChange={(open) => !open && setHistoryTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Timesheet History</DialogTitle>
+            <DialogDescription>
+              {historyTarget &&
+                `${historyTarget.employee?.name || "Unknown"} · ${formatWeek(historyTarget.week_start)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-3">
+            {events.map((event) => (
+              <li key={event.id} className="text-sm">
+                <span className="font-medium">{EVENT_LABELS[event.event_type]}</span> by{" "}
+                {event.actor?.name || "Unknown"} · {format(new Date(event.created_at), "PPp")} ·{" "}
+                {formatHours(event.total_hours)}
+                {event.notes && (
+                  <p className="italic text-muted-foreground break-words">"{event.notes}"</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
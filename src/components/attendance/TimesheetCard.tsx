@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { addDays, format, startOfWeek } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronLeft, ChevronRight, Lock, Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/lib/auth";
+import { parseDateOnly, toDateOnly } from "@/lib/leaves";
+import {
+  formatHours,
+  getTimesheetStatusVariant,
+  TIMESHEET_STATUS_LABELS,
+} from "@/lib/attendance";
+import { toast } from "sonner";
+
+type Timesheet = Database["public"]["Tables"]["timesheets"]["Row"];
+type TimesheetDay = Database["public"]["Functions"]["get_timesheet_hours"]["Returns"][number];
+
+interface TimesheetCardProps {
+  // Changing it reloads the week, e.g. after clocking in or out
+  refreshKey?: number;
+}
+
+// The current user's week: daily net hours, submission and the approver's decision
+export const TimesheetCard = ({ refreshKey }: TimesheetCardProps) => {
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [days, setDays] = useState<TimesheetDay[]>([]);
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const weekStartDate = toDateOnly(weekStart);
+
+  const fetchWeek = async () => {
+    if (!user) return;
+
+    try {
+      const [hoursResult, timesheetResult] = await Promise.all([
+        supabase.rpc("get_timesheet_hours", { _user_id: user.id, _week_start: weekStartDate }),
+        supabase
+          .from("timesheets")
+          .select("*")
+          .eq("user_id", user.id)
+          .eq("week_start", weekStartDate)
+          .maybeSingle(),
+      ]);
+
+      if (hoursResult.error) throw hoursResult.error;
+      if (timesheetResult.error) throw timesheetResult.error;
+
+      setDays(hoursResult.data || []);
+      setTimesheet(timesheetResult.data);
+      setNotes(timesheetResult.data?.employee_notes ?? "");
+    } catch (error) {
+      console.error("Error fetching timesheet:", error);
+      toast.error("Failed to load timesheet");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWeek();
+  }, [user?.id, weekStartDate, refreshKey]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+
+    try {
+      const { error } = await supabase.rpc("submit_timesheet", {
+        _week_start: weekStartDate,
+        _notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+
+      toast.success("Timesheet submitted for approval");
+      fetchWeek();
+    } catch (error) {
+      console.error("Error submitting timesheet:", error);
+      toast.error((error as { message?: string })?.message || "Failed to submit timesheet");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const totalHours = days.reduce((total, day) => total + day.net_hours, 0);
+  const openSessions = days.reduce((total, day) => total + day.open_sessions, 0);
+  // Approval locks the week, so it can only be submitted once it is over
+  const hasEnded = addDays(weekStart, 7) <= new Date();
+  const canSubmit =
+    hasEnded && (!timesheet || timesheet.status === "rejected" || timesheet.status === "reopened");
+  const hoursChanged =
+    timesheet?.status === "submitted" &&
+    Math.round(totalHours * 100) !== Math.round(timesheet.total_hours * 100);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            My Timesheet
+            {timesheet && (
+              <Badge variant={getTimesheetStatusVariant(timesheet.status)}>
+                {timesheet.status === "approved" && <Lock className="mr-1 h-3 w-3" />}
+                {TIMESHEET_STATUS_LABELS[timesheet.status]}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Submit each week for approval. Approved weeks are locked against changes.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setWeekStart((current) => addDays(current, -7))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium">
+            {format(weekStart, "d MMM")} – {format(addDays(weekStart, 6), "d MMM yyyy")}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setWeekStart((current) => addDays(current, 7))}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-7 gap-2">
+              {days.map((day) => (
+                <div key={day.work_date} className="rounded-md border p-2 text-center">
+                  <p className="text-xs text-muted-foreground">
+                    {format(parseDateOnly(day.work_date), "EEE d")}
+                  </p>
+                  <p className="font-medium">{day.net_hours > 0 ? `${day.net_hours}h` : "-"}</p>
+                  {day.open_sessions > 0 && (
+                    <p className="text-xs text-muted-foreground">Clocked in</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm">
+              Total: <span className="font-medium">{formatHours(totalHours)}</span>
+              {timesheet && timesheet.status !== "reopened" && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  · submitted {format(new Date(timesheet.submitted_at), "PPp")} with{" "}
+                  {formatHours(timesheet.total_hours)}
+                </span>
+              )}
+            </p>
+
+            {hoursChanged && (
+              <p className="text-sm text-destructive">
+                Your hours changed after you submitted. Your approver will need to reject this
+                week so you can resubmit it.
+              </p>
+            )}
+
+            {timesheet?.review_notes && (
+              <p className="text-sm italic text-muted-foreground break-words">
+                "{timesheet.review_notes}"
+              </p>
+            )}
+
+            {!hasEnded && !timesheet && (
+              <p className="text-sm text-muted-foreground">
+                You can submit this week once it has ended.
+              </p>
+            )}
+
+            {canSubmit && (
+              <div className="space-y-2">
+                <Label htmlFor="timesheet_notes">Notes for your approver (optional)</Label>
+                <Textarea
+                  id="timesheet_notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                />
+                <Button onClick={handleSubmit} disabled={submitting || openSessions > 0}>
+                  <Send className="mr-2 h-4 w-4" />
+                  {submitting
+                    ? "Submitting..."
+                    : timesheet
+                      ? "Resubmit Timesheet"
+                      : "Submit Timesheet"}
+                </Button>
+                {openSessions > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Clock out before submitting this week.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
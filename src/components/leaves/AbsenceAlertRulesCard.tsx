@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type AbsenceAlertRules = Database["public"]["Tables"]["absence_alert_rules"]["Row"];
+
+interface AbsenceAlertRulesCardProps {
+  rules: AbsenceAlertRules;
+  onSaved: () => void;
+}
+
+export const AbsenceAlertRulesCard = ({ rules, onSaved }: AbsenceAlertRulesCardProps) => {
+  const { leaveTypes } = useLeaveTypes();
+  const [leaveType, setLeaveType] = useState(rules.leave_type);
+  const [warningScore, setWarningScore] = useState(String(rules.bradford_warning_score));
+  const [criticalScore, setCriticalScore] = useState(String(rules.bradford_critical_score));
+  const [adjacentSpells, setAdjacentSpells] = useState(String(rules.adjacent_spells_threshold));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setLeaveType(rules.leave_type);
+    setWarningScore(String(rules.bradford_warning_score));
+    setCriticalScore(String(rules.bradford_critical_score));
+    setAdjacentSpells(String(rules.adjacent_spells_threshold));
+  }, [rules]);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (Number(criticalScore) <= Number(warningScore)) {
+      toast.error("The critical score must be higher than the warning score");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("absence_alert_rules")
+        .update({
+          leave_type: leaveType,
+          bradford_warning_score: Number(warningScore),
+          bradford_critical_score: Number(criticalScore),
+          adjacent_spells_threshold: Number(adjacentSpells),
+        })
+        .eq("id", true);
+
+      if (error) throw error;
+
+      toast.success("Thresholds saved");
+      onSaved();
+    } catch (error) {
+      console.error("Error saving absence alert rules:", error);
+      toast.error("Failed to save thresholds");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Thresholds</CardTitle>
+        <CardDescription>
+          Employees at or above a Bradford score, or with at least the given number of spells
+          next to a weekend or holiday, are flagged in the report.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="absence_leave_type">Leave Type</Label>
+              <Select value={leaveType} onValueChange={setLeaveType}>
+                <SelectTrigger id="absence_leave_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {leaveTypes.map((type) => (
+                    <SelectItem key={type.key} value={type.key}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bradford_warning_score">Warning Score</Label>
+              <Input
+                id="bradford_warning_score"
+                type="number"
+                min={1}
+                step={1}
+                value={warningScore}
+                onChange={(e) => setWarningScore(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bradford_critical_score">Critical Score</Label>
+              <Input
+                id="bradford_critical_score"
+                type="number"
+                min={1}
+                step={1}
+                value={criticalScore}
+                onChange={(e) => setCriticalScore(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjacent_spells_threshold">Spells Next to Days Off</Label>
+              <Input
+                id="adjacent_spells_threshold"
+                type="number"
+                min={1}
+                step={1}
+                value={adjacentSpells}
+                onChange={(e) => setAdjacentSpells(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
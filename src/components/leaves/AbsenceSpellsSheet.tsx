@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  formatDays,
+  formatLeaveDuration,
+  parseDateOnly,
+  type HalfDayPeriod,
+  type LeaveDurationUnit,
+} from "@/lib/leaves";
+import { toast } from "sonner";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+type AbsenceSpell = Database["public"]["Functions"]["get_absence_spells"]["Returns"][number];
+
+interface SpellLeave {
+  id: string;
+  start_date: string;
+  end_date: string;
+  duration_days: number;
+  duration_unit: LeaveDurationUnit;
+  half_day_period: HalfDayPeriod | null;
+  hours: number | null;
+  reason: string;
+}
+
+interface AbsenceSpellsSheetProps {
+  employee: { id: string; name: string } | null;
+  // The type tracked by the absence rules; null until they are loaded
+  leaveType: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatRange = (start: string, end: string) =>
+  start === end
+    ? parseDateOnly(start).toLocaleDateString()
+    : `${parseDateOnly(start).toLocaleDateString()} - ${parseDateOnly(end).toLocaleDateString()}`;
+
+// Spells behind an employee's Bradford factor, with the requests that make up each one
+export const AbsenceSpellsSheet = ({ employee, leaveType, onOpenChange }: AbsenceSpellsSheetProps) => {
+  const [spells, setSpells] = useState<AbsenceSpell[]>([]);
+  const [leaves, setLeaves] = useState<Record<string, SpellLeave>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setSpells([]);
+    setLeaves({});
+    if (!employee || !leaveType) return;
+
+    const fetchSpells = async () => {
+      setLoading(true);
+
+      try {
+        const { data, error } = await supabase
+          .rpc("get_absence_spells", { _leave_type: leaveType })
+          .eq("user_id", employee.id);
+
+        if (error) throw error;
+
+        const leaveIds = (data || []).flatMap((spell) => spell.leave_ids);
+        const { data: leaveRows, error: leavesError } = await supabase
+          .from("leaves")
+          .select("id, start_date, end_date, duration_days, duration_unit, half_day_period, hours, reason")
+          .in("id", leaveIds);
+
+        if (leavesError) throw leavesError;
+
+        // Most recent spell first
+        setSpells([...(data || [])].reverse());
+        setLeaves(Object.fromEntries((leaveRows || []).map((leave) => [leave.id, leave])));
+      } catch (error) {
+        console.error("Error fetching absence spells:", error);
+        toast.error("Failed to load absence spells");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSpells();
+  }, [employee?.id, leaveType]);
+
+  return (
+    <Sheet open={employee !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        {employee && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{employee.name}</SheetTitle>
+              <SheetDescription>Absence spells over the last 52 weeks</SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-4 space-y-3">
+              {!leaveType ? (
+                <p className="text-sm text-muted-foreground">
+                  No leave type is tracked for absence patterns
+                </p>
+              ) : loading ? (
+                <Skeleton className="h-24 w-full" />
+              ) : spells.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No absences in this period</p>
+              ) : (
+                spells.map((spell) => (
+                  <div key={spell.spell_start} className="space-y-2 rounded-md border p-3 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">
+                        {formatRange(spell.spell_start, spell.spell_end)}
+                      </span>
+                      <span className="text-muted-foreground">· {formatDays(spell.days)}</span>
+                      {spell.after_day_off && (
+                        <Badge variant="secondary">After weekend/holiday</Badge>
+                      )}
+                      {spell.before_day_off && (
+                        <Badge variant="secondary">Before weekend/holiday</Badge>
+                      )}
+                    </div>
+                    <ul className="space-y-1 text-muted-foreground">
+                      {spell.leave_ids.map((leaveId) => {
+                        const leave = leaves[leaveId];
+                        if (!leave) return null;
+
+                        return (
+                          <li key={leaveId}>
+                            {formatRange(leave.start_date, leave.end_date)} ·{" "}
+                            {formatLeaveDuration(leave)}
+                            {leave.reason && ` · ${leave.reason}`}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
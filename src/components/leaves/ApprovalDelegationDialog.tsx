@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Trash2, UserCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { parseDateOnly } from "@/lib/leaves";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface Employee {
+  id: string;
+  name: string;
+}
+
+interface Delegation {
+  id: string;
+  starts_on: string;
+  ends_on: string;
+  delegate: {
+    name: string;
+  } | null;
+}
+
+export const ApprovalDelegationDialog = () => {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [delegateId, setDelegateId] = useState("");
+
+  const fetchDelegations = async () => {
+    const { data, error } = await supabase
+      .from("approval_delegations")
+      .select("id, starts_on, ends_on, delegate:profiles!approval_delegations_delegate_id_fkey(name)")
+      .eq("delegator_id", user?.id)
+      .order("starts_on", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching delegations:", error);
+      return;
+    }
+    setDelegations(data || []);
+  };
+
+  useEffect(() => {
+    const fetchEmployees = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, name")
+        .neq("id", user?.id)
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching employees:", error);
+        return;
+      }
+      setEmployees(data || []);
+    };
+
+    if (open) {
+      fetchEmployees();
+      fetchDelegations();
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    try {
+      const { error } = await supabase.from("approval_delegations").insert([
+        {
+          delegator_id: user?.id,
+          delegate_id: delegateId,
+          starts_on: formData.get("starts_on") as string,
+          ends_on: formData.get("ends_on") as string,
+        },
+      ]);
+
+      if (error) throw error;
+
+      toast.success("Approvals delegated");
+      form.reset();
+      setDelegateId("");
+      fetchDelegations();
+    } catch (error) {
+      console.error("Error delegating approvals:", error);
+      toast.error("Failed to delegate approvals");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (delegationId: string) => {
+    try {
+      const { error } = await supabase
+        .from("approval_delegations")
+        .delete()
+        .eq("id", delegationId);
+
+      if (error) throw error;
+
+      fetchDelegations();
+    } catch (error) {
+      console.error("Error removing delegation:", error);
+      toast.error("Failed to remove delegation");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <UserCheck className="mr-2 h-4 w-4" />
+          Delegate Approvals
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delegate Approvals</DialogTitle>
+          <DialogDescription>
+            The delegate can approve and reject pending leave on your behalf between these dates
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {delegations.length === 0 && (
+            <p className="text-sm text-muted-foreground">No delegations</p>
+          )}
+          {delegations.map((delegation) => (
+            <div
+              key={delegation.id}
+              className="flex items-center justify-between rounded-md border p-2"
+            >
+              <div>
+                <p className="font-medium">{delegation.delegate?.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {parseDateOnly(delegation.starts_on).toLocaleDateString()} to{" "}
+                  {parseDateOnly(delegation.ends_on).toLocaleDateString()}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => handleDelete(delegation.id)}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="delegate_id">Delegate</Label>
+            <Select value={delegateId} onValueChange={setDelegateId} required>
+              <SelectTrigger id="delegate_id">
+                <SelectValue placeholder="Select employee" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={employee.id}>
+                    {employee.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="starts_on">From</Label>
+              <Input id="starts_on" name="starts_on" type="date" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ends_on">Until</Label>
+              <Input id="ends_on" name="ends_on" type="date" required />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={submitting || !delegateId}>
+              {submitting ? "Saving..." : "Delegate"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,69 @@
+import { CheckCircle2, MinusCircle, XCircle } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface BulkReviewResult {
+  leaveId: string;
+  // e.g. "Jane Doe · Vacation · 12/1/2025"
+  label: string;
+  success: boolean;
+  // Null on an unsuccessful row means it was fine but rolled back with the batch
+  errorMessage: string | null;
+}
+
+interface BulkReviewResultsDialogProps {
+  results: BulkReviewResult[] | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const BulkReviewResultsDialog = ({ results, onOpenChange }: BulkReviewResultsDialogProps) => {
+  // The batch is all-or-nothing: one failure means nothing was updated
+  const failedCount = results?.filter((result) => result.errorMessage).length ?? 0;
+
+  return (
+    <Dialog open={results !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Bulk Review Results</DialogTitle>
+          <DialogDescription>
+            {results &&
+              (failedCount > 0
+                ? `No requests were updated because ${failedCount} of ${results.length} failed. They all stay selected; fix or deselect the failures and try again.`
+                : `${results.length} of ${results.length} requests updated`)}
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-80">
+          <ul className="space-y-2 pr-4">
+            {results?.map((result) => (
+              <li key={result.leaveId} className="flex items-start gap-2 text-sm">
+                {result.success ? (
+                  <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                ) : result.errorMessage ? (
+                  <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                ) : (
+                  <MinusCircle className="h-4 w-4 shrink-0 text-muted-foreground" />
+                )}
+                <div>
+                  <p>{result.label}</p>
+                  {result.errorMessage ? (
+                    <p className="text-xs text-destructive">{result.errorMessage}</p>
+                  ) : (
+                    !result.success && (
+                      <p className="text-xs text-muted-foreground">Not applied</p>
+                    )
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
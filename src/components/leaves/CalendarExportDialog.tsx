@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarDays, Copy, Download } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useRole } from "@/hooks/useRole";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { formatLeaveDuration, toDateOnly } from "@/lib/leaves";
+import { buildLeaveIcs, downloadIcsFile } from "@/lib/ics";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+type ExportScope = "own" | "all";
+
+const getFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/leave-calendar-feed?token=${token}`;
+
+export const CalendarExportDialog = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useRole();
+  const { getLeaveTypeName } = useLeaveTypes();
+  const [open, setOpen] = useState(false);
+  const [exportingScope, setExportingScope] = useState<ExportScope | null>(null);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [updatingToken, setUpdatingToken] = useState(false);
+
+  useEffect(() => {
+    const fetchFeedToken = async () => {
+      const { data, error } = await supabase
+        .from("calendar_feed_tokens")
+        .select("token")
+        .eq("user_id", user?.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching calendar feed token:", error);
+        return;
+      }
+      setFeedToken(data?.token ?? null);
+    };
+
+    if (open && user) {
+      fetchFeedToken();
+    }
+  }, [open, user]);
+
+  const handleExport = async (scope: ExportScope) => {
+    setExportingScope(scope);
+
+    try {
+      let query = supabase
+        .from("leaves")
+        .select(`
+          id,
+          type,
+          start_date,
+          end_date,
+          duration_days,
+          duration_unit,
+          half_day_period,
+          hours,
+          profiles!leaves_user_id_fkey(name)
+        `)
+        .eq("status", "approved")
+        .order("start_date");
+
+      if (scope === "own") {
+        query = query.eq("user_id", user?.id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const events = (data || []).map((leave) => {
+        const typeName = getLeaveTypeName(leave.type);
+        const summary = scope === "all" ? `${leave.profiles?.name} · ${typeName}` : typeName;
+        return {
+          uid: `leave-${leave.id}@peopleops`,
+          summary:
+            leave.duration_unit === "full_day"
+              ? summary
+              : `${summary} (${formatLeaveDuration(leave)})`,
+          start_date: leave.start_date,
+          end_date: leave.end_date,
+        };
+      });
+
+      downloadIcsFile(
+        `${scope === "all" ? "company-leave" : "my-leave"}-${toDateOnly(new Date())}.ics`,
+        buildLeaveIcs(scope === "all" ? "Company leave" : "My leave", events)
+      );
+    } catch (error) {
+      console.error("Error exporting leave:", error);
+      toast.error("Failed to export leave");
+    } finally {
+      setExportingScope(null);
+    }
+  };
+
+  const handleGenerateToken = async () => {
+    setUpdatingToken(true);
+
+    try {
+      const { data, error } = await supabase.rpc("regenerate_calendar_feed_token");
+
+      if (error) throw error;
+
+      setFeedToken(data);
+      toast.success(feedToken ? "Subscription link reset" : "Subscription link created");
+    } catch (error) {
+      console.error("Error generating calendar feed token:", error);
+      toast.error("Failed to create subscription link");
+    } finally {
+      setUpdatingToken(false);
+    }
+  };
+
+  const handleRevokeToken = async () => {
+    setUpdatingToken(true);
+
+    try {
+      const { error } = await supabase
+        .from("calendar_feed_tokens")
+        .delete()
+        .eq("user_id", user?.id);
+
+      if (error) throw error;
+
+      setFeedToken(null);
+      toast.success("Subscription link revoked");
+    } catch (error) {
+      console.error("Error revoking calendar feed token:", error);
+      toast.error("Failed to revoke subscription link");
+    } finally {
+      setUpdatingToken(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getFeedUrl(feedToken));
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast.error("Failed to copy link");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarDays className="mr-2 h-4 w-4" />
+          Calendar Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Calendar Export</DialogTitle>
+          <DialogDescription>
+            Approved leave as an iCalendar (.ics) file for Google Calendar, Outlook or Apple
+            Calendar
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Download</Label>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              disabled={exportingScope !== null}
+              onClick={() => handleExport("own")}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {exportingScope === "own" ? "Exporting..." : "My Leave"}
+            </Button>
+            {isAdmin && (
+              <Button
+                variant="outline"
+                disabled={exportingScope !== null}
+                onClick={() => handleExport("all")}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {exportingScope === "all" ? "Exporting..." : "Whole Company"}
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="feed_url">Subscribe</Label>
+          <p className="text-sm text-muted-foreground">
+            {isAdmin
+              ? "Your calendar app keeps approved leave across the company up to date."
+              : "Your calendar app keeps your approved leave up to date."}{" "}
+            Anyone with the link can see it, so reset it if it is shared by mistake.
+          </p>
+          {feedToken ? (
+            <>
+              <div className="flex gap-2">
+                <Input id="feed_url" readOnly value={getFeedUrl(feedToken)} />
+                <Button variant="outline" size="icon" onClick={handleCopy}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={updatingToken}
+                  onClick={handleGenerateToken}
+                >
+                  Reset Link
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={updatingToken}
+                  onClick={handleRevokeToken}
+                >
+                  Revoke
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Button variant="outline" disabled={updatingToken} onClick={handleGenerateToken}>
+              {updatingToken ? "Creating..." : "Create Subscription Link"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
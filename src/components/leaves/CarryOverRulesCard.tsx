@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export const CarryOverRulesCard = () => {
+  const { leaveTypes, getLeaveTypeName } = useLeaveTypes();
+  // Cap per leave type as typed in the inputs; "" means nothing carries over
+  const [caps, setCaps] = useState<Record<string, string>>({});
+  const [savingType, setSavingType] = useState<string | null>(null);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from("leave_carry_over_rules")
+      .select("leave_type, max_carry_over_days");
+
+    if (error) {
+      console.error("Error fetching carry-over rules:", error);
+      return;
+    }
+    setCaps(
+      Object.fromEntries(
+        (data || []).map((rule) => [rule.leave_type, String(rule.max_carry_over_days)])
+      )
+    );
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const handleSave = async (leaveType: string) => {
+    setSavingType(leaveType);
+    const cap = caps[leaveType] ?? "";
+
+    try {
+      const { error } =
+        cap === ""
+          ? await supabase.from("leave_carry_over_rules").delete().eq("leave_type", leaveType)
+          : await supabase
+              .from("leave_carry_over_rules")
+              .upsert([{ leave_type: leaveType, max_carry_over_days: Number(cap) }]);
+
+      if (error) throw error;
+
+      toast.success(`${getLeaveTypeName(leaveType)} carry-over saved`);
+      fetchRules();
+    } catch (error) {
+      console.error("Error saving carry-over rule:", error);
+      toast.error("Failed to save carry-over rule");
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Year-End Carry-Over</CardTitle>
+        <CardDescription>
+          Unused days up to the cap move into the next leave year; anything above it expires.
+          Leave the cap empty to expire all unused days of a type.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Leave Type</TableHead>
+                <TableHead>Max Carry-Over (days)</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaveTypes.map(({ key: leaveType, name }) => (
+                <TableRow key={leaveType}>
+                  <TableCell className="font-medium">{name}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      className="w-[160px]"
+                      placeholder="None"
+                      value={caps[leaveType] ?? ""}
+                      onChange={(e) => setCaps({ ...caps, [leaveType]: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={savingType === leaveType}
+                      onClick={() => handleSave(leaveType)}
+                    >
+                      {savingType === leaveType ? "Saving..." : "Save"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const CompOffRulesCard = () => {
+  const { leaveTypes } = useLeaveTypes();
+  const [isActive, setIsActive] = useState(false);
+  const [leaveType, setLeaveType] = useState("");
+  const [scheduledHours, setScheduledHours] = useState("");
+  const [hoursPerDay, setHoursPerDay] = useState("");
+  const [expiryDays, setExpiryDays] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      const { data, error } = await supabase.from("comp_off_rules").select("*").maybeSingle();
+
+      if (error) {
+        console.error("Error fetching comp-off rules:", error);
+        return;
+      }
+      if (data) {
+        setIsActive(data.is_active);
+        setLeaveType(data.leave_type);
+        setScheduledHours(String(data.scheduled_hours));
+        setHoursPerDay(String(data.hours_per_day));
+        setExpiryDays(String(data.expiry_days));
+      }
+    };
+
+    fetchRules();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("comp_off_rules")
+        .update({
+          is_active: isActive,
+          leave_type: leaveType,
+          scheduled_hours: Number(scheduledHours),
+          hours_per_day: Number(hoursPerDay),
+          expiry_days: Number(expiryDays),
+        })
+        .eq("id", true);
+
+      if (error) throw error;
+
+      toast.success("Comp-off rules saved");
+    } catch (error) {
+      console.error("Error saving comp-off rules:", error);
+      toast.error("Failed to save comp-off rules");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comp-Off</CardTitle>
+        <CardDescription>
+          Hours worked on weekends and holidays, or beyond the scheduled hours of a working day,
+          earn comp-off in half days once an admin approves them on the Attendance page. Unused
+          comp-off expires a number of days after the day worked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch id="comp_off_active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="comp_off_active">Earn comp-off from attendance</Label>
+          </div>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="comp_off_leave_type">Credited As</Label>
+              <Select value={leaveType} onValueChange={setLeaveType}>
+                <SelectTrigger id="comp_off_leave_type">
+                  <SelectValue placeholder="Select leave type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {leaveTypes.map((type) => (
+                    <SelectItem key={type.key} value={type.key}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comp_off_scheduled_hours">Scheduled Hours per Day</Label>
+              <Input
+                id="comp_off_scheduled_hours"
+                type="number"
+                min={0.5}
+                max={24}
+                step={0.5}
+                value={scheduledHours}
+                onChange={(e) => setScheduledHours(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comp_off_hours_per_day">Extra Hours per Comp-Off Day</Label>
+              <Input
+                id="comp_off_hours_per_day"
+                type="number"
+                min={0.5}
+                max={24}
+                step={0.5}
+                value={hoursPerDay}
+                onChange={(e) => setHoursPerDay(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="comp_off_expiry_days">Expires After (days)</Label>
+              <Input
+                id="comp_off_expiry_days"
+                type="number"
+                min={1}
+                step={1}
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <Button type="submit" disabled={saving || !leaveType}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type CoverageRule = Database["public"]["Tables"]["department_coverage_rules"]["Row"];
+
+interface CoverageRulesCardProps {
+  departments: string[];
+}
+
+export const CoverageRulesCard = ({ departments }: CoverageRulesCardProps) => {
+  const [rules, setRules] = useState<CoverageRule[]>([]);
+  const [department, setDepartment] = useState("");
+  const [maxAbsences, setMaxAbsences] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from("department_coverage_rules")
+      .select("*")
+      .order("department");
+
+    if (error) {
+      console.error("Error fetching coverage rules:", error);
+      return;
+    }
+    setRules(data || []);
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("department_coverage_rules")
+        .upsert(
+          [{ department, max_concurrent_absences: Number(maxAbsences) }],
+          { onConflict: "department" }
+        );
+
+      if (error) throw error;
+
+      toast.success("Coverage rule saved");
+      setDepartment("");
+      setMaxAbsences("");
+      fetchRules();
+    } catch (error) {
+      console.error("Error saving coverage rule:", error);
+      toast.error("Failed to save coverage rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from("department_coverage_rules")
+        .delete()
+        .eq("id", ruleId);
+
+      if (error) throw error;
+
+      fetchRules();
+    } catch (error) {
+      console.error("Error deleting coverage rule:", error);
+      toast.error("Failed to delete coverage rule");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Coverage</CardTitle>
+        <CardDescription>
+          Approvers are warned when a leave would put more people from a department out on the
+          same day than allowed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Max Absent at Once</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.department}</TableCell>
+                    <TableCell>{rule.max_concurrent_absences}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <form onSubmit={handleSave} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="coverage_department">Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger id="coverage_department" className="w-[200px]">
+                <SelectValue placeholder="Select department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max_concurrent_absences">Max Absent at Once</Label>
+            <Input
+              id="max_concurrent_absences"
+              type="number"
+              min={0}
+              className="w-[160px]"
+              value={maxAbsences}
+              onChange={(e) => setMaxAbsences(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" disabled={saving || !department || maxAbsences === ""}>
+            {saving ? "Saving..." : "Save Rule"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,109 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Paperclip, Upload } from "lucide-react";
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  downloadLeaveAttachment,
+  findOversizedAttachment,
+  uploadLeaveAttachments,
+  type LeaveAttachment,
+} from "@/lib/leaveAttachments";
+import { toast } from "sonner";
+
+interface LeaveAttachmentsCellProps {
+  leaveId: string;
+  userId: string;
+  attachments: LeaveAttachment[];
+  // Owners can keep adding documents while the leave is pending
+  canAttach: boolean;
+  onUploaded: () => void;
+}
+
+export const LeaveAttachmentsCell = ({
+  leaveId,
+  userId,
+  attachments,
+  canAttach,
+  onUploaded,
+}: LeaveAttachmentsCellProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleDownload = async (attachment: LeaveAttachment) => {
+    try {
+      await downloadLeaveAttachment(attachment);
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      toast.error("Failed to download document");
+    }
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const oversizedFile = findOversizedAttachment(files);
+    if (oversizedFile) {
+      toast.error(
+        `${oversizedFile.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+      );
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await uploadLeaveAttachments(userId, leaveId, files);
+      toast.success(files.length === 1 ? "Document attached" : "Documents attached");
+      onUploaded();
+    } catch (error) {
+      console.error("Error uploading attachments:", error);
+      toast.error("Failed to upload document");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (attachments.length === 0 && !canAttach) {
+    return <span className="text-muted-foreground text-sm">-</span>;
+  }
+
+  return (
+    <div className="flex max-w-[12rem] flex-col items-start gap-1">
+      {attachments.map((attachment) => (
+        <button
+          key={attachment.id}
+          type="button"
+          className="flex max-w-full items-center gap-1 text-sm text-primary hover:underline"
+          title={attachment.file_name}
+          onClick={() => handleDownload(attachment)}
+        >
+          <Paperclip className="h-3 w-3 shrink-0" />
+          <span className="truncate">{attachment.file_name}</span>
+        </button>
+      ))}
+      {canAttach && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_ATTACHMENT_TYPES}
+            className="hidden"
+            onChange={handleFilesSelected}
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={uploading}
+            onClick={() => inputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            {uploading ? "Uploading..." : "Attach"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import type { LeaveBalance } from "@/hooks/useLeaveBalances";
+import { formatDays, type LeaveType } from "@/lib/leaves";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+
+interface LeaveBalanceCardsProps {
+  balances: LeaveBalance[];
+  pendingDays: Partial<Record<LeaveType, number>>;
+  leaveYear: number;
+  loading: boolean;
+}
+
+export const LeaveBalanceCards = ({
+  balances,
+  pendingDays,
+  leaveYear,
+  loading,
+}: LeaveBalanceCardsProps) => {
+  const { getLeaveType, getLeaveTypeName } = useLeaveTypes();
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {[1, 2, 3, 4].map((i) => (
+          <Skeleton key={i} className="h-28 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (balances.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <p className="text-center text-muted-foreground">
+            No leave entitlements have been set up for {leaveYear}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      {balances.map((balance) => {
+        const pending = pendingDays[balance.leave_type] || 0;
+        const available = balance.balance_days - pending;
+        const definition = getLeaveType(balance.leave_type);
+        const usedPercent =
+          balance.entitled_days > 0
+            ? Math.min((balance.used_days / balance.entitled_days) * 100, 100)
+            : 0;
+
+        return (
+          <Card key={balance.leave_type}>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-sm font-medium">
+                {definition && (
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: definition.color }}
+                  />
+                )}
+                {getLeaveTypeName(balance.leave_type)}
+                {definition && !definition.is_paid && (
+                  <span className="font-normal text-muted-foreground">(Unpaid)</span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="text-2xl font-bold">{formatDays(available)}</div>
+              <Progress value={usedPercent} />
+              <p className="text-xs text-muted-foreground">
+                {formatDays(balance.used_days)} used of {formatDays(balance.entitled_days)}
+                {pending > 0 && ` · ${formatDays(pending)} pending`}
+              </p>
+              {(balance.carried_over_days > 0 ||
+                balance.carried_forward_days > 0 ||
+                balance.expired_days > 0) && (
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    balance.carried_over_days > 0 &&
+                      `${formatDays(balance.carried_over_days)} carried in`,
+                    balance.carried_forward_days > 0 &&
+                      `${formatDays(balance.carried_forward_days)} carried forward`,
+                    balance.expired_days > 0 && `${formatDays(balance.expired_days)} expired`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
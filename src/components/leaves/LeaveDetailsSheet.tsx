@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useLeaveRevisions } from "@/hooks/useLeaveRevisions";
+import { LeaveTypeBadge } from "@/components/leaves/LeaveTypeBadge";
+import { LeaveRevisionHistory } from "@/components/leaves/LeaveRevisionHistory";
+import {
+  formatLeaveDuration,
+  parseDateOnly,
+  type HalfDayPeriod,
+  type LeaveDurationUnit,
+  type LeaveStatus,
+  type LeaveType,
+} from "@/lib/leaves";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export interface LeaveDetails {
+  id: string;
+  user_id: string;
+  type: LeaveType;
+  start_date: string;
+  end_date: string;
+  duration_days: number;
+  duration_unit: LeaveDurationUnit;
+  half_day_period: HalfDayPeriod | null;
+  hours: number | null;
+  reason: string;
+  status: LeaveStatus;
+  review_notes: string | null;
+  profiles: {
+    name: string;
+  };
+  reviewer: {
+    name: string;
+  } | null;
+}
+
+interface LeaveComment {
+  id: string;
+  author_id: string;
+  body: string;
+  created_at: string;
+  author: {
+    name: string;
+  } | null;
+}
+
+interface LeaveDetailsSheetProps {
+  leave: LeaveDetails | null;
+  onOpenChange: (open: boolean) => void;
+  // Called once the thread has been marked as read
+  onRead: () => void;
+}
+
+export const LeaveDetailsSheet = ({ leave, onOpenChange, onRead }: LeaveDetailsSheetProps) => {
+  const { user } = useAuth();
+  const { revisions } = useLeaveRevisions(leave?.id ?? null);
+  const [comments, setComments] = useState<LeaveComment[]>([]);
+  // When the thread was last opened, so newer comments can be highlighted
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const fetchComments = async (leaveId: string) => {
+    const { data, error } = await supabase
+      .from("leave_comments")
+      .select("id, author_id, body, created_at, author:profiles!leave_comments_author_id_fkey(name)")
+      .eq("leave_id", leaveId)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error fetching comments:", error);
+      toast.error("Failed to load comments");
+      return;
+    }
+    setComments(data || []);
+  };
+
+  useEffect(() => {
+    setComments([]);
+    setLastReadAt(null);
+    setBody("");
+    if (!leave) return;
+
+    const openThread = async () => {
+      const { data: read } = await supabase
+        .from("leave_comment_reads")
+        .select("last_read_at")
+        .eq("leave_id", leave.id)
+        .eq("user_id", user?.id)
+        .maybeSingle();
+
+      setLastReadAt(read?.last_read_at ?? null);
+      await fetchComments(leave.id);
+
+      const { error } = await supabase.rpc("mark_leave_comments_read", { _leave_id: leave.id });
+      if (error) {
+        console.error("Error marking comments as read:", error);
+        return;
+      }
+      onRead();
+    };
+
+    openThread();
+  }, [leave?.id]);
+
+  const handleSend = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!leave || !body.trim()) return;
+    setSending(true);
+
+    try {
+      const { error } = await supabase.from("leave_comments").insert([
+        {
+          leave_id: leave.id,
+          author_id: user?.id,
+          body: body.trim(),
+        },
+      ]);
+
+      if (error) throw error;
+
+      setBody("");
+      await fetchComments(leave.id);
+      await supabase.rpc("mark_leave_comments_read", { _leave_id: leave.id });
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      toast.error("Failed to add comment");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Sheet open={leave !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-lg">
+        {leave && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{leave.profiles.name}</SheetTitle>
+              <SheetDescription className="flex items-center gap-2">
+                <LeaveTypeBadge leaveType={leave.type} />
+                <span className="capitalize">{leave.status}</span>
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-1 text-sm">
+              <p>
+                {parseDateOnly(leave.start_date).toLocaleDateString()}
+                {leave.end_date !== leave.start_date &&
+                  ` - ${parseDateOnly(leave.end_date).toLocaleDateString()}`}
+                <span className="text-muted-foreground"> · {formatLeaveDuration(leave)}</span>
+              </p>
+              {leave.reason && <p className="whitespace-pre-wrap">{leave.reason}</p>}
+              {leave.review_notes && (
+                <p className="text-muted-foreground">
+                  {leave.reviewer ? `${leave.reviewer.name}: ` : ""}
+                  {leave.review_notes}
+                </p>
+              )}
+            </div>
+
+            <LeaveRevisionHistory revisions={revisions} />
+
+            <Separator />
+
+            <div className="flex min-h-0 flex-1 flex-col gap-3">
+              <p className="text-sm font-medium">Discussion</p>
+              <div className="min-h-0 flex-1 space-y-3 overflow-y-auto">
+                {comments.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No comments yet</p>
+                )}
+                {comments.map((comment) => {
+                  const isOwn = comment.author_id === user?.id;
+                  const isUnread =
+                    !isOwn &&
+                    (lastReadAt === null || new Date(comment.created_at) > new Date(lastReadAt));
+
+                  return (
+                    <div
+                      key={comment.id}
+                      className={cn(
+                        "space-y-1 rounded-md border p-2 text-sm",
+                        isOwn && "ml-6 bg-muted/50",
+                        !isOwn && "mr-6"
+                      )}
+                    >
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-medium text-foreground">
+                          {comment.author?.name || "Unknown"}
+                        </span>
+                        <span>{new Date(comment.created_at).toLocaleString()}</span>
+                        {isUnread && <Badge className="px-1.5 py-0 text-[10px]">New</Badge>}
+                      </div>
+                      <p className="whitespace-pre-wrap">{comment.body}</p>
+                    </div>
+                  );
+                })}
+              </div>
+              <form onSubmit={handleSend} className="space-y-2">
+                <Textarea
+                  placeholder="Write a comment..."
+                  value={body}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  onChange={(e) => setBody(e.target.value)}
+                />
+                <div className="flex justify-end">
+                  <Button type="submit" size="sm" disabled={sending || !body.trim()}>
+                    <Send className="mr-2 h-4 w-4" />
+                    {sending ? "Sending..." : "Send"}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,124 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import { Constants } from "@/integrations/supabase/types";
+import type { LeaveFilters } from "@/hooks/useLeaveFilters";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Radix Select cannot hold an empty value, so "any" stands in for no filter
+const ANY = "any";
+
+interface LeaveFiltersBarProps {
+  filters: LeaveFilters;
+  hasFilters: boolean;
+  // Employee and department filters only make sense when viewing other people's leave
+  employees?: { id: string; name: string }[];
+  departments?: string[];
+  onFilterChange: (key: keyof LeaveFilters, value: string | null) => void;
+  onClear: () => void;
+}
+
+export const LeaveFiltersBar = ({
+  filters,
+  hasFilters,
+  employees,
+  departments,
+  onFilterChange,
+  onClear,
+}: LeaveFiltersBarProps) => {
+  const { leaveTypes } = useLeaveTypes();
+
+  const handleSelect = (key: keyof LeaveFilters) => (value: string) =>
+    onFilterChange(key, value === ANY ? null : value);
+
+  return (
+    <div className="flex flex-wrap items-end gap-2">
+      <Select value={filters.status ?? ANY} onValueChange={handleSelect("status")}>
+        <SelectTrigger className="w-[150px]" aria-label="Status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any status</SelectItem>
+          {Constants.public.Enums.leave_status.map((status) => (
+            <SelectItem key={status} value={status} className="capitalize">
+              {status}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.type ?? ANY} onValueChange={handleSelect("type")}>
+        <SelectTrigger className="w-[170px]" aria-label="Leave type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any type</SelectItem>
+          {leaveTypes.map((type) => (
+            <SelectItem key={type.key} value={type.key}>
+              {type.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {employees && (
+        <Select value={filters.employee ?? ANY} onValueChange={handleSelect("employee")}>
+          <SelectTrigger className="w-[180px]" aria-label="Employee">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All employees</SelectItem>
+            {employees.map((employee) => (
+              <SelectItem key={employee.id} value={employee.id}>
+                {employee.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {departments && (
+        <Select value={filters.department ?? ANY} onValueChange={handleSelect("department")}>
+          <SelectTrigger className="w-[180px]" aria-label="Department">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All departments</SelectItem>
+            {departments.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Input
+        type="date"
+        className="w-[150px]"
+        aria-label="From"
+        value={filters.from ?? ""}
+        max={filters.to ?? undefined}
+        onChange={(e) => onFilterChange("from", e.target.value || null)}
+      />
+      <span className="pb-2 text-sm text-muted-foreground">to</span>
+      <Input
+        type="date"
+        className="w-[150px]"
+        aria-label="To"
+        value={filters.to ?? ""}
+        min={filters.from ?? undefined}
+        onChange={(e) => onFilterChange("to", e.target.value || null)}
+      />
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,471 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useLeavePolicies } from "@/hooks/useLeavePolicies";
+import { useHolidayCalendar } from "@/hooks/useHolidayCalendar";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import {
+  DURATION_UNIT_LABELS,
+  formatDays,
+  getLeaveYear,
+  type HalfDayPeriod,
+  type LeaveDurationUnit,
+  type LeaveType,
+} from "@/lib/leaves";
+import { findApplicablePolicy, validateLeaveRequest } from "@/lib/leavePolicy";
+import { calculateLeaveDuration } from "@/lib/workingDays";
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  findOversizedAttachment,
+  uploadLeaveAttachments,
+} from "@/lib/leaveAttachments";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface EditableLeave {
+  id: string;
+  type: LeaveType;
+  start_date: string;
+  end_date: string;
+  duration_days: number;
+  duration_unit: LeaveDurationUnit;
+  half_day_period: HalfDayPeriod | null;
+  hours: number | null;
+  reason: string;
+}
+
+interface LeaveRequestDialogProps {
+  // Remaining days for a type in a leave year, or null when that balance is not tracked
+  getAvailableDays: (type: LeaveType, leaveYear: number) => number | null;
+  onSubmitted: () => void;
+  // Passing a leave (or null while none is being edited) turns this into a controlled
+  // dialog that edits that pending request instead of filing a new one
+  leave?: EditableLeave | null;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-sm text-destructive">{message}</p> : null;
+
+export const LeaveRequestDialog = ({
+  getAvailableDays,
+  onSubmitted,
+  leave,
+  onOpenChange,
+}: LeaveRequestDialogProps) => {
+  const { user } = useAuth();
+  const { policies } = useLeavePolicies();
+  const { calendar } = useHolidayCalendar(user?.id);
+  const { leaveTypes, getLeaveType, getLeaveTypeName } = useLeaveTypes();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitAttempted, setSubmitAttempted] = useState(false);
+  const [department, setDepartment] = useState<string | null>(null);
+  const [leaveType, setLeaveType] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [durationUnit, setDurationUnit] = useState<LeaveDurationUnit>("full_day");
+  const [halfDayPeriod, setHalfDayPeriod] = useState<HalfDayPeriod>("am");
+  const [hours, setHours] = useState("");
+  const [reason, setReason] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const isEditing = leave !== undefined;
+  const dialogOpen = isEditing ? leave !== null : open;
+  // A deactivated type can no longer be picked, but an edit may keep the one it has
+  const typeOptions = leaveTypes.filter(
+    (type) => type.is_active || (leave && type.key === leave.type)
+  );
+
+  useEffect(() => {
+    if (!leave) return;
+    setLeaveType(leave.type);
+    setStartDate(leave.start_date);
+    setEndDate(leave.end_date);
+    setDurationUnit(leave.duration_unit);
+    setHalfDayPeriod(leave.half_day_period || "am");
+    setHours(leave.hours !== null ? String(leave.hours) : "");
+    setReason(leave.reason);
+    setFiles([]);
+    setSubmitAttempted(false);
+  }, [leave]);
+
+  useEffect(() => {
+    const fetchDepartment = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("department")
+        .eq("id", user?.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching department:", error);
+        return;
+      }
+      setDepartment(data?.department ?? null);
+    };
+
+    if (user) {
+      fetchDepartment();
+    }
+  }, [user]);
+
+  const isPartialDay = durationUnit !== "full_day";
+  // Half days and hours are booked against a single date
+  const effectiveEndDate = isPartialDay ? startDate : endDate;
+  const requestedHours = durationUnit === "hours" && hours ? Number(hours) : null;
+  const requestedDays =
+    startDate && effectiveEndDate
+      ? calculateLeaveDuration(startDate, effectiveEndDate, durationUnit, requestedHours, calendar)
+      : 0;
+  const hoursError =
+    requestedHours !== null && requestedHours > calendar.hoursPerDay
+      ? `Hourly leave cannot exceed ${calendar.hoursPerDay} hours; request a full day instead`
+      : undefined;
+  const baseAvailableDays =
+    leaveType && startDate
+      ? getAvailableDays(leaveType, getLeaveYear(startDate))
+      : null;
+  // The request being edited is already counted as pending against its own balance
+  const availableDays =
+    baseAvailableDays !== null &&
+    leave &&
+    leave.type === leaveType &&
+    getLeaveYear(leave.start_date) === getLeaveYear(startDate)
+      ? baseAvailableDays + leave.duration_days
+      : baseAvailableDays;
+  const exceedsBalance = availableDays !== null && requestedDays > availableDays;
+
+  const policy = leaveType
+    ? findApplicablePolicy(policies, leaveType, department)
+    : null;
+  const fieldErrors = leaveType
+    ? validateLeaveRequest(
+        {
+          type: leaveType,
+          start_date: startDate,
+          end_date: effectiveEndDate,
+          reason,
+          duration_days: requestedDays,
+        },
+        policy
+      )
+    : {};
+  const attachmentRequired =
+    !!policy?.attachment_required || !!getLeaveType(leaveType)?.requires_attachment;
+  const oversizedFile = findOversizedAttachment(files);
+  const attachmentError = oversizedFile
+    ? `${oversizedFile.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+    : attachmentRequired && !isEditing && files.length === 0
+      ? "A supporting document is required for this leave type"
+      : undefined;
+  // The reason error would show before anyone has typed, so hold it back until submit
+  const visibleErrors = submitAttempted
+    ? { ...fieldErrors, attachments: attachmentError }
+    : { ...fieldErrors, reason: undefined, attachments: oversizedFile && attachmentError };
+
+  const resetForm = () => {
+    setLeaveType("");
+    setStartDate("");
+    setEndDate("");
+    setDurationUnit("full_day");
+    setHalfDayPeriod("am");
+    setHours("");
+    setReason("");
+    setFiles([]);
+    setSubmitAttempted(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitAttempted(true);
+
+    if (Object.values(fieldErrors).some(Boolean) || hoursError || attachmentError) {
+      return;
+    }
+
+    // The fields an owner may change while the request is pending
+    const requestFields = {
+      type: leaveType,
+      start_date: startDate,
+      end_date: effectiveEndDate,
+      duration_unit: durationUnit,
+      half_day_period: durationUnit === "half_day" ? halfDayPeriod : null,
+      hours: requestedHours,
+      reason: reason.trim(),
+    };
+    const leaveData = { user_id: user?.id, ...requestFields };
+
+    if (exceedsBalance) {
+      toast.error(
+        `This request needs ${formatDays(requestedDays)} but only ${formatDays(
+          availableDays
+        )} of ${getLeaveTypeName(leaveData.type)} remain`
+      );
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      if (leave) {
+        const { error } = await supabase.from("leaves").update(requestFields).eq("id", leave.id);
+
+        if (error) throw error;
+
+        await supabase.from("activity_logs").insert([
+          {
+            user_id: user?.id,
+            action: "leave_update",
+            description: `Leave request updated to ${leaveData.start_date} to ${leaveData.end_date}`,
+          },
+        ]);
+
+        toast.success("Leave request updated");
+        onOpenChange?.(false);
+        onSubmitted();
+        return;
+      }
+
+      const { data: createdLeave, error } = await supabase
+        .from("leaves")
+        .insert([leaveData])
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      if (files.length > 0) {
+        try {
+          await uploadLeaveAttachments(user?.id, createdLeave.id, files);
+        } catch (uploadError) {
+          console.error("Error uploading attachments:", uploadError);
+          toast.error(
+            "Leave submitted, but the documents could not be uploaded. Attach them from the Leaves table."
+          );
+        }
+      }
+
+      // Log activity
+      await supabase.from("activity_logs").insert([
+        {
+          user_id: user?.id,
+          action: "leave_request",
+          description: `Leave request submitted for ${leaveData.start_date} to ${leaveData.end_date}`,
+        },
+      ]);
+
+      toast.success("Leave request submitted successfully");
+      setOpen(false);
+      resetForm();
+      onSubmitted();
+    } catch (error) {
+      console.error(leave ? "Error updating leave:" : "Error submitting leave:", error);
+      // Policy violations raised by the database carry a readable message
+      toast.error(
+        (error as { message?: string })?.message ||
+          (leave ? "Failed to update leave request" : "Failed to submit leave request")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={dialogOpen} onOpenChange={isEditing ? onOpenChange : setOpen}>
+      {!isEditing && (
+        <DialogTrigger asChild>
+          <Button>
+            <Plus className="mr-2 h-4 w-4" />
+            Request Leave
+          </Button>
+        </DialogTrigger>
+      )}
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{isEditing ? "Edit Leave Request" : "Request Leave"}</DialogTitle>
+            <DialogDescription>
+              {isEditing
+                ? "Your changes are kept in the request's history for the reviewer"
+                : "Submit a new leave request for approval"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="type">Leave Type</Label>
+              <Select name="type" value={leaveType} onValueChange={setLeaveType} required>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select leave type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {typeOptions.map((type) => (
+                    <SelectItem key={type.key} value={type.key}>
+                      {type.is_paid ? type.name : `${type.name} (Unpaid)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {policy && (
+                <p className="text-xs text-muted-foreground">
+                  {policy.min_notice_days > 0 && `${policy.min_notice_days} days notice required. `}
+                  {policy.max_consecutive_days !== null &&
+                    `Up to ${policy.max_consecutive_days} consecutive days.`}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="duration_unit">Duration</Label>
+              <Select
+                value={durationUnit}
+                onValueChange={(value) => setDurationUnit(value as LeaveDurationUnit)}
+              >
+                <SelectTrigger id="duration_unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DURATION_UNIT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="start_date">{isPartialDay ? "Date" : "Start Date"}</Label>
+              <Input
+                id="start_date"
+                name="start_date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+              <FieldError message={visibleErrors.start_date} />
+            </div>
+            {durationUnit === "full_day" && (
+              <div className="space-y-2">
+                <Label htmlFor="end_date">End Date</Label>
+                <Input
+                  id="end_date"
+                  name="end_date"
+                  type="date"
+                  min={startDate || undefined}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            {durationUnit === "half_day" && (
+              <RadioGroup
+                value={halfDayPeriod}
+                onValueChange={(value) => setHalfDayPeriod(value as HalfDayPeriod)}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="am" id="half_day_am" />
+                  <Label htmlFor="half_day_am">Morning (AM)</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="pm" id="half_day_pm" />
+                  <Label htmlFor="half_day_pm">Afternoon (PM)</Label>
+                </div>
+              </RadioGroup>
+            )}
+            {durationUnit === "hours" && (
+              <div className="space-y-2">
+                <Label htmlFor="hours">Hours</Label>
+                <Input
+                  id="hours"
+                  name="hours"
+                  type="number"
+                  min={0.5}
+                  max={calendar.hoursPerDay}
+                  step={0.5}
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                  required
+                />
+                <FieldError message={hoursError} />
+              </div>
+            )}
+            <FieldError message={visibleErrors.end_date} />
+            {requestedDays > 0 && (
+              <p
+                className={
+                  exceedsBalance ? "text-sm text-destructive" : "text-sm text-muted-foreground"
+                }
+              >
+                {formatDays(requestedDays)} requested (working days)
+                {availableDays !== null && ` · ${formatDays(availableDays)} available`}
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reason">
+                Reason{policy && !policy.reason_required && " (Optional)"}
+              </Label>
+              <Textarea
+                id="reason"
+                name="reason"
+                placeholder="Enter reason for leave..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <FieldError message={visibleErrors.reason} />
+            </div>
+            {/* Documents for an existing request are added from the Leaves table */}
+            {!isEditing && (
+              <div className="space-y-2">
+                <Label htmlFor="attachments">
+                  Supporting Documents{!attachmentRequired && " (Optional)"}
+                </Label>
+                <Input
+                  id="attachments"
+                  type="file"
+                  multiple
+                  accept={ACCEPTED_ATTACHMENT_TYPES}
+                  onChange={(e) => setFiles(Array.from(e.target.files || []))}
+                />
+                <FieldError message={visibleErrors.attachments} />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={submitting || exceedsBalance}>
+              {isEditing
+                ? submitting
+                  ? "Saving..."
+                  : "Save Changes"
+                : submitting
+                  ? "Submitting..."
+                  : "Submit Request"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
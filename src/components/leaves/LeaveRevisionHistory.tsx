@@ -0,0 +1,89 @@
+import { History } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import type { LeaveRevision } from "@/hooks/useLeaveRevisions";
+import {
+  DURATION_UNIT_LABELS,
+  formatDays,
+  parseDateOnly,
+  type LeaveDurationUnit,
+} from "@/lib/leaves";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+
+// Order in which changed fields are listed, with their display labels
+const REVISION_FIELD_LABELS: Record<string, string> = {
+  type: "Type",
+  start_date: "Start date",
+  end_date: "End date",
+  duration_unit: "Duration",
+  half_day_period: "Half day",
+  hours: "Hours",
+  duration_days: "Working days",
+  reason: "Reason",
+};
+
+type JsonObject = Record<string, Json>;
+
+interface LeaveRevisionHistoryProps {
+  revisions: LeaveRevision[];
+}
+
+export const LeaveRevisionHistory = ({ revisions }: LeaveRevisionHistoryProps) => {
+  const { getLeaveTypeName } = useLeaveTypes();
+
+  const formatValue = (field: string, value: Json) => {
+    if (value === null || value === "") return "—";
+    switch (field) {
+      case "type":
+        return getLeaveTypeName(String(value));
+      case "start_date":
+      case "end_date":
+        return parseDateOnly(String(value)).toLocaleDateString();
+      case "duration_unit":
+        return DURATION_UNIT_LABELS[value as LeaveDurationUnit];
+      case "half_day_period":
+        return String(value).toUpperCase();
+      case "duration_days":
+        return formatDays(Number(value));
+      default:
+        return String(value);
+    }
+  };
+
+  if (revisions.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        Edited {revisions.length} {revisions.length === 1 ? "time" : "times"} since submission
+      </p>
+      <ol className="max-h-48 space-y-3 overflow-y-auto">
+        {revisions.map((revision) => {
+          const previous = revision.previous_values as JsonObject;
+          const next = revision.new_values as JsonObject;
+
+          return (
+            <li key={revision.id} className="space-y-1 text-sm">
+              <p className="text-xs text-muted-foreground">
+                {new Date(revision.created_at).toLocaleString()}
+                {revision.editor && ` · ${revision.editor.name}`}
+              </p>
+              <ul className="space-y-0.5">
+                {Object.keys(REVISION_FIELD_LABELS)
+                  .filter((field) => field in next)
+                  .map((field) => (
+                    <li key={field}>
+                      <span className="text-muted-foreground">{REVISION_FIELD_LABELS[field]}: </span>
+                      <span className="line-through">{formatValue(field, previous[field])}</span>
+                      {" → "}
+                      <span className="font-medium">{formatValue(field, next[field])}</span>
+                    </li>
+                  ))}
+              </ul>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
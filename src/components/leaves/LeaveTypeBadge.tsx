@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { getLeaveTypeColorStyle } from "@/lib/leaves";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+
+interface LeaveTypeBadgeProps {
+  leaveType: string;
+}
+
+export const LeaveTypeBadge = ({ leaveType }: LeaveTypeBadgeProps) => {
+  const { getLeaveType, getLeaveTypeName } = useLeaveTypes();
+  const definition = getLeaveType(leaveType);
+
+  return (
+    <Badge
+      variant="outline"
+      className="font-medium"
+      style={definition ? getLeaveTypeColorStyle(definition.color) : undefined}
+      title={definition && !definition.is_paid ? "Unpaid" : undefined}
+    >
+      {getLeaveTypeName(leaveType)}
+    </Badge>
+  );
+};
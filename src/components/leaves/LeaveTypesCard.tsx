@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Pencil, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useLeaveTypes, type LeaveTypeDefinition } from "@/lib/leaveTypes";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const DEFAULT_COLOR = "#64748b";
+
+// Keys are stored on every leave and ledger row, so they are derived once from the
+// name and never change afterwards; renaming a type only changes its display name
+const toLeaveTypeKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "");
+
+export const LeaveTypesCard = () => {
+  const { leaveTypes, refetchLeaveTypes } = useLeaveTypes();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingType, setEditingType] = useState<LeaveTypeDefinition | null>(null);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [isPaid, setIsPaid] = useState(true);
+  const [requiresAttachment, setRequiresAttachment] = useState(false);
+  const [isActive, setIsActive] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (leaveType: LeaveTypeDefinition | null) => {
+    setEditingType(leaveType);
+    setName(leaveType?.name || "");
+    setColor(leaveType?.color || DEFAULT_COLOR);
+    setIsPaid(leaveType?.is_paid ?? true);
+    setRequiresAttachment(leaveType?.requires_attachment ?? false);
+    setIsActive(leaveType?.is_active ?? true);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const key = editingType?.key ?? toLeaveTypeKey(name);
+    if (!key) {
+      toast.error("The name must contain at least one letter");
+      return;
+    }
+
+    setSaving(true);
+    const formData = new FormData(e.currentTarget);
+    const leaveTypeData = {
+      name: name.trim(),
+      color,
+      is_paid: isPaid,
+      requires_attachment: requiresAttachment,
+      is_active: isActive,
+      sort_order: Number(formData.get("sort_order") || 0),
+    };
+
+    try {
+      const { error } = editingType
+        ? await supabase.from("leave_types").update(leaveTypeData).eq("key", editingType.key)
+        : await supabase.from("leave_types").insert([{ key, ...leaveTypeData }]);
+
+      if (error) throw error;
+
+      toast.success(editingType ? "Leave type updated" : "Leave type created");
+      setDialogOpen(false);
+      refetchLeaveTypes();
+    } catch (error) {
+      console.error("Error saving leave type:", error);
+      toast.error("Failed to save leave type. Names must be unique.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (leaveType: LeaveTypeDefinition, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("leave_types")
+        .update({ is_active: active })
+        .eq("key", leaveType.key);
+
+      if (error) throw error;
+
+      refetchLeaveTypes();
+    } catch (error) {
+      console.error("Error updating leave type:", error);
+      toast.error("Failed to update leave type");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Leave Types</CardTitle>
+          <CardDescription>
+            Inactive types can no longer be requested but stay on existing leave and balances
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Leave Type
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Pay</TableHead>
+                <TableHead>Requirements</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaveTypes.map((leaveType) => (
+                <TableRow key={leaveType.key}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: leaveType.color }}
+                      />
+                      {leaveType.name}
+                    </div>
+                  </TableCell>
+                  <TableCell>{leaveType.is_paid ? "Paid" : "Unpaid"}</TableCell>
+                  <TableCell>
+                    {leaveType.requires_attachment ? (
+                      <Badge variant="secondary">Attachment</Badge>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell>{leaveType.sort_order}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={leaveType.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(leaveType, checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(leaveType)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>{editingType ? "Edit Leave Type" : "Add Leave Type"}</DialogTitle>
+              <DialogDescription>
+                Attachment requirements here apply to every department; policies can add them
+                per department
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="leave_type_name">Name</Label>
+                <Input
+                  id="leave_type_name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Bereavement Leave"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="leave_type_color">Colour</Label>
+                  <Input
+                    id="leave_type_color"
+                    type="color"
+                    className="h-10 p-1"
+                    value={color}
+                    onChange={(e) => setColor(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sort_order">Sort Order</Label>
+                  <Input
+                    id="sort_order"
+                    name="sort_order"
+                    type="number"
+                    defaultValue={editingType?.sort_order ?? (leaveTypes.length + 1) * 10}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="is_paid">Paid</Label>
+                <Switch id="is_paid" checked={isPaid} onCheckedChange={setIsPaid} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="requires_attachment">Attachment required</Label>
+                <Switch
+                  id="requires_attachment"
+                  checked={requiresAttachment}
+                  onCheckedChange={setRequiresAttachment}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="is_active">Active</Label>
+                <Switch id="is_active" checked={isActive} onCheckedChange={setIsActive} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                {saving ? "Saving..." : "Save Leave Type"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,81 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface LeavesPaginationProps {
+  page: number;
+  pageCount: number;
+  getPageHref: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the pages either side of the current one, with gaps marked as null
+const getVisiblePages = (page: number, pageCount: number) => {
+  const pages: (number | null)[] = [];
+  for (let candidate = 1; candidate <= pageCount; candidate++) {
+    if (candidate === 1 || candidate === pageCount || Math.abs(candidate - page) <= 1) {
+      pages.push(candidate);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+export const LeavesPagination = ({
+  page,
+  pageCount,
+  getPageHref,
+  onPageChange,
+}: LeavesPaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  // Links keep a real href so pages can be opened in a new tab, but navigate in place
+  const linkProps = (target: number) => ({
+    href: getPageHref(target),
+    onClick: (e: React.MouseEvent<HTMLAnchorElement>) => {
+      e.preventDefault();
+      onPageChange(target);
+    },
+  });
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            {...linkProps(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+        {getVisiblePages(page, pageCount).map((target, index) =>
+          target === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={target}>
+              <PaginationLink {...linkProps(target)} isActive={target === page}>
+                {target}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            {...linkProps(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Wallet } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/lib/auth";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type LedgerEntryType = Database["public"]["Enums"]["leave_ledger_entry_type"];
+
+const ALL_EMPLOYEES = "all";
+
+const ENTRY_TYPE_LABELS: Partial<Record<LedgerEntryType, string>> = {
+  entitlement: "Annual Entitlement",
+  accrual: "Accrual",
+  adjustment: "Manual Adjustment",
+};
+
+interface Employee {
+  id: string;
+  name: string;
+}
+
+interface LedgerEntryDialogProps {
+  onPosted: () => void;
+}
+
+export const LedgerEntryDialog = ({ onPosted }: LedgerEntryDialogProps) => {
+  const { user } = useAuth();
+  const { leaveTypes } = useLeaveTypes();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [employeeId, setEmployeeId] = useState("");
+  const [leaveType, setLeaveType] = useState("");
+  const [entryType, setEntryType] = useState<LedgerEntryType>("entitlement");
+
+  useEffect(() => {
+    const fetchEmployees = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, name")
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching employees:", error);
+        return;
+      }
+      setEmployees(data || []);
+    };
+
+    if (open) {
+      fetchEmployees();
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    const formData = new FormData(e.currentTarget);
+    const days = Number(formData.get("days"));
+    const leaveYear = Number(formData.get("leave_year"));
+    const notes = (formData.get("notes") as string) || null;
+    const targetIds =
+      employeeId === ALL_EMPLOYEES ? employees.map((employee) => employee.id) : [employeeId];
+
+    try {
+      const { error } = await supabase.from("leave_ledger").insert(
+        targetIds.map((targetId) => ({
+          user_id: targetId,
+          leave_type: leaveType,
+          leave_year: leaveYear,
+          entry_type: entryType,
+          days,
+          notes,
+          created_by: user?.id,
+        }))
+      );
+
+      if (error) throw error;
+
+      toast.success(
+        `Posted ${ENTRY_TYPE_LABELS[entryType]?.toLowerCase()} for ${targetIds.length} ${
+          targetIds.length === 1 ? "employee" : "employees"
+        }`
+      );
+      setOpen(false);
+      setEmployeeId("");
+      setLeaveType("");
+      setEntryType("entitlement");
+      onPosted();
+    } catch (error) {
+      console.error("Error posting ledger entry:", error);
+      toast.error("Failed to post balance entry");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Wallet className="mr-2 h-4 w-4" />
+          Manage Balances
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Post Balance Entry</DialogTitle>
+            <DialogDescription>
+              Grant an entitlement, post an accrual or correct an employee's leave balance
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="employee">Employee</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId} required>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EMPLOYEES}>All employees</SelectItem>
+                  {employees.map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ledger_leave_type">Leave Type</Label>
+                <Select value={leaveType} onValueChange={setLeaveType} required>
+                  <SelectTrigger id="ledger_leave_type">
+                    <SelectValue placeholder="Select leave type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {leaveTypes.map((type) => (
+                      <SelectItem key={type.key} value={type.key}>
+                        {type.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave_year">Leave Year</Label>
+                <Input
+                  id="leave_year"
+                  name="leave_year"
+                  type="number"
+                  defaultValue={new Date().getFullYear()}
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="entry_type">Entry Type</Label>
+                <Select
+                  value={entryType}
+                  onValueChange={(value) => setEntryType(value as LedgerEntryType)}
+                >
+                  <SelectTrigger id="entry_type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ENTRY_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="days">Days</Label>
+                <Input
+                  id="days"
+                  name="days"
+                  type="number"
+                  step="0.5"
+                  min={entryType === "adjustment" ? undefined : 0}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ledger_notes">Notes (Optional)</Label>
+              <Textarea
+                id="ledger_notes"
+                name="notes"
+                placeholder="e.g. Monthly accrual for March"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={submitting || !employeeId || !leaveType}>
+              {submitting ? "Posting..." : "Post Entry"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
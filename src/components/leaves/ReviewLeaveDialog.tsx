@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { CoverageConflict } from "@/hooks/useLeaveCoverage";
+import type { LeaveRevision } from "@/hooks/useLeaveRevisions";
+import { LeaveRevisionHistory } from "@/components/leaves/LeaveRevisionHistory";
+import { parseDateOnly } from "@/lib/leaves";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export type ReviewDecision = "approved" | "rejected";
+
+interface ReviewLeaveDialogProps {
+  decision: ReviewDecision | null;
+  // What is being decided on, shown in the title
+  subject?: string;
+  // Short description of what is being reviewed, e.g. "Jane Doe · Vacation · 3 days"
+  summary: string;
+  // Days this approval would leave the department short-staffed
+  coverageConflicts?: CoverageConflict[];
+  // Edits the employee made after submitting, so the reviewer sees what changed
+  revisions?: LeaveRevision[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (notes: string) => Promise<void>;
+}
+
+export const ReviewLeaveDialog = ({
+  decision,
+  subject = "Leave",
+  summary,
+  coverageConflicts = [],
+  revisions = [],
+  onOpenChange,
+  onConfirm,
+}: ReviewLeaveDialogProps) => {
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const isRejection = decision === "rejected";
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      await onConfirm(notes.trim());
+      setNotes("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={decision !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{isRejection ? `Reject ${subject}` : `Approve ${subject}`}</DialogTitle>
+            <DialogDescription>{summary}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            {!isRejection && coverageConflicts.length > 0 && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Team coverage</AlertTitle>
+                <AlertDescription>
+                  <ul className="space-y-1">
+                    {coverageConflicts.map((conflict) => (
+                      <li key={conflict.absence_date}>
+                        {parseDateOnly(conflict.absence_date).toLocaleDateString()}:{" "}
+                        {conflict.absent_count} of {conflict.department} out (limit{" "}
+                        {conflict.max_concurrent_absences})
+                        {conflict.absent_names.length > 0 &&
+                          ` · also away: ${conflict.absent_names.join(", ")}`}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            {revisions.length > 0 && (
+              <div className="mb-4">
+                <LeaveRevisionHistory revisions={revisions} />
+              </div>
+            )}
+            <Label htmlFor="review_notes">
+              Comment{isRejection ? "" : " (Optional)"}
+            </Label>
+            <Textarea
+              id="review_notes"
+              placeholder={
+                isRejection
+                  ? "Explain why this request is rejected..."
+                  : "Add a note for the employee..."
+              }
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              required={isRejection}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="submit"
+              variant={isRejection ? "destructive" : "default"}
+              disabled={submitting || (isRejection && !notes.trim())}
+            >
+              {submitting ? "Saving..." : isRejection ? "Reject" : "Approve"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
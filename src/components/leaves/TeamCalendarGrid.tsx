@@ -0,0 +1,181 @@
+import { createContext, useContext, useMemo } from "react";
+import { Row, type DayProps, type RowProps } from "react-day-picker";
+import { isSameDay, isSameMonth, isToday } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import type { Database } from "@/integrations/supabase/types";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { cn } from "@/lib/utils";
+import {
+  formatLeaveDuration,
+  getLeaveTypeColorStyle,
+  parseDateOnly,
+  toDateOnly,
+} from "@/lib/leaves";
+
+export type TeamCalendarEntry =
+  Database["public"]["Functions"]["get_team_leave_calendar"]["Returns"][number];
+
+export type TeamCalendarView = "month" | "week";
+
+// Month cells only have room for a few names before collapsing into "+N more"
+const MONTH_VIEW_VISIBLE_ENTRIES = 3;
+
+interface TeamCalendarContextValue {
+  entriesByDate: Map<string, TeamCalendarEntry[]>;
+  view: TeamCalendarView;
+  anchorDate: Date;
+  onEntryClick?: (entry: TeamCalendarEntry) => void;
+}
+
+const TeamCalendarContext = createContext<TeamCalendarContextValue | null>(null);
+
+const describeEntry = (entry: TeamCalendarEntry, leaveTypeName: string) =>
+  [
+    entry.employee_name,
+    leaveTypeName,
+    formatLeaveDuration(entry),
+    entry.status === "pending" ? "Pending" : "Approved",
+  ].join(" · ");
+
+const EntryChip = ({ entry }: { entry: TeamCalendarEntry }) => {
+  const { onEntryClick } = useContext(TeamCalendarContext);
+  const { getLeaveType, getLeaveTypeName } = useLeaveTypes();
+  const leaveType = getLeaveType(entry.type);
+  const title = describeEntry(entry, getLeaveTypeName(entry.type));
+  const style = leaveType ? getLeaveTypeColorStyle(leaveType.color) : undefined;
+  // Only pending requests are waiting on a decision
+  const reviewable = onEntryClick && entry.status === "pending";
+  const className = cn(
+    "w-full truncate rounded border px-1 text-left text-xs leading-5",
+    entry.status === "pending" && "border-dashed opacity-80",
+    reviewable && "cursor-pointer hover:opacity-100 hover:ring-1 hover:ring-ring"
+  );
+  const label = `${entry.employee_name}${
+    entry.duration_unit === "half_day" ? ` (${entry.half_day_period?.toUpperCase()})` : ""
+  }`;
+
+  if (reviewable) {
+    return (
+      <button
+        type="button"
+        className={className}
+        style={style}
+        title={title}
+        onClick={() => onEntryClick(entry)}
+      >
+        {label}
+      </button>
+    );
+  }
+
+  return (
+    <div className={className} style={style} title={title}>
+      {label}
+    </div>
+  );
+};
+
+const CalendarDay = ({ date, displayMonth }: DayProps) => {
+  const { entriesByDate, view } = useContext(TeamCalendarContext);
+  const { getLeaveTypeName } = useLeaveTypes();
+  const entries = entriesByDate.get(toDateOnly(date)) || [];
+  const visibleEntries =
+    view === "month" ? entries.slice(0, MONTH_VIEW_VISIBLE_ENTRIES) : entries;
+  const hiddenCount = entries.length - visibleEntries.length;
+
+  return (
+    <div
+      className={cn(
+        "flex h-full flex-col gap-1 p-1",
+        !isSameMonth(date, displayMonth) && view === "month" && "bg-muted/40"
+      )}
+    >
+      <span
+        className={cn(
+          "text-xs",
+          !isSameMonth(date, displayMonth) && "text-muted-foreground",
+          isToday(date) && "font-bold text-primary"
+        )}
+      >
+        {date.getDate()}
+      </span>
+      {visibleEntries.map((entry) => (
+        <EntryChip key={entry.id} entry={entry} />
+      ))}
+      {hiddenCount > 0 && (
+        <span
+          className="text-xs text-muted-foreground"
+          title={entries
+            .slice(MONTH_VIEW_VISIBLE_ENTRIES)
+            .map((entry) => describeEntry(entry, getLeaveTypeName(entry.type)))
+            .join("\n")}
+        >
+          +{hiddenCount} more
+        </span>
+      )}
+    </div>
+  );
+};
+
+// The week view is the month grid with every other week hidden
+const CalendarRow = (props: RowProps) => {
+  const { view, anchorDate } = useContext(TeamCalendarContext);
+
+  if (view === "week" && !props.dates.some((date) => isSameDay(date, anchorDate))) {
+    return null;
+  }
+  return <Row {...props} />;
+};
+
+interface TeamCalendarGridProps {
+  entries: TeamCalendarEntry[];
+  view: TeamCalendarView;
+  anchorDate: Date;
+  onEntryClick?: (entry: TeamCalendarEntry) => void;
+}
+
+export const TeamCalendarGrid = ({
+  entries,
+  view,
+  anchorDate,
+  onEntryClick,
+}: TeamCalendarGridProps) => {
+  const entriesByDate = useMemo(() => {
+    const byDate = new Map<string, TeamCalendarEntry[]>();
+
+    for (const entry of entries) {
+      const current = parseDateOnly(entry.start_date);
+      const end = parseDateOnly(entry.end_date);
+      while (current <= end) {
+        const key = toDateOnly(current);
+        byDate.set(key, [...(byDate.get(key) || []), entry]);
+        current.setDate(current.getDate() + 1);
+      }
+    }
+    return byDate;
+  }, [entries]);
+
+  return (
+    <TeamCalendarContext.Provider value={{ entriesByDate, view, anchorDate, onEntryClick }}>
+      <Calendar
+        month={anchorDate}
+        disableNavigation
+        className="p-0"
+        classNames={{
+          months: "w-full",
+          month: "w-full",
+          caption: "hidden",
+          table: "w-full border-collapse border",
+          head_row: "grid grid-cols-7 border-b",
+          head_cell: "py-2 text-center text-sm font-normal text-muted-foreground",
+          row: "grid grid-cols-7 border-b last:border-b-0",
+          cell: cn(
+            "border-r p-0 align-top last:border-r-0",
+            view === "month" ? "min-h-28" : "min-h-64"
+          ),
+        }}
+        components={{ Day: CalendarDay, Row: CalendarRow }}
+      />
+    </TeamCalendarContext.Provider>
+  );
+};
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CalendarClock } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { formatDays } from "@/lib/leaves";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type RolloverResult =
+  Database["public"]["Functions"]["process_leave_year_rollover"]["Returns"][number];
+
+interface YearEndRolloverDialogProps {
+  currentLeaveYear: number;
+  onProcessed: () => void;
+}
+
+export const YearEndRolloverDialog = ({
+  currentLeaveYear,
+  onProcessed,
+}: YearEndRolloverDialogProps) => {
+  const { getLeaveTypeName } = useLeaveTypes();
+  const [open, setOpen] = useState(false);
+  const [leaveYear, setLeaveYear] = useState(String(currentLeaveYear - 1));
+  const [processing, setProcessing] = useState(false);
+  const [results, setResults] = useState<RolloverResult[] | null>(null);
+  const closedYears = [1, 2, 3].map((offset) => String(currentLeaveYear - offset));
+
+  const handleProcess = async () => {
+    setProcessing(true);
+
+    try {
+      const { data, error } = await supabase.rpc("process_leave_year_rollover", {
+        _leave_year: Number(leaveYear),
+      });
+
+      if (error) throw error;
+
+      setResults(data || []);
+      toast.success(`Leave year ${leaveYear} rolled over`);
+      onProcessed();
+    } catch (error) {
+      console.error("Error processing rollover:", error);
+      toast.error((error as { message?: string })?.message || "Failed to process rollover");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        setResults(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarClock className="mr-2 h-4 w-4" />
+          Year-End Rollover
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Year-End Rollover</DialogTitle>
+          <DialogDescription>
+            Unused days are carried into the next year up to each leave type's cap and the rest
+            expire. Running it again for a year that is already closed changes nothing.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="rollover_year">Leave Year</Label>
+          <Select
+            value={leaveYear}
+            onValueChange={(value) => {
+              setLeaveYear(value);
+              setResults(null);
+            }}
+          >
+            <SelectTrigger id="rollover_year" className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {closedYears.map((year) => (
+                <SelectItem key={year} value={year}>
+                  {year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {results && (
+          results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No unused balances to roll over</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Processed on {new Date(results[0].processed_at).toLocaleString()}
+              </p>
+              <ScrollArea className="max-h-72 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Carried Over</TableHead>
+                      <TableHead>Expired</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result) => (
+                      <TableRow key={`${result.user_id}-${result.leave_type}`}>
+                        <TableCell className="font-medium">{result.employee_name}</TableCell>
+                        <TableCell>{getLeaveTypeName(result.leave_type)}</TableCell>
+                        <TableCell>{formatDays(result.carried_days)}</TableCell>
+                        <TableCell>{formatDays(result.expired_days)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          )
+        )}
+        <DialogFooter>
+          <Button onClick={handleProcess} disabled={processing}>
+            {processing ? "Processing..." : `Roll Over ${leaveYear}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { toDateOnly } from "@/lib/leaves";
+
+export interface ActiveDelegation {
+  delegatorName: string;
+  endsOn: string;
+}
+
+// The approver the current user is standing in for today, if any.
+// The database re-checks this on every review through RLS.
+export const useActiveDelegation = () => {
+  const { user } = useAuth();
+  const [delegation, setDelegation] = useState<ActiveDelegation | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchDelegation = async () => {
+      if (!user?.id) {
+        setDelegation(null);
+        setLoading(false);
+        return;
+      }
+
+      const today = toDateOnly(new Date());
+      const { data, error } = await supabase
+        .from("approval_delegations")
+        .select("ends_on, delegator:profiles!approval_delegations_delegator_id_fkey(name)")
+        .eq("delegate_id", user.id)
+        .lte("starts_on", today)
+        .gte("ends_on", today)
+        .order("starts_on")
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching approval delegation:", error);
+      }
+      setDelegation(
+        data ? { delegatorName: data.delegator?.name || "an admin", endsOn: data.ends_on } : null
+      );
+      setLoading(false);
+    };
+
+    fetchDelegation();
+  }, [user?.id]);
+
+  return { delegation, loading };
+};
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AttendanceCorrection = Database["public"]["Tables"]["attendance_corrections"]["Row"] & {
+  employee: {
+    name: string;
+  } | null;
+  // Current times of the record being corrected; null for a missing day
+  attendance: {
+    clock_in: string;
+    clock_out: string | null;
+  } | null;
+  // Times the record had before an approved correction replaced them
+  attendance_revisions: {
+    previous_clock_in: string | null;
+    previous_clock_out: string | null;
+  }[];
+};
+
+// Correction requests, pending first then newest. RLS limits employees to their own.
+export const useAttendanceCorrections = () => {
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCorrections = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("attendance_corrections")
+        .select(`
+          *,
+          employee:profiles!attendance_corrections_user_id_fkey(name),
+          attendance:attendance!attendance_corrections_attendance_id_fkey(clock_in, clock_out),
+          attendance_revisions!attendance_revisions_correction_id_fkey(previous_clock_in, previous_clock_out)
+        `)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setCorrections(
+        [...(data || [])].sort(
+          (a, b) => Number(b.status === "pending") - Number(a.status === "pending")
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching attendance corrections:", error);
+      setCorrections([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCorrections();
+  }, []);
+
+  return { corrections, loading, refetchCorrections: fetchCorrections };
+};
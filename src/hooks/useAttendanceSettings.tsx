@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AttendanceSettings = Database["public"]["Tables"]["attendance_settings"]["Row"];
+
+export const useAttendanceSettings = () => {
+  const [settings, setSettings] = useState<AttendanceSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase.from("attendance_settings").select("*").maybeSingle();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error("Error fetching attendance settings:", error);
+      setSettings(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  return { settings, loading, refetchSettings: fetchSettings };
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type CompOffCredit = Database["public"]["Tables"]["comp_off_credits"]["Row"] & {
+  employee: {
+    name: string;
+  } | null;
+};
+
+// Comp-off earned from attendance, newest day first. RLS limits employees to their own.
+export const useCompOffCredits = () => {
+  const [credits, setCredits] = useState<CompOffCredit[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCredits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("comp_off_credits")
+        .select("*, employee:profiles!comp_off_credits_user_id_fkey(name)")
+        .order("work_date", { ascending: false });
+
+      if (error) throw error;
+      setCredits(data || []);
+    } catch (error) {
+      console.error("Error fetching comp-off credits:", error);
+      setCredits([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCredits();
+  }, []);
+
+  return { credits, loading, refetchCredits: fetchCredits };
+};
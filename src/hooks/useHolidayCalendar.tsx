@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_WORKING_CALENDAR, type WorkingCalendar } from "@/lib/workingDays";
+
+// Loads the weekend days and holidays of the calendar that applies to a user
+export const useHolidayCalendar = (userId: string | undefined) => {
+  const [calendar, setCalendar] = useState<WorkingCalendar>(DEFAULT_WORKING_CALENDAR);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCalendar = async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data: calendarId, error: calendarError } = await supabase.rpc(
+        "get_user_holiday_calendar",
+        { _user_id: userId }
+      );
+
+      if (calendarError) throw calendarError;
+      if (!calendarId) {
+        setCalendar(DEFAULT_WORKING_CALENDAR);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("holiday_calendars")
+        .select("weekend_days, work_hours_per_day, holidays(holiday_date)")
+        .eq("id", calendarId)
+        .single();
+
+      if (error) throw error;
+
+      setCalendar({
+        weekendDays: data.weekend_days,
+        holidayDates: new Set(data.holidays.map((holiday) => holiday.holiday_date)),
+        hoursPerDay: data.work_hours_per_day,
+      });
+    } catch (error) {
+      console.error("Error fetching holiday calendar:", error);
+      setCalendar(DEFAULT_WORKING_CALENDAR);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [userId]);
+
+  return { calendar, loading, refetchCalendar: fetchCalendar };
+};
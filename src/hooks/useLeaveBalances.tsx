@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { LeaveType } from "@/lib/leaves";
+
+export interface LeaveBalance {
+  leave_type: LeaveType;
+  leave_year: number;
+  entitled_days: number;
+  used_days: number;
+  balance_days: number;
+  // Moved in from the previous year / out to the next year by the year-end rollover
+  carried_over_days: number;
+  carried_forward_days: number;
+  expired_days: number;
+}
+
+export const useLeaveBalances = (userId: string | undefined, leaveYear: number) => {
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchBalances = async () => {
+    if (!userId) {
+      setBalances([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("leave_balances")
+        .select(
+          "leave_type, leave_year, entitled_days, used_days, balance_days, carried_over_days, carried_forward_days, expired_days"
+        )
+        .eq("user_id", userId)
+        .eq("leave_year", leaveYear);
+
+      if (error) throw error;
+      setBalances((data as LeaveBalance[]) || []);
+    } catch (error) {
+      console.error("Error fetching leave balances:", error);
+      setBalances([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBalances();
+  }, [userId, leaveYear]);
+
+  const getBalance = (leaveType: LeaveType) =>
+    balances.find((balance) => balance.leave_type === leaveType);
+
+  return { balances, loading, getBalance, refetchBalances: fetchBalances };
+};
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type CoverageConflict =
+  Database["public"]["Functions"]["get_leave_coverage_conflicts"]["Returns"][number];
+
+// Days on which approving a leave would exceed its department's coverage rule
+export const useLeaveCoverage = (leaveId: string | null) => {
+  const [conflicts, setConflicts] = useState<CoverageConflict[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setConflicts([]);
+    if (!leaveId) return;
+
+    let cancelled = false;
+    const fetchConflicts = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("get_leave_coverage_conflicts", {
+        _leave_id: leaveId,
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error checking leave coverage:", error);
+      } else {
+        setConflicts(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchConflicts();
+    return () => {
+      cancelled = true;
+    };
+  }, [leaveId]);
+
+  return { conflicts, loading };
+};
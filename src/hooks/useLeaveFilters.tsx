@@ -0,0 +1,101 @@
+import { useSearchParams } from "react-router-dom";
+import type { LeaveStatus } from "@/lib/leaves";
+
+export const LEAVES_PAGE_SIZE = 20;
+
+export type LeaveSortColumn = "created_at" | "type" | "start_date" | "end_date" | "duration_days" | "status";
+export type SortDirection = "asc" | "desc";
+
+export interface LeaveFilters {
+  status: LeaveStatus | null;
+  type: string | null;
+  employee: string | null;
+  department: string | null;
+  // Leaves overlapping this "YYYY-MM-DD" range
+  from: string | null;
+  to: string | null;
+}
+
+const FILTER_KEYS: (keyof LeaveFilters)[] = ["status", "type", "employee", "department", "from", "to"];
+const SORT_COLUMNS: LeaveSortColumn[] = ["created_at", "type", "start_date", "end_date", "duration_days", "status"];
+
+// Filters, sort and page of the Leaves table, kept in the query string so a view can be
+// bookmarked or shared. Defaults are left out of the URL to keep it short.
+export const useLeaveFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = Object.fromEntries(
+    FILTER_KEYS.map((key) => [key, searchParams.get(key) || null])
+  ) as unknown as LeaveFilters;
+  const sortParam = searchParams.get("sort") as LeaveSortColumn;
+  const sort: LeaveSortColumn = SORT_COLUMNS.includes(sortParam) ? sortParam : "created_at";
+  const direction: SortDirection =
+    searchParams.get("dir") === "asc" || searchParams.get("dir") === "desc"
+      ? (searchParams.get("dir") as SortDirection)
+      : sort === "created_at"
+        ? "desc"
+        : "asc";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        for (const [key, value] of Object.entries(changes)) {
+          if (value) {
+            next.set(key, value);
+          } else {
+            next.delete(key);
+          }
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  // Any filter change starts again from the first page
+  const setFilter = (key: keyof LeaveFilters, value: string | null) =>
+    updateParams({ [key]: value, page: null });
+
+  const clearFilters = () =>
+    updateParams({ ...Object.fromEntries(FILTER_KEYS.map((key) => [key, null])), page: null });
+
+  // Clicking the sorted column flips the direction, another column sorts ascending
+  const toggleSort = (column: LeaveSortColumn) => {
+    const nextDirection = column === sort && direction === "asc" ? "desc" : "asc";
+    updateParams({ sort: column, dir: nextDirection, page: null });
+  };
+
+  const setPage = (nextPage: number) =>
+    updateParams({ page: nextPage > 1 ? String(nextPage) : null });
+
+  // Query string for a given page, used as the href of pagination links
+  const getPageHref = (targetPage: number) => {
+    const next = new URLSearchParams(searchParams);
+    if (targetPage > 1) {
+      next.set("page", String(targetPage));
+    } else {
+      next.delete("page");
+    }
+    const query = next.toString();
+    return query ? `?${query}` : "?";
+  };
+
+  const hasFilters = FILTER_KEYS.some((key) => filters[key] !== null);
+
+  return {
+    filters,
+    hasFilters,
+    sort,
+    direction,
+    page,
+    setFilter,
+    clearFilters,
+    toggleSort,
+    setPage,
+    getPageHref,
+    // Stable key of everything that affects the query, for effect dependencies
+    queryKey: searchParams.toString(),
+  };
+};
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { LeavePolicy } from "@/lib/leavePolicy";
+
+export const useLeavePolicies = () => {
+  const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPolicies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("leave_policies")
+        .select("*, leave_blackout_periods(*)")
+        .order("leave_type")
+        .order("department", { nullsFirst: true });
+
+      if (error) throw error;
+      setPolicies(data || []);
+    } catch (error) {
+      console.error("Error fetching leave policies:", error);
+      setPolicies([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  return { policies, loading, refetchPolicies: fetchPolicies };
+};
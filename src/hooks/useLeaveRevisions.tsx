@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type LeaveRevision = Database["public"]["Tables"]["leave_revisions"]["Row"] & {
+  editor: {
+    name: string;
+  } | null;
+};
+
+// Edits the owner made to a pending leave, oldest first
+export const useLeaveRevisions = (leaveId: string | null) => {
+  const [revisions, setRevisions] = useState<LeaveRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setRevisions([]);
+    if (!leaveId) return;
+
+    let cancelled = false;
+    const fetchRevisions = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("leave_revisions")
+        .select("*, editor:profiles!leave_revisions_edited_by_fkey(name)")
+        .eq("leave_id", leaveId)
+        .order("created_at");
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error fetching leave revisions:", error);
+      } else {
+        setRevisions(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchRevisions();
+    return () => {
+      cancelled = true;
+    };
+  }, [leaveId]);
+
+  return { revisions, loading };
+};
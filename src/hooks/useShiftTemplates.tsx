@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ShiftTemplate = Database["public"]["Tables"]["shift_templates"]["Row"];
+
+// Every template, including inactive ones that older roster entries still use
+export const useShiftTemplates = () => {
+  const [shiftTemplates, setShiftTemplates] = useState<ShiftTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchShiftTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("shift_templates")
+        .select("*")
+        .order("start_time")
+        .order("name");
+
+      if (error) throw error;
+      setShiftTemplates(data || []);
+    } catch (error) {
+      console.error("Error fetching shift templates:", error);
+      setShiftTemplates([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchShiftTemplates();
+  }, []);
+
+  return { shiftTemplates, loading, refetchShiftTemplates: fetchShiftTemplates };
+};
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+
+// Number of comments by other people the current user has not read yet, per leave id
+export const useUnreadLeaveComments = () => {
+  const { user } = useAuth();
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  const fetchUnreadCounts = async () => {
+    if (!user) {
+      setUnreadCounts({});
+      return;
+    }
+
+    const { data, error } = await supabase.rpc("get_unread_leave_comment_counts");
+
+    if (error) {
+      console.error("Error fetching unread comments:", error);
+      return;
+    }
+    setUnreadCounts(
+      Object.fromEntries((data || []).map((row) => [row.leave_id, row.unread_count]))
+    );
+  };
+
+  useEffect(() => {
+    fetchUnreadCounts();
+  }, [user?.id]);
+
+  return { unreadCounts, refetchUnreadCounts: fetchUnreadCounts };
+};
@@ -14,6 +14,44 @@ export type Database = {
   }
   public: {
     Tables: {
+      absence_alert_rules: {
+        Row: {
+          adjacent_spells_threshold: number
+          bradford_critical_score: number
+          bradford_warning_score: number
+          created_at: string
+          id: boolean
+          leave_type: string
+          updated_at: string
+        }
+        Insert: {
+          adjacent_spells_threshold?: number
+          bradford_critical_score?: number
+          bradford_warning_score?: number
+          created_at?: string
+          id?: boolean
+          leave_type?: string
+          updated_at?: string
+        }
+        Update: {
+          adjacent_spells_threshold?: number
+          bradford_critical_score?: number
+          bradford_warning_score?: number
+          created_at?: string
+          id?: boolean
+          leave_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "absence_alert_rules_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
       activity_logs: {
         Row: {
           action: string
@@ -84,6 +122,48 @@ export type Database = {
           },
         ]
       }
+      approval_delegations: {
+        Row: {
+          created_at: string
+          delegate_id: string
+          delegator_id: string
+          ends_on: string
+          id: string
+          starts_on: string
+        }
+        Insert: {
+          created_at?: string
+          delegate_id: string
+          delegator_id: string
+          ends_on: string
+          id?: string
+          starts_on: string
+        }
+        Update: {
+          created_at?: string
+          delegate_id?: string
+          delegator_id?: string
+          ends_on?: string
+          id?: string
+          starts_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_delegations_delegate_id_fkey"
+            columns: ["delegate_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_delegations_delegator_id_fkey"
+            columns: ["delegator_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance: {
         Row: {
           clock_in: string
@@ -132,59 +212,104 @@ export type Database = {
           },
         ]
       }
-      leaves: {
+      attendance_breaks: {
         Row: {
+          attendance_id: string
+          break_type: Database["public"]["Enums"]["attendance_break_type"]
+          created_at: string
+          ended_at: string | null
+          id: string
+          started_at: string
+          updated_at: string
+        }
+        Insert: {
+          attendance_id: string
+          break_type?: Database["public"]["Enums"]["attendance_break_type"]
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at: string
+          updated_at?: string
+        }
+        Update: {
+          attendance_id?: string
+          break_type?: Database["public"]["Enums"]["attendance_break_type"]
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          started_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_breaks_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_corrections: {
+        Row: {
+          attendance_id: string | null
           created_at: string
-          end_date: string
           id: string
+          proposed_clock_in: string
+          proposed_clock_out: string
           reason: string
           review_notes: string | null
           reviewed_at: string | null
           reviewed_by: string | null
-          start_date: string
-          status: Database["public"]["Enums"]["leave_status"]
-          type: Database["public"]["Enums"]["leave_type"]
+          status: Database["public"]["Enums"]["attendance_correction_status"]
           updated_at: string
           user_id: string
         }
         Insert: {
+          attendance_id?: string | null
           created_at?: string
-          end_date: string
           id?: string
+          proposed_clock_in: string
+          proposed_clock_out: string
           reason: string
           review_notes?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
-          start_date: string
-          status?: Database["public"]["Enums"]["leave_status"]
-          type: Database["public"]["Enums"]["leave_type"]
+          status?: Database["public"]["Enums"]["attendance_correction_status"]
           updated_at?: string
           user_id: string
         }
         Update: {
+          attendance_id?: string | null
           created_at?: string
-          end_date?: string
           id?: string
+          proposed_clock_in?: string
+          proposed_clock_out?: string
           reason?: string
           review_notes?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
-          start_date?: string
-          status?: Database["public"]["Enums"]["leave_status"]
-          type?: Database["public"]["Enums"]["leave_type"]
+          status?: Database["public"]["Enums"]["attendance_correction_status"]
           updated_at?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "leaves_reviewed_by_fkey"
+            foreignKeyName: "attendance_corrections_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_reviewed_by_fkey"
             columns: ["reviewed_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "leaves_user_id_fkey"
+            foreignKeyName: "attendance_corrections_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -192,58 +317,198 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      attendance_revisions: {
         Row: {
+          attendance_id: string
+          correction_id: string | null
           created_at: string
-          department: string | null
-          email: string
-          hire_date: string | null
+          edited_by: string | null
           id: string
-          name: string
+          new_clock_in: string
+          new_clock_out: string | null
+          previous_clock_in: string | null
+          previous_clock_out: string | null
+          user_id: string
+        }
+        Insert: {
+          attendance_id: string
+          correction_id?: string | null
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          new_clock_in: string
+          new_clock_out?: string | null
+          previous_clock_in?: string | null
+          previous_clock_out?: string | null
+          user_id: string
+        }
+        Update: {
+          attendance_id?: string
+          correction_id?: string | null
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          new_clock_in?: string
+          new_clock_out?: string | null
+          previous_clock_in?: string | null
+          previous_clock_out?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_revisions_attendance_id_fkey"
+            columns: ["attendance_id"]
+            isOneToOne: false
+            referencedRelation: "attendance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_revisions_correction_id_fkey"
+            columns: ["correction_id"]
+            isOneToOne: false
+            referencedRelation: "attendance_corrections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_revisions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_revisions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_settings: {
+        Row: {
+          created_at: string
+          id: boolean
+          late_grace_minutes: number
+          pay_period_anchor: string
+          pay_period_frequency: Database["public"]["Enums"]["pay_period_frequency"]
+          self_service_enabled: boolean
+          time_zone: string
           updated_at: string
         }
         Insert: {
           created_at?: string
-          department?: string | null
-          email: string
-          hire_date?: string | null
-          id: string
-          name: string
+          id?: boolean
+          late_grace_minutes?: number
+          pay_period_anchor?: string
+          pay_period_frequency?: Database["public"]["Enums"]["pay_period_frequency"]
+          self_service_enabled?: boolean
+          time_zone?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
-          department?: string | null
-          email?: string
-          hire_date?: string | null
-          id?: string
-          name?: string
+          id?: boolean
+          late_grace_minutes?: number
+          pay_period_anchor?: string
+          pay_period_frequency?: Database["public"]["Enums"]["pay_period_frequency"]
+          self_service_enabled?: boolean
+          time_zone?: string
           updated_at?: string
         }
         Relationships: []
       }
-      user_roles: {
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comp_off_credits: {
         Row: {
           created_at: string
+          days: number
+          expired_at: string | null
+          expired_days: number | null
+          expires_on: string | null
+          extra_hours: number
+          hours_worked: number
           id: string
-          role: Database["public"]["Enums"]["app_role"]
+          is_working_day: boolean
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["comp_off_credit_status"]
+          updated_at: string
           user_id: string
+          work_date: string
         }
         Insert: {
           created_at?: string
+          days: number
+          expired_at?: string | null
+          expired_days?: number | null
+          expires_on?: string | null
+          extra_hours: number
+          hours_worked: number
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          is_working_day: boolean
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["comp_off_credit_status"]
+          updated_at?: string
           user_id: string
+          work_date: string
         }
         Update: {
           created_at?: string
+          days?: number
+          expired_at?: string | null
+          expired_days?: number | null
+          expires_on?: string | null
+          extra_hours?: number
+          hours_worked?: number
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          is_working_day?: boolean
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["comp_off_credit_status"]
+          updated_at?: string
           user_id?: string
+          work_date?: string
         }
         Relationships: [
           {
-            foreignKeyName: "user_roles_user_id_fkey"
+            foreignKeyName: "comp_off_credits_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comp_off_credits_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -251,27 +516,1358 @@ export type Database = {
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      get_user_role: {
-        Args: { _user_id: string }
-        Returns: Database["public"]["Enums"]["app_role"]
+      comp_off_rules: {
+        Row: {
+          created_at: string
+          expiry_days: number
+          hours_per_day: number
+          id: boolean
+          is_active: boolean
+          leave_type: string
+          scheduled_hours: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expiry_days?: number
+          hours_per_day?: number
+          id?: boolean
+          is_active?: boolean
+          leave_type?: string
+          scheduled_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expiry_days?: number
+          hours_per_day?: number
+          id?: boolean
+          is_active?: boolean
+          leave_type?: string
+          scheduled_hours?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comp_off_rules_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["key"]
+          },
+        ]
       }
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+      department_coverage_rules: {
+        Row: {
+          created_at: string
+          department: string
+          id: string
+          max_concurrent_absences: number
+          updated_at: string
         }
-        Returns: boolean
+        Insert: {
+          created_at?: string
+          department: string
+          id?: string
+          max_concurrent_absences: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string
+          id?: string
+          max_concurrent_absences?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      holiday_calendars: {
+        Row: {
+          created_at: string
+          department: string | null
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+          weekend_days: number[]
+          work_hours_per_day: number
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+          weekend_days?: number[]
+          work_hours_per_day?: number
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+          weekend_days?: number[]
+          work_hours_per_day?: number
+        }
+        Relationships: []
+      }
+      holidays: {
+        Row: {
+          calendar_id: string
+          created_at: string
+          holiday_date: string
+          id: string
+          name: string
+        }
+        Insert: {
+          calendar_id: string
+          created_at?: string
+          holiday_date: string
+          id?: string
+          name: string
+        }
+        Update: {
+          calendar_id?: string
+          created_at?: string
+          holiday_date?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_calendar_id_fkey"
+            columns: ["calendar_id"]
+            isOneToOne: false
+            referencedRelation: "holiday_calendars"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          id: string
+          leave_id: string
+          size_bytes: number | null
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          leave_id: string
+          size_bytes?: number | null
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          leave_id?: string
+          size_bytes?: number | null
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_attachments_leave_id_fkey"
+            columns: ["leave_id"]
+            isOneToOne: false
+            referencedRelation: "leaves"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_attachments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_blackout_periods: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          policy_id: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          policy_id: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          policy_id?: string
+          start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_blackout_periods_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "leave_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_carry_over_rules: {
+        Row: {
+          created_at: string
+          leave_type: string
+          max_carry_over_days: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          leave_type: string
+          max_carry_over_days: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          leave_type?: string
+          max_carry_over_days?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_carry_over_rules_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      leave_comment_reads: {
+        Row: {
+          last_read_at: string
+          leave_id: string
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          leave_id: string
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          leave_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_comment_reads_leave_id_fkey"
+            columns: ["leave_id"]
+            isOneToOne: false
+            referencedRelation: "leaves"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_comment_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_comments: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+          leave_id: string
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+          leave_id: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+          leave_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_comments_leave_id_fkey"
+            columns: ["leave_id"]
+            isOneToOne: false
+            referencedRelation: "leaves"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_ledger: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          days: number
+          entry_type: Database["public"]["Enums"]["leave_ledger_entry_type"]
+          id: string
+          leave_id: string | null
+          leave_type: string
+          leave_year: number
+          notes: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          days: number
+          entry_type: Database["public"]["Enums"]["leave_ledger_entry_type"]
+          id?: string
+          leave_id?: string | null
+          leave_type: string
+          leave_year: number
+          notes?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          days?: number
+          entry_type?: Database["public"]["Enums"]["leave_ledger_entry_type"]
+          id?: string
+          leave_id?: string | null
+          leave_type?: string
+          leave_year?: number
+          notes?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_ledger_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_ledger_leave_id_fkey"
+            columns: ["leave_id"]
+            isOneToOne: false
+            referencedRelation: "leaves"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_ledger_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "leave_ledger_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_policies: {
+        Row: {
+          attachment_required: boolean
+          created_at: string
+          department: string | null
+          id: string
+          leave_type: string
+          max_consecutive_days: number | null
+          min_notice_days: number
+          reason_required: boolean
+          updated_at: string
+        }
+        Insert: {
+          attachment_required?: boolean
+          created_at?: string
+          department?: string | null
+          id?: string
+          leave_type: string
+          max_consecutive_days?: number | null
+          min_notice_days?: number
+          reason_required?: boolean
+          updated_at?: string
+        }
+        Update: {
+          attachment_required?: boolean
+          created_at?: string
+          department?: string | null
+          id?: string
+          leave_type?: string
+          max_consecutive_days?: number | null
+          min_notice_days?: number
+          reason_required?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_policies_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      leave_revisions: {
+        Row: {
+          created_at: string
+          edited_by: string | null
+          id: string
+          leave_id: string
+          new_values: Json
+          previous_values: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          leave_id: string
+          new_values: Json
+          previous_values: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          leave_id?: string
+          new_values?: Json
+          previous_values?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_revisions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_revisions_leave_id_fkey"
+            columns: ["leave_id"]
+            isOneToOne: false
+            referencedRelation: "leaves"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_revisions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_types: {
+        Row: {
+          color: string
+          created_at: string
+          is_active: boolean
+          is_paid: boolean
+          key: string
+          name: string
+          requires_attachment: boolean
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          is_active?: boolean
+          is_paid?: boolean
+          key: string
+          name: string
+          requires_attachment?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          is_active?: boolean
+          is_paid?: boolean
+          key?: string
+          name?: string
+          requires_attachment?: boolean
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      leave_year_rollovers: {
+        Row: {
+          leave_year: number
+          processed_at: string
+          processed_by: string | null
+        }
+        Insert: {
+          leave_year: number
+          processed_at?: string
+          processed_by?: string | null
+        }
+        Update: {
+          leave_year?: number
+          processed_at?: string
+          processed_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_year_rollovers_processed_by_fkey"
+            columns: ["processed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leaves: {
+        Row: {
+          cancellation_reason: string | null
+          cancellation_requested_at: string | null
+          cancellation_reviewed_at: string | null
+          cancellation_reviewed_by: string | null
+          created_at: string
+          duration_days: number
+          duration_unit: Database["public"]["Enums"]["leave_duration_unit"]
+          end_date: string
+          half_day_period: Database["public"]["Enums"]["half_day_period"] | null
+          hours: number | null
+          id: string
+          reason: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_on_behalf_of: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"]
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cancellation_reason?: string | null
+          cancellation_requested_at?: string | null
+          cancellation_reviewed_at?: string | null
+          cancellation_reviewed_by?: string | null
+          created_at?: string
+          duration_days?: number
+          duration_unit?: Database["public"]["Enums"]["leave_duration_unit"]
+          end_date: string
+          half_day_period?: Database["public"]["Enums"]["half_day_period"] | null
+          hours?: number | null
+          id?: string
+          reason: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_on_behalf_of?: string | null
+          start_date: string
+          status?: Database["public"]["Enums"]["leave_status"]
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cancellation_reason?: string | null
+          cancellation_requested_at?: string | null
+          cancellation_reviewed_at?: string | null
+          cancellation_reviewed_by?: string | null
+          created_at?: string
+          duration_days?: number
+          duration_unit?: Database["public"]["Enums"]["leave_duration_unit"]
+          end_date?: string
+          half_day_period?: Database["public"]["Enums"]["half_day_period"] | null
+          hours?: number | null
+          id?: string
+          reason?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_on_behalf_of?: string | null
+          start_date?: string
+          status?: Database["public"]["Enums"]["leave_status"]
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leaves_cancellation_reviewed_by_fkey"
+            columns: ["cancellation_reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leaves_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leaves_reviewed_on_behalf_of_fkey"
+            columns: ["reviewed_on_behalf_of"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leaves_type_fkey"
+            columns: ["type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "leaves_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_approvals: {
+        Row: {
+          id: string
+          overtime_hours: number
+          period_end: string
+          period_start: string
+          premium_hours: number
+          review_notes: string | null
+          reviewed_at: string
+          reviewed_by: string
+          status: Database["public"]["Enums"]["overtime_approval_status"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          overtime_hours: number
+          period_end: string
+          period_start: string
+          premium_hours: number
+          review_notes?: string | null
+          reviewed_at?: string
+          reviewed_by: string
+          status: Database["public"]["Enums"]["overtime_approval_status"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          overtime_hours?: number
+          period_end?: string
+          period_start?: string
+          premium_hours?: number
+          review_notes?: string | null
+          reviewed_at?: string
+          reviewed_by?: string
+          status?: Database["public"]["Enums"]["overtime_approval_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overtime_approvals_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_approvals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_policies: {
+        Row: {
+          created_at: string
+          daily_threshold_hours: number | null
+          department: string | null
+          holiday_multiplier: number
+          id: string
+          overtime_multiplier: number
+          requires_approval: boolean
+          updated_at: string
+          weekend_multiplier: number
+          weekly_threshold_hours: number | null
+        }
+        Insert: {
+          created_at?: string
+          daily_threshold_hours?: number | null
+          department?: string | null
+          holiday_multiplier?: number
+          id?: string
+          overtime_multiplier?: number
+          requires_approval?: boolean
+          updated_at?: string
+          weekend_multiplier?: number
+          weekly_threshold_hours?: number | null
+        }
+        Update: {
+          created_at?: string
+          daily_threshold_hours?: number | null
+          department?: string | null
+          holiday_multiplier?: number
+          id?: string
+          overtime_multiplier?: number
+          requires_approval?: boolean
+          updated_at?: string
+          weekend_multiplier?: number
+          weekly_threshold_hours?: number | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          department: string | null
+          email: string
+          hire_date: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          email: string
+          hire_date?: string | null
+          id: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          email?: string
+          hire_date?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      shift_assignments: {
+        Row: {
+          assigned_by: string | null
+          created_at: string
+          id: string
+          shift_date: string
+          shift_template_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          shift_date: string
+          shift_template_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          shift_date?: string
+          shift_template_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_assignments_shift_template_id_fkey"
+            columns: ["shift_template_id"]
+            isOneToOne: false
+            referencedRelation: "shift_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_assignments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_templates: {
+        Row: {
+          color: string
+          created_at: string
+          end_time: string
+          id: string
+          is_active: boolean
+          name: string
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          end_time: string
+          id?: string
+          is_active?: boolean
+          name: string
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      timesheet_events: {
+        Row: {
+          actor_id: string
+          created_at: string
+          event_type: Database["public"]["Enums"]["timesheet_event_type"]
+          id: string
+          notes: string | null
+          timesheet_id: string
+          total_hours: number
+        }
+        Insert: {
+          actor_id: string
+          created_at?: string
+          event_type: Database["public"]["Enums"]["timesheet_event_type"]
+          id?: string
+          notes?: string | null
+          timesheet_id: string
+          total_hours: number
+        }
+        Update: {
+          actor_id?: string
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["timesheet_event_type"]
+          id?: string
+          notes?: string | null
+          timesheet_id?: string
+          total_hours?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheet_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheet_events_timesheet_id_fkey"
+            columns: ["timesheet_id"]
+            isOneToOne: false
+            referencedRelation: "timesheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheets: {
+        Row: {
+          created_at: string
+          employee_notes: string | null
+          id: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_on_behalf_of: string | null
+          status: Database["public"]["Enums"]["timesheet_status"]
+          submitted_at: string
+          total_hours: number
+          updated_at: string
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          employee_notes?: string | null
+          id?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_on_behalf_of?: string | null
+          status?: Database["public"]["Enums"]["timesheet_status"]
+          submitted_at?: string
+          total_hours: number
+          updated_at?: string
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          employee_notes?: string | null
+          id?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_on_behalf_of?: string | null
+          status?: Database["public"]["Enums"]["timesheet_status"]
+          submitted_at?: string
+          total_hours?: number
+          updated_at?: string
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheets_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheets_reviewed_on_behalf_of_fkey"
+            columns: ["reviewed_on_behalf_of"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timesheets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      attendance_hours: {
+        Row: {
+          attendance_id: string | null
+          clock_in: string | null
+          clock_out: string | null
+          gross_hours: number | null
+          net_hours: number | null
+          paid_break_hours: number | null
+          unpaid_break_hours: number | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_balances: {
+        Row: {
+          balance_days: number | null
+          carried_forward_days: number | null
+          carried_over_days: number | null
+          entitled_days: number | null
+          expired_days: number | null
+          leave_type: string | null
+          leave_year: number | null
+          used_days: number | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_ledger_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      calculate_leave_days: {
+        Args: { _end_date: string; _start_date: string; _user_id: string }
+        Returns: number
+      }
+      calculate_leave_duration: {
+        Args: {
+          _duration_unit: Database["public"]["Enums"]["leave_duration_unit"]
+          _end_date: string
+          _hours: number
+          _start_date: string
+          _user_id: string
+        }
+        Returns: number
+      }
+      can_review_leaves: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      clock_in: { Args: { _notes?: string }; Returns: string }
+      clock_out: { Args: never; Returns: string }
+      count_working_days: {
+        Args: { _calendar_id: string; _end_date: string; _start_date: string }
+        Returns: number
+      }
+      end_break: {
+        Args: never
+        Returns: string
+      }
+      expire_comp_off_credits: { Args: never; Returns: number }
+      get_absence_spells: {
+        Args: { _as_of?: string; _leave_type: string }
+        Returns: {
+          after_day_off: boolean
+          before_day_off: boolean
+          days: number
+          leave_ids: string[]
+          spell_end: string
+          spell_start: string
+          user_id: string
+        }[]
+      }
+      get_active_delegator: {
+        Args: { _user_id: string }
+        Returns: string
+      }
+      get_applicable_leave_policy: {
+        Args: {
+          _leave_type: string
+          _user_id: string
+        }
+        Returns: {
+          attachment_required: boolean
+          created_at: string
+          department: string | null
+          id: string
+          leave_type: string
+          max_consecutive_days: number | null
+          min_notice_days: number
+          reason_required: boolean
+          updated_at: string
+        }
+      }
+      get_attendance_work_date: {
+        Args: { _clock_in: string }
+        Returns: string
+      }
+      get_bradford_factor_report: {
+        Args: { _as_of?: string }
+        Returns: {
+          adjacent_spells: number
+          bradford_score: number
+          days: number
+          department: string
+          employee_name: string
+          spells: number
+          user_id: string
+        }[]
+      }
+      get_leave_coverage_conflicts: {
+        Args: { _leave_id: string }
+        Returns: {
+          absence_date: string
+          absent_count: number
+          absent_names: string[]
+          department: string
+          max_concurrent_absences: number
+        }[]
+      }
+      get_overtime_report: {
+        Args: { _period_end: string; _period_start: string }
+        Returns: {
+          approval_status: string
+          department: string
+          employee_name: string
+          holiday_hours: number
+          holiday_multiplier: number
+          overtime_hours: number
+          overtime_multiplier: number
+          regular_hours: number
+          review_notes: string
+          user_id: string
+          weekend_hours: number
+          weekend_multiplier: number
+        }[]
+      }
+      get_pay_period: {
+        Args: { _date?: string }
+        Returns: {
+          period_end: string
+          period_start: string
+        }[]
+      }
+      get_shift_adherence: {
+        Args: { _department?: string; _end_date: string; _start_date: string }
+        Returns: {
+          assignment_id: string
+          clock_in: string
+          clock_out: string
+          department: string
+          early_minutes: number
+          employee_name: string
+          is_late: boolean
+          late_minutes: number
+          left_early: boolean
+          no_show: boolean
+          scheduled_end: string
+          scheduled_start: string
+          shift_date: string
+          shift_name: string
+          user_id: string
+        }[]
+      }
+      get_team_leave_calendar: {
+        Args: { _department?: string; _end_date: string; _start_date: string }
+        Returns: {
+          department: string
+          duration_days: number
+          duration_unit: Database["public"]["Enums"]["leave_duration_unit"]
+          employee_name: string
+          end_date: string
+          half_day_period: Database["public"]["Enums"]["half_day_period"]
+          hours: number
+          id: string
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"]
+          type: string
+          user_id: string
+        }[]
+      }
+      get_timesheet_hours: {
+        Args: { _user_id: string; _week_start: string }
+        Returns: {
+          net_hours: number
+          open_sessions: number
+          work_date: string
+        }[]
+      }
+      get_timesheet_week_start: {
+        Args: { _at: string }
+        Returns: string
+      }
+      get_unread_leave_comment_counts: {
+        Args: never
+        Returns: {
+          leave_id: string
+          unread_count: number
+        }[]
+      }
+      get_user_holiday_calendar: {
+        Args: { _user_id: string }
+        Returns: string
+      }
+      get_user_role: {
+        Args: { _user_id: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_attendance_week_locked: {
+        Args: { _at: string; _user_id: string }
+        Returns: boolean
+      }
+      leave_attachment_uploaded: {
+        Args: { _storage_path: string }
+        Returns: boolean
+      }
+      leave_year: { Args: { _date: string }; Returns: number }
+      mark_leave_comments_read: { Args: { _leave_id: string }; Returns: undefined }
+      process_leave_year_rollover: {
+        Args: { _leave_year: number }
+        Returns: {
+          carried_days: number
+          employee_name: string
+          expired_days: number
+          leave_type: string
+          processed_at: string
+          user_id: string
+        }[]
+      }
+      refresh_comp_off_credit: {
+        Args: { _user_id: string; _work_date: string }
+        Returns: undefined
+      }
+      regenerate_calendar_feed_token: { Args: never; Returns: string }
+      review_attendance_correction: {
+        Args: {
+          _correction_id: string
+          _decision: Database["public"]["Enums"]["attendance_correction_status"]
+          _notes?: string
+        }
+        Returns: undefined
+      }
+      review_leaves: {
+        Args: {
+          _decision: Database["public"]["Enums"]["leave_status"]
+          _leave_ids: string[]
+          _notes?: string
+        }
+        Returns: {
+          error_message: string
+          leave_id: string
+          success: boolean
+        }[]
+      }
+      review_overtime: {
+        Args: {
+          _decision: Database["public"]["Enums"]["overtime_approval_status"]
+          _notes?: string
+          _period_end: string
+          _period_start: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      review_timesheet: {
+        Args: {
+          _decision: Database["public"]["Enums"]["timesheet_status"]
+          _notes?: string
+          _timesheet_id: string
+        }
+        Returns: undefined
+      }
+      start_break: {
+        Args: {
+          _break_type?: Database["public"]["Enums"]["attendance_break_type"]
+        }
+        Returns: string
+      }
+      submit_timesheet: {
+        Args: { _notes?: string; _week_start: string }
+        Returns: string
+      }
+      unlock_timesheet: {
+        Args: { _reason: string; _timesheet_id: string }
+        Returns: undefined
+      }
+      validate_leave_request: {
+        Args: {
+          _end_date: string
+          _leave_type: string
+          _reason: string
+          _start_date: string
+          _user_id: string
+        }
+        Returns: string[]
       }
     }
     Enums: {
       app_role: "admin" | "user"
-      leave_status: "pending" | "approved" | "rejected"
-      leave_type: "sick" | "vacation" | "personal" | "other"
+      attendance_break_type: "paid" | "unpaid"
+      attendance_correction_status:
+        | "pending"
+        | "approved"
+        | "rejected"
+        | "withdrawn"
+      comp_off_credit_status: "pending" | "approved" | "rejected"
+      half_day_period: "am" | "pm"
+      leave_duration_unit: "full_day" | "half_day" | "hours"
+      leave_ledger_entry_type:
+        | "entitlement"
+        | "accrual"
+        | "deduction"
+        | "reversal"
+        | "adjustment"
+        | "carry_over"
+        | "expiry"
+      leave_status:
+        | "pending"
+        | "approved"
+        | "rejected"
+        | "withdrawn"
+        | "cancelled"
+      overtime_approval_status: "approved" | "rejected"
+      pay_period_frequency: "weekly" | "biweekly" | "monthly"
+      timesheet_event_type:
+        | "submitted"
+        | "approved"
+        | "rejected"
+        | "unlocked"
+      timesheet_status: "submitted" | "approved" | "rejected" | "reopened"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -400,8 +1996,36 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
-      leave_status: ["pending", "approved", "rejected"],
-      leave_type: ["sick", "vacation", "personal", "other"],
+      attendance_break_type: ["paid", "unpaid"],
+      attendance_correction_status: [
+        "pending",
+        "approved",
+        "rejected",
+        "withdrawn",
+      ],
+      comp_off_credit_status: ["pending", "approved", "rejected"],
+      half_day_period: ["am", "pm"],
+      leave_duration_unit: ["full_day", "half_day", "hours"],
+      leave_ledger_entry_type: [
+        "entitlement",
+        "accrual",
+        "deduction",
+        "reversal",
+        "adjustment",
+        "carry_over",
+        "expiry",
+      ],
+      leave_status: [
+        "pending",
+        "approved",
+        "rejected",
+        "withdrawn",
+        "cancelled",
+      ],
+      overtime_approval_status: ["approved", "rejected"],
+      pay_period_frequency: ["weekly", "biweekly", "monthly"],
+      timesheet_event_type: ["submitted", "approved", "rejected", "unlocked"],
+      timesheet_status: ["submitted", "approved", "rejected", "reopened"],
     },
   },
 } as const
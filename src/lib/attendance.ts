@@ -0,0 +1,67 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AttendanceBreakType = Database["public"]["Enums"]["attendance_break_type"];
+
+export type AttendanceBreak = Pick<
+  Database["public"]["Tables"]["attendance_breaks"]["Row"],
+  "id" | "break_type" | "started_at" | "ended_at"
+>;
+
+export const BREAK_TYPE_LABELS: Record<AttendanceBreakType, string> = {
+  paid: "Paid break",
+  unpaid: "Unpaid break",
+};
+
+const toHours = (milliseconds: number) => Math.round((milliseconds / 3600000) * 100) / 100;
+
+const getBreakMilliseconds = (breaks: AttendanceBreak[], breakType: AttendanceBreakType) =>
+  breaks
+    .filter((entry) => entry.break_type === breakType && entry.ended_at)
+    .reduce(
+      (total, entry) =>
+        total + new Date(entry.ended_at).getTime() - new Date(entry.started_at).getTime(),
+      0
+    );
+
+// Mirrors the attendance_hours view: paid breaks count as worked time, unpaid ones
+// do not, and an open session has no hours yet
+export const getSessionHours = (
+  clockIn: string,
+  clockOut: string | null,
+  breaks: AttendanceBreak[]
+) => {
+  const paidBreak = getBreakMilliseconds(breaks, "paid");
+  const unpaidBreak = getBreakMilliseconds(breaks, "unpaid");
+  const gross = clockOut ? new Date(clockOut).getTime() - new Date(clockIn).getTime() : null;
+
+  return {
+    grossHours: gross === null ? null : toHours(gross),
+    paidBreakHours: toHours(paidBreak),
+    unpaidBreakHours: toHours(unpaidBreak),
+    netHours: gross === null ? null : toHours(gross - unpaidBreak),
+  };
+};
+
+export const formatHours = (hours: number) => `${Math.round(hours * 10) / 10} hours`;
+
+export type TimesheetStatus = Database["public"]["Enums"]["timesheet_status"];
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  reopened: "Reopened",
+};
+
+export const getTimesheetStatusVariant = (status: TimesheetStatus) => {
+  switch (status) {
+    case "approved":
+      return "default";
+    case "rejected":
+      return "destructive";
+    case "reopened":
+      return "outline";
+    default:
+      return "secondary";
+  }
+};
@@ -0,0 +1,24 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes every field that needs it (RFC 4180) and neutralises leading characters
+// that spreadsheets would run as a formula
+const escapeField = (value: CsvValue) => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map((row) => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+
+export const downloadCsvFile = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,78 @@
+import { parseDateOnly, toDateOnly } from "@/lib/leaves";
+
+export interface IcsHoliday {
+  name: string;
+  holiday_date: string;
+}
+
+// Lines starting with whitespace continue the previous line (RFC 5545 §3.1)
+const unfoldLines = (text: string) => text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+
+// Accepts DATE (20250101) and DATE-TIME (20250101T000000Z) values, keeping the calendar date
+const parseIcsDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Extracts one holiday per day from the VEVENTs of an iCalendar file.
+ * Multi-day events are expanded; DTEND is exclusive as the spec requires.
+ */
+export const parseIcsHolidays = (text: string): IcsHoliday[] => {
+  const holidays: IcsHoliday[] = [];
+  let event: { name?: string; start?: string; end?: string } | null = null;
+
+  for (const line of unfoldLines(text)) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+
+    if (line === "END:VEVENT") {
+      if (event?.start) {
+        const name = event.name || "Holiday";
+        const lastDay = parseDateOnly(event.end || event.start);
+        if (event.end && event.end > event.start) {
+          lastDay.setDate(lastDay.getDate() - 1);
+        }
+        for (const day = parseDateOnly(event.start); day <= lastDay; day.setDate(day.getDate() + 1)) {
+          holidays.push({ name, holiday_date: toDateOnly(day) });
+        }
+      }
+      event = null;
+      continue;
+    }
+
+    if (!event) continue;
+
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const property = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === "SUMMARY") {
+      event.name = unescapeText(value);
+    } else if (property === "DTSTART") {
+      event.start = parseIcsDate(value) ?? undefined;
+    } else if (property === "DTEND") {
+      event.end = parseIcsDate(value) ?? undefined;
+    }
+  }
+
+  return holidays;
+};
+
+// The builder is shared with the leave-calendar-feed edge function
+export { buildLeaveIcs, type IcsLeaveEvent } from "../../supabase/functions/_shared/leaveIcs.ts";
+
+export const downloadIcsFile = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/calendar;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
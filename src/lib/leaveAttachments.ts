@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type LeaveAttachment = Database["public"]["Tables"]["leave_attachments"]["Row"];
+
+// Keep in sync with the bucket settings in the migration and supabase/config.toml
+export const LEAVE_ATTACHMENTS_BUCKET = "leave-attachments";
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = "application/pdf,image/jpeg,image/png,image/heic";
+
+// Storage policies only let users write under their own <user_id>/ folder
+const buildStoragePath = (userId: string, leaveId: string, fileName: string) =>
+  `${userId}/${leaveId}/${crypto.randomUUID()}-${fileName.replace(/[^\w.-]+/g, "_")}`;
+
+export const findOversizedAttachment = (files: File[]) =>
+  files.find((file) => file.size > MAX_ATTACHMENT_BYTES);
+
+// Uploads each file and records it against the leave; stops at the first failure
+export const uploadLeaveAttachments = async (userId: string, leaveId: string, files: File[]) => {
+  for (const file of files) {
+    const storagePath = buildStoragePath(userId, leaveId, file.name);
+    const { error: uploadError } = await supabase.storage
+      .from(LEAVE_ATTACHMENTS_BUCKET)
+      .upload(storagePath, file, { contentType: file.type });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from("leave_attachments").insert([
+      {
+        leave_id: leaveId,
+        user_id: userId,
+        file_name: file.name,
+        storage_path: storagePath,
+        content_type: file.type || null,
+        size_bytes: file.size,
+      },
+    ]);
+
+    if (error) {
+      await supabase.storage.from(LEAVE_ATTACHMENTS_BUCKET).remove([storagePath]);
+      throw error;
+    }
+  }
+};
+
+// Opens a short-lived signed link that downloads the file under its original name
+export const downloadLeaveAttachment = async (attachment: LeaveAttachment) => {
+  const { data, error } = await supabase.storage
+    .from(LEAVE_ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.storage_path, 60, { download: attachment.file_name });
+
+  if (error) throw error;
+  window.open(data.signedUrl, "_blank", "noopener");
+};
@@ -0,0 +1,82 @@
+import type { Database } from "@/integrations/supabase/types";
+import { parseDateOnly, type LeaveType } from "@/lib/leaves";
+
+export type LeavePolicyRow = Database["public"]["Tables"]["leave_policies"]["Row"];
+export type BlackoutPeriod = Database["public"]["Tables"]["leave_blackout_periods"]["Row"];
+
+export interface LeavePolicy extends LeavePolicyRow {
+  leave_blackout_periods: BlackoutPeriod[];
+}
+
+export interface LeaveRequestDraft {
+  type: LeaveType;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  // Working days the request covers, see countWorkingDays()
+  duration_days: number;
+}
+
+export type LeaveFieldErrors = Partial<Record<"start_date" | "end_date" | "reason", string>>;
+
+// Same precedence as public.get_applicable_leave_policy(): department-specific, then company-wide
+export const findApplicablePolicy = (
+  policies: LeavePolicy[],
+  leaveType: LeaveType,
+  department: string | null
+) =>
+  policies.find((policy) => policy.leave_type === leaveType && policy.department === department) ||
+  policies.find((policy) => policy.leave_type === leaveType && policy.department === null) ||
+  null;
+
+// Mirrors public.validate_leave_request(); the database re-checks on insert
+export const validateLeaveRequest = (
+  draft: LeaveRequestDraft,
+  policy: LeavePolicy | null,
+  today: Date = new Date()
+): LeaveFieldErrors => {
+  const errors: LeaveFieldErrors = {};
+
+  if (!draft.start_date || !draft.end_date) {
+    return errors;
+  }
+
+  if (draft.end_date < draft.start_date) {
+    errors.end_date = "End date must be on or after the start date";
+    return errors;
+  }
+
+  if (draft.duration_days === 0) {
+    errors.end_date = "The selected dates contain no working days";
+    return errors;
+  }
+
+  if ((policy?.reason_required ?? true) && !draft.reason.trim()) {
+    errors.reason = "A reason is required for this leave type";
+  }
+
+  if (!policy) {
+    return errors;
+  }
+
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const noticeDays = Math.round(
+    (parseDateOnly(draft.start_date).getTime() - startOfToday.getTime()) / (1000 * 60 * 60 * 24)
+  );
+  if (noticeDays < policy.min_notice_days) {
+    errors.start_date = `This leave type requires at least ${policy.min_notice_days} days notice`;
+  }
+
+  if (policy.max_consecutive_days !== null && draft.duration_days > policy.max_consecutive_days) {
+    errors.end_date = `This leave type allows at most ${policy.max_consecutive_days} consecutive days`;
+  }
+
+  const blackout = policy.leave_blackout_periods.find(
+    (period) => period.start_date <= draft.end_date && period.end_date >= draft.start_date
+  );
+  if (blackout) {
+    errors.start_date = `Dates overlap the "${blackout.name}" blackout period (${blackout.start_date} to ${blackout.end_date})`;
+  }
+
+  return errors;
+};
@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ReviewDecision } from "@/components/leaves/ReviewLeaveDialog";
+
+// Records an approve/reject decision; the database posts the ledger entries
+export const submitLeaveReview = (
+  leaveId: string,
+  decision: ReviewDecision,
+  notes: string,
+  reviewerId: string | undefined
+) =>
+  supabase
+    .from("leaves")
+    .update({
+      status: decision,
+      review_notes: notes || null,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", leaveId);
+
+// Applies one decision to many pending leaves, all or nothing; returns a result per leave
+export const submitBulkLeaveReview = (
+  leaveIds: string[],
+  decision: ReviewDecision,
+  notes: string
+) =>
+  supabase.rpc("review_leaves", {
+    _leave_ids: leaveIds,
+    _decision: decision,
+    _notes: notes || null,
+  });
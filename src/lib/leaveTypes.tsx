@@ -0,0 +1,75 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/lib/auth";
+
+export type LeaveTypeDefinition = Database["public"]["Tables"]["leave_types"]["Row"];
+
+interface LeaveTypesContextType {
+  // Every type, including inactive ones that older leaves still reference
+  leaveTypes: LeaveTypeDefinition[];
+  // Types employees can currently request
+  activeLeaveTypes: LeaveTypeDefinition[];
+  loading: boolean;
+  getLeaveType: (key: string) => LeaveTypeDefinition | undefined;
+  getLeaveTypeName: (key: string) => string;
+  refetchLeaveTypes: () => Promise<void>;
+}
+
+const LeaveTypesContext = createContext<LeaveTypesContextType | undefined>(undefined);
+
+export const LeaveTypesProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [leaveTypes, setLeaveTypes] = useState<LeaveTypeDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLeaveTypes = async () => {
+    if (!user) {
+      setLeaveTypes([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("leave_types")
+      .select("*")
+      .order("sort_order")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching leave types:", error);
+    } else {
+      setLeaveTypes(data || []);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchLeaveTypes();
+  }, [user?.id]);
+
+  const getLeaveType = (key: string) => leaveTypes.find((leaveType) => leaveType.key === key);
+
+  return (
+    <LeaveTypesContext.Provider
+      value={{
+        leaveTypes,
+        activeLeaveTypes: leaveTypes.filter((leaveType) => leaveType.is_active),
+        loading,
+        getLeaveType,
+        getLeaveTypeName: (key: string) => getLeaveType(key)?.name ?? key,
+        refetchLeaveTypes: fetchLeaveTypes,
+      }}
+    >
+      {children}
+    </LeaveTypesContext.Provider>
+  );
+};
+
+export const useLeaveTypes = () => {
+  const context = useContext(LeaveTypesContext);
+  if (context === undefined) {
+    throw new Error("useLeaveTypes must be used within a LeaveTypesProvider");
+  }
+  return context;
+};
@@ -0,0 +1,60 @@
+import type { CSSProperties } from "react";
+import type { Database } from "@/integrations/supabase/types";
+
+// Key of a row in the admin-managed leave_types table
+export type LeaveType = string;
+export type LeaveStatus = Database["public"]["Enums"]["leave_status"];
+export type LeaveDurationUnit = Database["public"]["Enums"]["leave_duration_unit"];
+export type HalfDayPeriod = Database["public"]["Enums"]["half_day_period"];
+
+// Tints a badge or calendar entry with a leave type's hex colour from the leave_types table
+export const getLeaveTypeColorStyle = (color: string): CSSProperties => ({
+  backgroundColor: `${color}26`,
+  borderColor: color,
+});
+
+export const DURATION_UNIT_LABELS: Record<LeaveDurationUnit, string> = {
+  full_day: "Full day(s)",
+  half_day: "Half day",
+  hours: "Hours",
+};
+
+// Parse a "YYYY-MM-DD" column as a local calendar date (new Date() would treat it as UTC)
+export const parseDateOnly = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Mirrors public.leave_year() in the database
+export const getLeaveYear = (date: string) => parseDateOnly(date).getFullYear();
+
+// Format a local date back into the "YYYY-MM-DD" form used by DATE columns
+export const toDateOnly = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const formatDays = (days: number) => {
+  const rounded = Math.round(days * 100) / 100;
+  return `${rounded} ${Math.abs(rounded) === 1 ? "day" : "days"}`;
+};
+
+interface LeaveDuration {
+  duration_days: number;
+  duration_unit: LeaveDurationUnit;
+  half_day_period: HalfDayPeriod | null;
+  hours: number | null;
+}
+
+// Describes a leave in the unit it was requested in, e.g. "3 days", "Half day (AM)", "2.5 hours"
+export const formatLeaveDuration = (leave: LeaveDuration) => {
+  if (leave.duration_unit === "half_day") {
+    return `Half day (${leave.half_day_period?.toUpperCase()})`;
+  }
+  if (leave.duration_unit === "hours") {
+    return `${leave.hours} ${leave.hours === 1 ? "hour" : "hours"}`;
+  }
+  return formatDays(leave.duration_days);
+};
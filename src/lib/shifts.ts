@@ -0,0 +1,13 @@
+import type { ShiftTemplate } from "@/hooks/useShiftTemplates";
+
+// TIME columns come back as "HH:MM:SS"
+export const formatShiftTime = (value: string) => value.slice(0, 5);
+
+// Mirrors get_shift_adherence(): a shift ending at or before its start runs past midnight
+export const isOvernightShift = (template: Pick<ShiftTemplate, "start_time" | "end_time">) =>
+  template.end_time <= template.start_time;
+
+export const formatShiftHours = (template: Pick<ShiftTemplate, "start_time" | "end_time">) =>
+  `${formatShiftTime(template.start_time)}–${formatShiftTime(template.end_time)}${
+    isOvernightShift(template) ? " (+1)" : ""
+  }`;
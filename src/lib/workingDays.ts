@@ -0,0 +1,55 @@
+import { parseDateOnly, toDateOnly, type LeaveDurationUnit } from "@/lib/leaves";
+
+export interface WorkingCalendar {
+  // Days of week that are never worked (0 = Sunday ... 6 = Saturday)
+  weekendDays: number[];
+  holidayDates: Set<string>;
+  // Converts hourly leave into days
+  hoursPerDay: number;
+}
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  weekendDays: [0, 6],
+  holidayDates: new Set(),
+  hoursPerDay: 8,
+};
+
+export const isWorkingDay = (date: Date, calendar: WorkingCalendar) =>
+  !calendar.weekendDays.includes(date.getDay()) && !calendar.holidayDates.has(toDateOnly(date));
+
+// Mirrors public.count_working_days(): inclusive of both ends, 0 when the range is inverted
+export const countWorkingDays = (
+  startDate: string,
+  endDate: string,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+) => {
+  const end = parseDateOnly(endDate);
+  let count = 0;
+
+  for (const day = parseDateOnly(startDate); day <= end; day.setDate(day.getDate() + 1)) {
+    if (isWorkingDay(day, calendar)) {
+      count += 1;
+    }
+  }
+
+  return count;
+};
+
+// Mirrors public.calculate_leave_duration(): partial-day units only ever cover one date
+export const calculateLeaveDuration = (
+  startDate: string,
+  endDate: string,
+  unit: LeaveDurationUnit,
+  hours: number | null,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+) => {
+  const workingDays = countWorkingDays(startDate, endDate, calendar);
+
+  if (unit === "half_day") {
+    return workingDays * 0.5;
+  }
+  if (unit === "hours") {
+    return workingDays * Math.round(((hours || 0) / calendar.hoursPerDay) * 100) / 100;
+  }
+  return workingDays;
+};
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useRole } from "@/hooks/useRole";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import {
+  AbsenceAlertRulesCard,
+  type AbsenceAlertRules,
+} from "@/components/leaves/AbsenceAlertRulesCard";
+import { AbsenceSpellsSheet } from "@/components/leaves/AbsenceSpellsSheet";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type BradfordRow = Database["public"]["Functions"]["get_bradford_factor_report"]["Returns"][number];
+type SortColumn = keyof Omit<BradfordRow, "user_id">;
+
+const AbsencePatterns = () => {
+  const { isAdmin, loading: roleLoading } = useRole();
+  const { getLeaveTypeName } = useLeaveTypes();
+  const [rules, setRules] = useState<AbsenceAlertRules | null>(null);
+  const [rows, setRows] = useState<BradfordRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sort, setSort] = useState<SortColumn>("bradford_score");
+  const [ascending, setAscending] = useState(false);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [selectedEmployee, setSelectedEmployee] = useState<{ id: string; name: string } | null>(
+    null
+  );
+
+  const fetchReport = async () => {
+    try {
+      const [{ data: rulesData, error: rulesError }, { data, error }] = await Promise.all([
+        supabase.from("absence_alert_rules").select("*").maybeSingle(),
+        supabase.rpc("get_bradford_factor_report"),
+      ]);
+
+      if (rulesError) throw rulesError;
+      if (error) throw error;
+
+      setRules(rulesData);
+      setRows(data || []);
+    } catch (error) {
+      console.error("Error fetching absence report:", error);
+      toast.error("Failed to load absence report");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchReport();
+    }
+  }, [isAdmin]);
+
+  const getScoreLevel = (score: number) => {
+    if (!rules) return null;
+    if (score >= rules.bradford_critical_score) return "critical";
+    if (score >= rules.bradford_warning_score) return "warning";
+    return null;
+  };
+
+  const hasAdjacentPattern = (row: BradfordRow) =>
+    rules !== null && row.adjacent_spells >= rules.adjacent_spells_threshold;
+
+  const isFlagged = (row: BradfordRow) =>
+    getScoreLevel(row.bradford_score) !== null || hasAdjacentPattern(row);
+
+  // Clicking the sorted column flips the direction; numbers start highest first
+  const toggleSort = (column: SortColumn) => {
+    if (column === sort) {
+      setAscending(!ascending);
+    } else {
+      setSort(column);
+      setAscending(column === "employee_name" || column === "department");
+    }
+  };
+
+  const visibleRows = rows
+    .filter((row) => !flaggedOnly || isFlagged(row))
+    .sort((a, b) => {
+      const left = a[sort] ?? "";
+      const right = b[sort] ?? "";
+      const order =
+        typeof left === "number" && typeof right === "number"
+          ? left - right
+          : String(left).localeCompare(String(right));
+      return ascending ? order : -order;
+    });
+
+  const renderSortableHead = (column: SortColumn, label: string) => {
+    const isSorted = sort === column;
+    const SortIcon = !isSorted ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+
+    return (
+      <TableHead aria-sort={isSorted ? (ascending ? "ascending" : "descending") : undefined}>
+        <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(column)}>
+          {label}
+          <SortIcon className="ml-1 h-4 w-4" />
+        </Button>
+      </TableHead>
+    );
+  };
+
+  if (!roleLoading && !isAdmin) {
+    return (
+      <DashboardLayout>
+        <p className="text-center text-muted-foreground py-8">
+          Only admins can view absence patterns
+        </p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Absence Patterns</h1>
+          <p className="text-muted-foreground">
+            Bradford factor (spells² × days) of{" "}
+            {rules ? getLeaveTypeName(rules.leave_type) : "the tracked leave type"} over the last 52 weeks,
+            and spells next to weekends or holidays
+          </p>
+        </div>
+
+        {rules && <AbsenceAlertRulesCard rules={rules} onSaved={fetchReport} />}
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Employees</CardTitle>
+            <div className="flex items-center gap-2">
+              <Switch id="flagged_only" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+              <Label htmlFor="flagged_only">Flagged only</Label>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-4">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : visibleRows.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {flaggedOnly ? "No employees are over a threshold" : "No absences in the last 52 weeks"}
+              </p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {renderSortableHead("employee_name", "Employee")}
+                      {renderSortableHead("department", "Department")}
+                      {renderSortableHead("spells", "Spells")}
+                      {renderSortableHead("days", "Days")}
+                      {renderSortableHead("bradford_score", "Bradford Factor")}
+                      {renderSortableHead("adjacent_spells", "Next to Days Off")}
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => {
+                      const level = getScoreLevel(row.bradford_score);
+
+                      return (
+                        <TableRow key={row.user_id}>
+                          <TableCell className="font-medium">{row.employee_name}</TableCell>
+                          <TableCell>{row.department || "-"}</TableCell>
+                          <TableCell>{row.spells}</TableCell>
+                          <TableCell>{row.days}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {row.bradford_score}
+                              {level && (
+                                <Badge variant={level === "critical" ? "destructive" : "secondary"}>
+                                  {level}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {row.adjacent_spells}
+                              {hasAdjacentPattern(row) && <Badge variant="secondary">pattern</Badge>}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() =>
+                                setSelectedEmployee({ id: row.user_id, name: row.employee_name })
+                              }
+                            >
+                              View Spells
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AbsenceSpellsSheet
+        employee={selectedEmployee}
+        leaveType={rules?.leave_type ?? null}
+        onOpenChange={(open) => !open && setSelectedEmployee(null)}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default AbsencePatterns;
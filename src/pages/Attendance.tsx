@@ -7,6 +7,25 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useRole } from "@/hooks/useRole";
+import { useAttendanceSettings } from "@/hooks/useAttendanceSettings";
+import { useAttendanceCorrections } from "@/hooks/useAttendanceCorrections";
+import { useActiveDelegation } from "@/hooks/useActiveDelegation";
+import { useAuth } from "@/lib/auth";
+import { ClockWidget } from "@/components/attendance/ClockWidget";
+import { AttendanceSettingsCard } from "@/components/attendance/AttendanceSettingsCard";
+import { CompOffCreditsCard } from "@/components/attendance/CompOffCreditsCard";
+import { ShiftAdherenceCard } from "@/components/attendance/ShiftAdherenceCard";
+import { AttendanceBreaksDialog } from "@/components/attendance/AttendanceBreaksDialog";
+import { OvertimePoliciesCard } from "@/components/attendance/OvertimePoliciesCard";
+import { OvertimeReportCard } from "@/components/attendance/OvertimeReportCard";
+import { formatHours, getSessionHours, type AttendanceBreak } from "@/lib/attendance";
+import { AttendanceCorrectionsCard } from "@/components/attendance/AttendanceCorrectionsCard";
+import { TimesheetCard } from "@/components/attendance/TimesheetCard";
+import { TimesheetApprovalsCard } from "@/components/attendance/TimesheetApprovalsCard";
+import {
+  AttendanceCorrectionDialog,
+  type CorrectableRecord,
+} from "@/components/attendance/AttendanceCorrectionDialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -19,6 +38,7 @@ interface AttendanceRecord {
   clock_in: string;
   clock_out: string | null;
   notes: string | null;
+  attendance_breaks: AttendanceBreak[];
   profiles: {
     name: string;
     email: string;
@@ -29,16 +49,35 @@ interface Employee {
   id: string;
   name: string;
   email: string;
+  department: string | null;
 }
 
 const Attendance = () => {
   const { isAdmin, loading: roleLoading } = useRole();
+  const { user } = useAuth();
+  const { delegation } = useActiveDelegation();
+  const { settings, refetchSettings } = useAttendanceSettings();
+  const {
+    corrections,
+    loading: correctionsLoading,
+    refetchCorrections,
+  } = useAttendanceCorrections();
   const { toast } = useToast();
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedEmployee, setSelectedEmployee] = useState<string>("");
   const [notes, setNotes] = useState("");
+  const [correctionOpen, setCorrectionOpen] = useState(false);
+  const [correctionRecord, setCorrectionRecord] = useState<CorrectableRecord | null>(null);
+  // Kept as an id so the dialog shows the refetched breaks after a change
+  const [breaksRecordId, setBreaksRecordId] = useState<string | null>(null);
+  const [overtimeRefreshKey, setOvertimeRefreshKey] = useState(0);
+  const [timesheetRefreshKey, setTimesheetRefreshKey] = useState(0);
+
+  const departments = [
+    ...new Set(employees.map((employee) => employee.department).filter(Boolean)),
+  ].sort() as string[];
 
   useEffect(() => {
     if (!roleLoading) {
@@ -62,6 +101,12 @@ const Attendance = () => {
           clock_in,
           clock_out,
           notes,
+          attendance_breaks (
+            id,
+            break_type,
+            started_at,
+            ended_at
+          ),
           profiles!attendance_user_id_fkey (
             name,
             email
@@ -77,6 +122,8 @@ const Attendance = () => {
 
       if (error) throw error;
       setAttendanceRecords(data || []);
+      // The timesheet totals follow attendance
+      setTimesheetRefreshKey((key) => key + 1);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -92,7 +139,7 @@ const Attendance = () => {
     try {
       const { data, error } = await supabase
         .from("profiles")
-        .select("id, name, email")
+        .select("id, name, email, department")
         .order("name");
 
       if (error) throw error;
@@ -189,6 +236,12 @@ const Attendance = () => {
     }
   };
 
+  // A null record asks for a day that has no attendance record at all
+  const openCorrection = (record: CorrectableRecord | null) => {
+    setCorrectionRecord(record);
+    setCorrectionOpen(true);
+  };
+
   if (roleLoading || loading) {
     return (
       <DashboardLayout>
@@ -209,6 +262,19 @@ const Attendance = () => {
           </p>
         </div>
 
+        {settings?.self_service_enabled && <ClockWidget onChange={fetchAttendanceRecords} />}
+
+        {isAdmin && settings && (
+          <AttendanceSettingsCard
+            settings={settings}
+            onSaved={() => {
+              refetchSettings();
+              // Pay periods come from these settings
+              setOvertimeRefreshKey((key) => key + 1);
+            }}
+          />
+        )}
+
         {isAdmin && (
           <Card>
             <CardHeader>
@@ -265,18 +331,21 @@ const Attendance = () => {
                     <TableHead>Employee</TableHead>
                     <TableHead>Clock In</TableHead>
                     <TableHead>Clock Out</TableHead>
-                    <TableHead>Duration</TableHead>
+                    <TableHead>Worked</TableHead>
                     <TableHead>Notes</TableHead>
-                    {isAdmin && <TableHead>Actions</TableHead>}
+                    <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {attendanceRecords.map((record) => {
                     const clockIn = new Date(record.clock_in);
                     const clockOut = record.clock_out ? new Date(record.clock_out) : null;
-                    const duration = clockOut
-                      ? Math.round((clockOut.getTime() - clockIn.getTime()) / (1000 * 60 * 60) * 10) / 10
-                      : null;
+                    const hours = getSessionHours(
+                      record.clock_in,
+                      record.clock_out,
+                      record.attendance_breaks
+                    );
+                    const breakHours = hours.paidBreakHours + hours.unpaidBreakHours;
 
                     return (
                       <TableRow key={record.id}>
@@ -295,11 +364,18 @@ const Attendance = () => {
                             </span>
                           )}
                         </TableCell>
-                        <TableCell>{duration ? `${duration} hours` : "-"}</TableCell>
+                        <TableCell>
+                          {hours.netHours !== null ? formatHours(hours.netHours) : "-"}
+                          {breakHours > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatHours(breakHours)} of breaks
+                            </p>
+                          )}
+                        </TableCell>
                         <TableCell>{record.notes || "-"}</TableCell>
-                        {isAdmin && (
-                          <TableCell>
-                            {!record.clock_out && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {isAdmin && !record.clock_out && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -308,8 +384,28 @@ const Attendance = () => {
                                 Clock Out
                               </Button>
                             )}
-                          </TableCell>
-                        )}
+                            {(isAdmin || record.attendance_breaks.length > 0) && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setBreaksRecordId(record.id)}
+                              >
+                                Breaks
+                                {record.attendance_breaks.length > 0 &&
+                                  ` (${record.attendance_breaks.length})`}
+                              </Button>
+                            )}
+                            {record.user_id === user?.id && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => openCorrection(record)}
+                              >
+                                Request Correction
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -318,7 +414,51 @@ const Attendance = () => {
             )}
           </CardContent>
         </Card>
+
+        <TimesheetCard refreshKey={timesheetRefreshKey} />
+
+        {(isAdmin || delegation) && (
+          <TimesheetApprovalsCard isAdmin={isAdmin} onChanged={fetchAttendanceRecords} />
+        )}
+
+        <ShiftAdherenceCard isAdmin={isAdmin} />
+
+        {isAdmin && (
+          <OvertimePoliciesCard
+            departments={departments}
+            onSaved={() => setOvertimeRefreshKey((key) => key + 1)}
+          />
+        )}
+
+        <OvertimeReportCard isAdmin={isAdmin} refreshKey={overtimeRefreshKey} />
+
+        <AttendanceCorrectionsCard
+          isAdmin={isAdmin}
+          corrections={corrections}
+          loading={correctionsLoading}
+          onReportMissingDay={() => openCorrection(null)}
+          onChanged={() => {
+            refetchCorrections();
+            fetchAttendanceRecords();
+          }}
+        />
+
+        <CompOffCreditsCard isAdmin={isAdmin} />
       </div>
+
+      <AttendanceBreaksDialog
+        session={attendanceRecords.find((record) => record.id === breaksRecordId) ?? null}
+        canEdit={isAdmin}
+        onOpenChange={(open) => !open && setBreaksRecordId(null)}
+        onChanged={fetchAttendanceRecords}
+      />
+
+      <AttendanceCorrectionDialog
+        open={correctionOpen}
+        record={correctionRecord}
+        onOpenChange={setCorrectionOpen}
+        onSubmitted={refetchCorrections}
+      />
     </DashboardLayout>
   );
 };
@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { Users, Calendar, ClipboardCheck, UserCheck } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { ClockWidget } from "@/components/attendance/ClockWidget";
+import { useAttendanceSettings } from "@/hooks/useAttendanceSettings";
 
 const Dashboard = () => {
   const [stats, setStats] = useState({
@@ -12,6 +14,7 @@ const Dashboard = () => {
     activeEmployees: 0,
   });
   const [loading, setLoading] = useState(true);
+  const { settings } = useAttendanceSettings();
 
   useEffect(() => {
     const fetchStats = async () => {
@@ -65,6 +68,8 @@ const Dashboard = () => {
           <p className="text-muted-foreground">Welcome to PeopleOps Dashboard</p>
         </div>
 
+        {settings?.self_service_enabled && <ClockWidget />}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {statCards.map((stat) => {
             const Icon = stat.icon;
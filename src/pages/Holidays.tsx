@@ -0,0 +1,488 @@
+import { useEffect, useRef, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useRole } from "@/hooks/useRole";
+import { parseDateOnly } from "@/lib/leaves";
+import { parseIcsHolidays } from "@/lib/ics";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type HolidayCalendar = Database["public"]["Tables"]["holiday_calendars"]["Row"];
+type Holiday = Database["public"]["Tables"]["holidays"]["Row"];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const Holidays = () => {
+  const { isAdmin } = useRole();
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [selectedCalendarId, setSelectedCalendarId] = useState("");
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [calendarDialogOpen, setCalendarDialogOpen] = useState(false);
+  const [editingCalendar, setEditingCalendar] = useState<HolidayCalendar | null>(null);
+  const [isDefault, setIsDefault] = useState(false);
+  const [weekendDays, setWeekendDays] = useState<number[]>([0, 6]);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedCalendar = calendars.find((calendar) => calendar.id === selectedCalendarId);
+
+  const fetchCalendars = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("holiday_calendars")
+        .select("*")
+        .order("is_default", { ascending: false })
+        .order("name");
+
+      if (error) throw error;
+
+      setCalendars(data || []);
+      setSelectedCalendarId((current) =>
+        data?.some((calendar) => calendar.id === current) ? current : data?.[0]?.id || ""
+      );
+    } catch (error) {
+      console.error("Error fetching holiday calendars:", error);
+      toast.error("Failed to load holiday calendars");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHolidays = async () => {
+    if (!selectedCalendarId) {
+      setHolidays([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("holidays")
+        .select("*")
+        .eq("calendar_id", selectedCalendarId)
+        .order("holiday_date");
+
+      if (error) throw error;
+      setHolidays(data || []);
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      toast.error("Failed to load holidays");
+    }
+  };
+
+  useEffect(() => {
+    fetchCalendars();
+  }, []);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [selectedCalendarId]);
+
+  const openCalendarDialog = (calendar: HolidayCalendar | null) => {
+    setEditingCalendar(calendar);
+    setIsDefault(calendar?.is_default ?? false);
+    setWeekendDays(calendar?.weekend_days ?? [0, 6]);
+    setCalendarDialogOpen(true);
+  };
+
+  const toggleWeekendDay = (day: number, checked: boolean) => {
+    setWeekendDays((current) =>
+      checked ? [...current, day].sort((a, b) => a - b) : current.filter((value) => value !== day)
+    );
+  };
+
+  const handleSaveCalendar = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.currentTarget);
+    const calendarData = {
+      name: formData.get("name") as string,
+      department: (formData.get("department") as string) || null,
+      is_default: isDefault,
+      weekend_days: weekendDays,
+      work_hours_per_day: Number(formData.get("work_hours_per_day") || 8),
+    };
+
+    try {
+      // Only one calendar can be the default
+      if (isDefault && !editingCalendar?.is_default) {
+        const { error } = await supabase
+          .from("holiday_calendars")
+          .update({ is_default: false })
+          .eq("is_default", true);
+
+        if (error) throw error;
+      }
+
+      const { error } = editingCalendar
+        ? await supabase.from("holiday_calendars").update(calendarData).eq("id", editingCalendar.id)
+        : await supabase.from("holiday_calendars").insert([calendarData]);
+
+      if (error) throw error;
+
+      toast.success(editingCalendar ? "Calendar updated" : "Calendar created");
+      setCalendarDialogOpen(false);
+      fetchCalendars();
+    } catch (error) {
+      console.error("Error saving calendar:", error);
+      toast.error("Failed to save calendar");
+    }
+  };
+
+  const handleDeleteCalendar = async () => {
+    if (!selectedCalendar) return;
+
+    if (selectedCalendar.is_default) {
+      toast.error("Make another calendar the default before deleting this one");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("holiday_calendars")
+        .delete()
+        .eq("id", selectedCalendar.id);
+
+      if (error) throw error;
+
+      toast.success("Calendar deleted");
+      fetchCalendars();
+    } catch (error) {
+      console.error("Error deleting calendar:", error);
+      toast.error("Failed to delete calendar");
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    try {
+      const { error } = await supabase.from("holidays").insert([
+        {
+          calendar_id: selectedCalendarId,
+          name: formData.get("name") as string,
+          holiday_date: formData.get("holiday_date") as string,
+        },
+      ]);
+
+      if (error) throw error;
+
+      toast.success("Holiday added");
+      form.reset();
+      fetchHolidays();
+    } catch (error) {
+      console.error("Error adding holiday:", error);
+      toast.error("Failed to add holiday. Is that date already a holiday?");
+    }
+  };
+
+  const handleDeleteHoliday = async (holidayId: string) => {
+    try {
+      const { error } = await supabase.from("holidays").delete().eq("id", holidayId);
+
+      if (error) throw error;
+
+      fetchHolidays();
+    } catch (error) {
+      console.error("Error deleting holiday:", error);
+      toast.error("Failed to delete holiday");
+    }
+  };
+
+  const handleImportIcs = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !selectedCalendarId) return;
+
+    setImporting(true);
+
+    try {
+      const parsed = parseIcsHolidays(await file.text());
+      if (parsed.length === 0) {
+        toast.error("No events found in this file");
+        return;
+      }
+
+      // Existing dates are kept as they are
+      const { data, error } = await supabase
+        .from("holidays")
+        .upsert(
+          parsed.map((holiday) => ({ ...holiday, calendar_id: selectedCalendarId })),
+          { onConflict: "calendar_id,holiday_date", ignoreDuplicates: true }
+        )
+        .select("id");
+
+      if (error) throw error;
+
+      // Only inserted rows come back; the rest were dates already on the calendar
+      const imported = data?.length ?? 0;
+      const skipped = parsed.length - imported;
+      toast.success(
+        `Imported ${imported} holidays from ${file.name}${
+          skipped > 0 ? `, skipped ${skipped} already on the calendar` : ""
+        }`
+      );
+      fetchHolidays();
+    } catch (error) {
+      console.error("Error importing holidays:", error);
+      toast.error("Failed to import holidays");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Holidays</h1>
+            <p className="text-muted-foreground">
+              Public holidays and weekends are not counted as leave days
+            </p>
+          </div>
+          {isAdmin && (
+            <Button onClick={() => openCalendarDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Calendar
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex flex-wrap items-center gap-4">
+              <Select value={selectedCalendarId} onValueChange={setSelectedCalendarId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Select calendar" />
+                </SelectTrigger>
+                <SelectContent>
+                  {calendars.map((calendar) => (
+                    <SelectItem key={calendar.id} value={calendar.id}>
+                      {calendar.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedCalendar && (
+                <div className="flex items-center gap-2 text-sm font-normal text-muted-foreground">
+                  {selectedCalendar.is_default && <Badge>Default</Badge>}
+                  {selectedCalendar.department && (
+                    <Badge variant="secondary">{selectedCalendar.department}</Badge>
+                  )}
+                  <span>
+                    Weekend:{" "}
+                    {selectedCalendar.weekend_days.map((day) => WEEKDAYS[day]).join(", ") || "none"}
+                    {" · "}
+                    {selectedCalendar.work_hours_per_day}h working day
+                  </span>
+                </div>
+              )}
+              {isAdmin && selectedCalendar && (
+                <div className="ml-auto flex gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".ics,text/calendar"
+                    className="hidden"
+                    onChange={handleImportIcs}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={importing}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    {importing ? "Importing..." : "Import .ics"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => openCalendarDialog(selectedCalendar)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={handleDeleteCalendar}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isAdmin && selectedCalendar && (
+              <form onSubmit={handleAddHoliday} className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="holiday_name">Holiday</Label>
+                  <Input id="holiday_name" name="name" placeholder="e.g. New Year's Day" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="holiday_date">Date</Label>
+                  <Input id="holiday_date" name="holiday_date" type="date" required />
+                </div>
+                <Button type="submit">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Holiday
+                </Button>
+              </form>
+            )}
+
+            {loading ? (
+              <div className="space-y-4">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : holidays.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No holidays in this calendar
+              </p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Day</TableHead>
+                      <TableHead>Holiday</TableHead>
+                      {isAdmin && <TableHead>Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holidays.map((holiday) => {
+                      const date = parseDateOnly(holiday.holiday_date);
+
+                      return (
+                        <TableRow key={holiday.id}>
+                          <TableCell>{date.toLocaleDateString()}</TableCell>
+                          <TableCell>{WEEKDAYS[date.getDay()]}</TableCell>
+                          <TableCell className="font-medium">{holiday.name}</TableCell>
+                          {isAdmin && (
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteHoliday(holiday.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={calendarDialogOpen} onOpenChange={setCalendarDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSaveCalendar}>
+            <DialogHeader>
+              <DialogTitle>{editingCalendar ? "Edit Calendar" : "New Calendar"}</DialogTitle>
+              <DialogDescription>
+                Employees use their department's calendar, or the default one
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="calendar_name">Name</Label>
+                <Input
+                  id="calendar_name"
+                  name="name"
+                  defaultValue={editingCalendar?.name}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calendar_department">Department (Optional)</Label>
+                <Input
+                  id="calendar_department"
+                  name="department"
+                  placeholder="Leave empty for no department"
+                  defaultValue={editingCalendar?.department ?? ""}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="work_hours_per_day">Working Hours per Day</Label>
+                <Input
+                  id="work_hours_per_day"
+                  name="work_hours_per_day"
+                  type="number"
+                  min={1}
+                  max={24}
+                  step={0.5}
+                  defaultValue={editingCalendar?.work_hours_per_day ?? 8}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Weekend Days</Label>
+                <div className="flex flex-wrap gap-4">
+                  {WEEKDAYS.map((label, day) => (
+                    <label key={label} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={weekendDays.includes(day)}
+                        onCheckedChange={(checked) => toggleWeekendDay(day, checked === true)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="is_default">Default calendar</Label>
+                <Switch id="is_default" checked={isDefault} onCheckedChange={setIsDefault} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit">Save Calendar</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default Holidays;
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import {
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/lib/auth";
+import { useRole } from "@/hooks/useRole";
+import { useLeaveCoverage } from "@/hooks/useLeaveCoverage";
+import { useLeaveRevisions } from "@/hooks/useLeaveRevisions";
+import {
+  TeamCalendarGrid,
+  type TeamCalendarEntry,
+  type TeamCalendarView,
+} from "@/components/leaves/TeamCalendarGrid";
+import { ReviewLeaveDialog, type ReviewDecision } from "@/components/leaves/ReviewLeaveDialog";
+import {
+  formatLeaveDuration,
+  getLeaveTypeColorStyle,
+  parseDateOnly,
+  toDateOnly,
+} from "@/lib/leaves";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import { submitLeaveReview } from "@/lib/leaveReview";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ALL_DEPARTMENTS = "all";
+
+const LeaveCalendar = () => {
+  const { user } = useAuth();
+  const { isAdmin } = useRole();
+  const { activeLeaveTypes, getLeaveTypeName } = useLeaveTypes();
+  const [view, setView] = useState<TeamCalendarView>("month");
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [entries, setEntries] = useState<TeamCalendarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedEntry, setSelectedEntry] = useState<TeamCalendarEntry | null>(null);
+  const [decision, setDecision] = useState<ReviewDecision | null>(null);
+  const { conflicts: coverageConflicts } = useLeaveCoverage(
+    decision === "approved" ? selectedEntry?.id ?? null : null
+  );
+  const { revisions } = useLeaveRevisions(decision ? selectedEntry?.id ?? null : null);
+
+  // The grid always shows whole weeks, so fetch from the first to the last visible day
+  const rangeStart =
+    view === "month" ? startOfWeek(startOfMonth(anchorDate)) : startOfWeek(anchorDate);
+  const rangeEnd = view === "month" ? endOfWeek(endOfMonth(anchorDate)) : endOfWeek(anchorDate);
+  const rangeStartKey = toDateOnly(rangeStart);
+  const rangeEndKey = toDateOnly(rangeEnd);
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase.rpc("get_team_leave_calendar", {
+        _start_date: rangeStartKey,
+        _end_date: rangeEndKey,
+        _department: department === ALL_DEPARTMENTS ? null : department,
+      });
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error("Error fetching team calendar:", error);
+      toast.error("Failed to load team calendar");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchEntries();
+    }
+  }, [user, rangeStartKey, rangeEndKey, department]);
+
+  useEffect(() => {
+    const fetchDepartments = async () => {
+      const { data, error } = await supabase.from("profiles").select("department");
+
+      if (error) {
+        console.error("Error fetching departments:", error);
+        return;
+      }
+      const unique = new Set(
+        (data || []).map((profile) => profile.department).filter(Boolean) as string[]
+      );
+      setDepartments([...unique].sort());
+    };
+
+    if (isAdmin) {
+      fetchDepartments();
+    }
+  }, [isAdmin]);
+
+  const shiftAnchor = (direction: 1 | -1) => {
+    setAnchorDate((current) =>
+      view === "month" ? addMonths(current, direction) : addWeeks(current, direction)
+    );
+  };
+
+  const handleReview = async (notes: string) => {
+    if (!selectedEntry || !decision) return;
+
+    try {
+      const { error } = await submitLeaveReview(selectedEntry.id, decision, notes, user?.id);
+
+      if (error) throw error;
+
+      toast.success(decision === "approved" ? "Leave approved" : "Leave rejected");
+      setSelectedEntry(null);
+      setDecision(null);
+      fetchEntries();
+    } catch (error) {
+      console.error("Error reviewing leave:", error);
+      toast.error(
+        (error as { message?: string })?.message ||
+          (decision === "approved" ? "Failed to approve leave" : "Failed to reject leave")
+      );
+    }
+  };
+
+  const title =
+    view === "month"
+      ? format(anchorDate, "MMMM yyyy")
+      : `${format(rangeStart, "d MMM")} – ${format(rangeEnd, "d MMM yyyy")}`;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Team Calendar</h1>
+          <p className="text-muted-foreground">
+            {isAdmin
+              ? "Approved and pending leave across the company"
+              : "Approved and pending leave in your department"}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => shiftAnchor(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => shiftAnchor(1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setAnchorDate(new Date())}>
+                  Today
+                </Button>
+                <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {isAdmin && (
+                  <Select value={department} onValueChange={setDepartment}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                      {departments.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Tabs value={view} onValueChange={(value) => setView(value as TeamCalendarView)}>
+                  <TabsList>
+                    <TabsTrigger value="month">Month</TabsTrigger>
+                    <TabsTrigger value="week">Week</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {activeLeaveTypes.map((type) => (
+                <span
+                  key={type.key}
+                  className="rounded border px-2 py-0.5"
+                  style={getLeaveTypeColorStyle(type.color)}
+                >
+                  {type.name}
+                </span>
+              ))}
+              <span className="rounded border border-dashed px-2 py-0.5 text-muted-foreground">
+                Pending
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Skeleton className="h-[480px] w-full" />
+            ) : (
+              <TeamCalendarGrid
+                entries={entries}
+                view={view}
+                anchorDate={anchorDate}
+                onEntryClick={isAdmin ? setSelectedEntry : undefined}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog
+        open={selectedEntry !== null && decision === null}
+        onOpenChange={(open) => !open && setSelectedEntry(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedEntry?.employee_name}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry?.department || "No department"} · Pending approval
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="space-y-1 text-sm">
+              <p>{getLeaveTypeName(selectedEntry.type)}</p>
+              <p>
+                {parseDateOnly(selectedEntry.start_date).toLocaleDateString()}
+                {selectedEntry.end_date !== selectedEntry.start_date &&
+                  ` - ${parseDateOnly(selectedEntry.end_date).toLocaleDateString()}`}
+              </p>
+              <p className="text-muted-foreground">{formatLeaveDuration(selectedEntry)}</p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision("rejected")}>
+              Reject
+            </Button>
+            <Button onClick={() => setDecision("approved")}>Approve</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ReviewLeaveDialog
+        decision={decision}
+        summary={
+          selectedEntry
+            ? `${selectedEntry.employee_name} · ${
+                getLeaveTypeName(selectedEntry.type)
+              } · ${formatLeaveDuration(selectedEntry)}`
+            : ""
+        }
+        coverageConflicts={coverageConflicts}
+        revisions={revisions}
+        onOpenChange={(open) => !open && setDecision(null)}
+        onConfirm={handleReview}
+      />
+    </DashboardLayout>
+  );
+};
+
+export default LeaveCalendar;
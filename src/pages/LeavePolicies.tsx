@@ -0,0 +1,460 @@
+import { useEffect, useState } from "react";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarOff, Pencil, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useRole } from "@/hooks/useRole";
+import { useLeavePolicies } from "@/hooks/useLeavePolicies";
+import { LeaveTypesCard } from "@/components/leaves/LeaveTypesCard";
+import { CoverageRulesCard } from "@/components/leaves/CoverageRulesCard";
+import { CarryOverRulesCard } from "@/components/leaves/CarryOverRulesCard";
+import { CompOffRulesCard } from "@/components/leaves/CompOffRulesCard";
+import { useLeaveTypes } from "@/lib/leaveTypes";
+import type { LeavePolicy } from "@/lib/leavePolicy";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ALL_DEPARTMENTS = "all";
+
+const LeavePolicies = () => {
+  const { isAdmin, loading: roleLoading } = useRole();
+  const { policies, loading, refetchPolicies } = useLeavePolicies();
+  const { leaveTypes, getLeaveTypeName } = useLeaveTypes();
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LeavePolicy | null>(null);
+  const [leaveType, setLeaveType] = useState("");
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [reasonRequired, setReasonRequired] = useState(true);
+  const [attachmentRequired, setAttachmentRequired] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [blackoutPolicyId, setBlackoutPolicyId] = useState<string | null>(null);
+
+  const blackoutPolicy = policies.find((policy) => policy.id === blackoutPolicyId) || null;
+
+  useEffect(() => {
+    const fetchDepartments = async () => {
+      const { data, error } = await supabase.from("profiles").select("department");
+
+      if (error) {
+        console.error("Error fetching departments:", error);
+        return;
+      }
+      const unique = new Set(
+        (data || []).map((profile) => profile.department).filter(Boolean) as string[]
+      );
+      setDepartments([...unique].sort());
+    };
+
+    if (isAdmin) {
+      fetchDepartments();
+    }
+  }, [isAdmin]);
+
+  const openPolicyDialog = (policy: LeavePolicy | null) => {
+    setEditingPolicy(policy);
+    setLeaveType(policy?.leave_type || "");
+    setDepartment(policy?.department || ALL_DEPARTMENTS);
+    setReasonRequired(policy?.reason_required ?? true);
+    setAttachmentRequired(policy?.attachment_required ?? false);
+    setPolicyDialogOpen(true);
+  };
+
+  const handleSavePolicy = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const formData = new FormData(e.currentTarget);
+    const maxConsecutive = formData.get("max_consecutive_days") as string;
+    const policyData = {
+      leave_type: leaveType,
+      department: department === ALL_DEPARTMENTS ? null : department,
+      min_notice_days: Number(formData.get("min_notice_days") || 0),
+      max_consecutive_days: maxConsecutive ? Number(maxConsecutive) : null,
+      reason_required: reasonRequired,
+      attachment_required: attachmentRequired,
+    };
+
+    try {
+      const { error } = editingPolicy
+        ? await supabase.from("leave_policies").update(policyData).eq("id", editingPolicy.id)
+        : await supabase.from("leave_policies").insert([policyData]);
+
+      if (error) throw error;
+
+      toast.success(editingPolicy ? "Policy updated" : "Policy created");
+      setPolicyDialogOpen(false);
+      refetchPolicies();
+    } catch (error) {
+      console.error("Error saving policy:", error);
+      toast.error("Failed to save policy. Only one policy per leave type and department is allowed.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePolicy = async (policyId: string) => {
+    try {
+      const { error } = await supabase.from("leave_policies").delete().eq("id", policyId);
+
+      if (error) throw error;
+
+      toast.success("Policy deleted");
+      refetchPolicies();
+    } catch (error) {
+      console.error("Error deleting policy:", error);
+      toast.error("Failed to delete policy");
+    }
+  };
+
+  const handleAddBlackout = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!blackoutPolicyId) return;
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    try {
+      const { error } = await supabase.from("leave_blackout_periods").insert([
+        {
+          policy_id: blackoutPolicyId,
+          name: formData.get("name") as string,
+          start_date: formData.get("start_date") as string,
+          end_date: formData.get("end_date") as string,
+        },
+      ]);
+
+      if (error) throw error;
+
+      toast.success("Blackout period added");
+      form.reset();
+      refetchPolicies();
+    } catch (error) {
+      console.error("Error adding blackout period:", error);
+      toast.error("Failed to add blackout period");
+    }
+  };
+
+  const handleDeleteBlackout = async (blackoutId: string) => {
+    try {
+      const { error } = await supabase
+        .from("leave_blackout_periods")
+        .delete()
+        .eq("id", blackoutId);
+
+      if (error) throw error;
+
+      refetchPolicies();
+    } catch (error) {
+      console.error("Error deleting blackout period:", error);
+      toast.error("Failed to delete blackout period");
+    }
+  };
+
+  if (!roleLoading && !isAdmin) {
+    return (
+      <DashboardLayout>
+        <p className="text-center text-muted-foreground py-8">
+          Only admins can manage leave policies
+        </p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Leave Policies</h1>
+            <p className="text-muted-foreground">
+              Leave types, notice periods, limits, blackout dates and team coverage per department
+            </p>
+          </div>
+          <Button onClick={() => openPolicyDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Policy
+          </Button>
+        </div>
+
+        <LeaveTypesCard />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Policies</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-4">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : policies.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                No leave policies defined. Requests only need a reason and valid dates.
+              </p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Leave Type</TableHead>
+                      <TableHead>Department</TableHead>
+                      <TableHead>Notice</TableHead>
+                      <TableHead>Max Consecutive</TableHead>
+                      <TableHead>Requirements</TableHead>
+                      <TableHead>Blackouts</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {policies.map((policy) => (
+                      <TableRow key={policy.id}>
+                        <TableCell className="font-medium">
+                          {getLeaveTypeName(policy.leave_type)}
+                        </TableCell>
+                        <TableCell>{policy.department || "All departments"}</TableCell>
+                        <TableCell>{policy.min_notice_days} days</TableCell>
+                        <TableCell>
+                          {policy.max_consecutive_days !== null
+                            ? `${policy.max_consecutive_days} days`
+                            : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            {policy.reason_required && <Badge variant="secondary">Reason</Badge>}
+                            {policy.attachment_required && (
+                              <Badge variant="secondary">Attachment</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setBlackoutPolicyId(policy.id)}
+                          >
+                            <CalendarOff className="h-4 w-4 mr-1" />
+                            {policy.leave_blackout_periods.length}
+                          </Button>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openPolicyDialog(policy)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeletePolicy(policy.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <CoverageRulesCard departments={departments} />
+
+        <CarryOverRulesCard />
+
+        <CompOffRulesCard />
+      </div>
+
+      <Dialog open={policyDialogOpen} onOpenChange={setPolicyDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSavePolicy}>
+            <DialogHeader>
+              <DialogTitle>{editingPolicy ? "Edit Policy" : "Add Policy"}</DialogTitle>
+              <DialogDescription>
+                A department policy takes precedence over the company-wide one
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="policy_leave_type">Leave Type</Label>
+                  <Select value={leaveType} onValueChange={setLeaveType} required>
+                    <SelectTrigger id="policy_leave_type">
+                      <SelectValue placeholder="Select leave type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {leaveTypes.map((type) => (
+                        <SelectItem key={type.key} value={type.key}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="policy_department">Department</Label>
+                  <Select value={department} onValueChange={setDepartment}>
+                    <SelectTrigger id="policy_department">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                      {departments.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="min_notice_days">Minimum Notice (days)</Label>
+                  <Input
+                    id="min_notice_days"
+                    name="min_notice_days"
+                    type="number"
+                    min={0}
+                    defaultValue={editingPolicy?.min_notice_days ?? 0}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_consecutive_days">Max Consecutive Days</Label>
+                  <Input
+                    id="max_consecutive_days"
+                    name="max_consecutive_days"
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    defaultValue={editingPolicy?.max_consecutive_days ?? ""}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="reason_required">Reason required</Label>
+                <Switch
+                  id="reason_required"
+                  checked={reasonRequired}
+                  onCheckedChange={setReasonRequired}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="attachment_required">Attachment required</Label>
+                <Switch
+                  id="attachment_required"
+                  checked={attachmentRequired}
+                  onCheckedChange={setAttachmentRequired}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || !leaveType}>
+                {saving ? "Saving..." : "Save Policy"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={blackoutPolicy !== null}
+        onOpenChange={(open) => !open && setBlackoutPolicyId(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Blackout Periods</DialogTitle>
+            <DialogDescription>
+              {blackoutPolicy &&
+                `${getLeaveTypeName(blackoutPolicy.leave_type)} · ${
+                  blackoutPolicy.department || "All departments"
+                }`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {blackoutPolicy?.leave_blackout_periods.length === 0 && (
+              <p className="text-sm text-muted-foreground">No blackout periods</p>
+            )}
+            {blackoutPolicy?.leave_blackout_periods.map((period) => (
+              <div
+                key={period.id}
+                className="flex items-center justify-between rounded-md border p-2"
+              >
+                <div>
+                  <p className="font-medium">{period.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {period.start_date} to {period.end_date}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDeleteBlackout(period.id)}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <form onSubmit={handleAddBlackout} className="space-y-4 border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="blackout_name">Name</Label>
+              <Input id="blackout_name" name="name" placeholder="e.g. Year-end close" required />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="blackout_start">Start Date</Label>
+                <Input id="blackout_start" name="start_date" type="date" required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blackout_end">End Date</Label>
+                <Input id="blackout_end" name="end_date" type="date" required />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit">Add Blackout</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default LeavePolicies;
@@ -2,7 +2,18 @@ import { useEffect, useState } from "react";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Plus, Check, X } from "lucide-react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Ban,
+  Check,
+  MessageSquare,
+  Pencil,
+  Undo2,
+  UserCheck,
+  X,
+} from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/lib/auth";
 import { useRole } from "@/hooks/useRole";
@@ -17,17 +28,43 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { LeaveBalanceCards } from "@/components/leaves/LeaveBalanceCards";
+import { LedgerEntryDialog } from "@/components/leaves/LedgerEntryDialog";
+import { ApprovalDelegationDialog } from "@/components/leaves/ApprovalDelegationDialog";
+import { YearEndRolloverDialog } from "@/components/leaves/YearEndRolloverDialog";
+import { LeaveRequestDialog } from "@/components/leaves/LeaveRequestDialog";
+import { CalendarExportDialog } from "@/components/leaves/CalendarExportDialog";
+import { CancellationRequestDialog } from "@/components/leaves/CancellationRequestDialog";
+import { ReviewLeaveDialog, type ReviewDecision } from "@/components/leaves/ReviewLeaveDialog";
+import { useLeaveBalances } from "@/hooks/useLeaveBalances";
+import { useLeaveCoverage } from "@/hooks/useLeaveCoverage";
+import { useLeaveRevisions } from "@/hooks/useLeaveRevisions";
+import { useUnreadLeaveComments } from "@/hooks/useUnreadLeaveComments";
+import { useActiveDelegation } from "@/hooks/useActiveDelegation";
+import { LEAVES_PAGE_SIZE, useLeaveFilters, type LeaveSortColumn } from "@/hooks/useLeaveFilters";
+import { submitBulkLeaveReview, submitLeaveReview } from "@/lib/leaveReview";
+import type { LeaveAttachment } from "@/lib/leaveAttachments";
+import { LeaveAttachmentsCell } from "@/components/leaves/LeaveAttachmentsCell";
+import { LeaveTypeBadge } from "@/components/leaves/LeaveTypeBadge";
+import { LeaveDetailsSheet } from "@/components/leaves/LeaveDetailsSheet";
+import { LeaveFiltersBar } from "@/components/leaves/LeaveFiltersBar";
+import { LeavesPagination } from "@/components/leaves/LeavesPagination";
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog";
-import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
+  BulkReviewResultsDialog,
+  type BulkReviewResult,
+} from "@/components/leaves/BulkReviewResultsDialog";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -35,66 +72,224 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
+import {
+  formatLeaveDuration,
+  getLeaveYear,
+  parseDateOnly,
+  type HalfDayPeriod,
+  type LeaveDurationUnit,
+  type LeaveStatus,
+  type LeaveType,
+} from "@/lib/leaves";
+import { useLeaveTypes } from "@/lib/leaveTypes";
 
 interface Leave {
   id: string;
-  type: string;
+  user_id: string;
+  type: LeaveType;
   start_date: string;
   end_date: string;
+  duration_days: number;
+  duration_unit: LeaveDurationUnit;
+  half_day_period: HalfDayPeriod | null;
+  hours: number | null;
   reason: string;
-  status: string;
+  status: LeaveStatus;
   review_notes: string | null;
+  reviewed_at: string | null;
+  cancellation_requested_at: string | null;
+  cancellation_reason: string | null;
   created_at: string;
   profiles: {
     name: string;
   };
+  reviewer: {
+    name: string;
+  } | null;
+  on_behalf_of: {
+    name: string;
+  } | null;
+  leave_attachments: LeaveAttachment[];
 }
 
 const Leaves = () => {
   const { user } = useAuth();
   const { isAdmin } = useRole();
+  const { delegation } = useActiveDelegation();
+  const { getLeaveTypeName } = useLeaveTypes();
+  // Delegates stand in for an admin on approve/reject only
+  const canReview = isAdmin || delegation !== null;
   const [leaves, setLeaves] = useState<Leave[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
-  const [dialogOpen, setDialogOpen] = useState(false);
-  const [submitting, setSubmitting] = useState(false);
-  const [leaveType, setLeaveType] = useState("");
+  const {
+    filters,
+    hasFilters,
+    sort,
+    direction,
+    page,
+    setFilter,
+    clearFilters,
+    toggleSort,
+    setPage,
+    getPageHref,
+    queryKey,
+  } = useLeaveFilters();
+  // Own pending requests, fetched apart from the paged table so balances stay right
+  const [ownPendingLeaves, setOwnPendingLeaves] = useState<
+    Pick<Leave, "type" | "start_date" | "duration_days">[]
+  >([]);
+  const [leaveToWithdraw, setLeaveToWithdraw] = useState<string | null>(null);
+  const [leaveToCancel, setLeaveToCancel] = useState<string | null>(null);
+  const [leaveToEdit, setLeaveToEdit] = useState<Leave | null>(null);
+  const [detailsLeave, setDetailsLeave] = useState<Leave | null>(null);
+  const [reviewTarget, setReviewTarget] = useState<{
+    leave: Leave;
+    decision: ReviewDecision;
+  } | null>(null);
+  const [selectedLeaveIds, setSelectedLeaveIds] = useState<string[]>([]);
+  const [bulkDecision, setBulkDecision] = useState<ReviewDecision | null>(null);
+  const [bulkResults, setBulkResults] = useState<BulkReviewResult[] | null>(null);
+  const { conflicts: coverageConflicts } = useLeaveCoverage(
+    reviewTarget?.decision === "approved" ? reviewTarget.leave.id : null
+  );
+  const { revisions } = useLeaveRevisions(reviewTarget?.leave.id ?? null);
+  const { unreadCounts, refetchUnreadCounts } = useUnreadLeaveComments();
+  const currentLeaveYear = new Date().getFullYear();
+  const { balances, loading: balancesLoading, getBalance, refetchBalances } =
+    useLeaveBalances(user?.id, currentLeaveYear);
+  // Balance summary being looked at; admins can pick any employee and past years
+  const [summaryYear, setSummaryYear] = useState(currentLeaveYear);
+  const [summaryUserId, setSummaryUserId] = useState<string | undefined>(undefined);
+  const [employees, setEmployees] = useState<
+    { id: string; name: string; department: string | null }[]
+  >([]);
+  const departments = [
+    ...new Set(employees.map((employee) => employee.department).filter(Boolean)),
+  ].sort();
+  const summaryOwnerId = summaryUserId ?? user?.id;
+  const isOwnCurrentSummary = summaryOwnerId === user?.id && summaryYear === currentLeaveYear;
+  const {
+    balances: summaryBalances,
+    loading: summaryLoading,
+    refetchBalances: refetchSummaryBalances,
+  } = useLeaveBalances(summaryOwnerId, summaryYear);
+  const summaryYears = [0, 1, 2, 3].map((offset) => currentLeaveYear - offset);
+
+  // Days already requested but not yet decided count against what is available
+  const pendingDays = ownPendingLeaves
+    .filter((leave) => getLeaveYear(leave.start_date) === currentLeaveYear)
+    .reduce<Partial<Record<LeaveType, number>>>((totals, leave) => {
+      totals[leave.type] = (totals[leave.type] || 0) + leave.duration_days;
+      return totals;
+    }, {});
+
+  // Returns the remaining days for a type, or null when the type has no balance tracked
+  const getAvailableDays = (type: LeaveType, leaveYear: number) => {
+    if (leaveYear !== currentLeaveYear) return null;
+    const balance = getBalance(type);
+    if (!balance) return null;
+    return balance.balance_days - (pendingDays[type] || 0);
+  };
+
+  const fetchOwnPendingLeaves = async () => {
+    const { data, error } = await supabase
+      .from("leaves")
+      .select("type, start_date, duration_days")
+      .eq("user_id", user?.id)
+      .eq("status", "pending");
+
+    if (error) {
+      console.error("Error fetching pending leaves:", error);
+      return;
+    }
+    setOwnPendingLeaves(data || []);
+  };
 
   const fetchLeaves = async () => {
+    fetchOwnPendingLeaves();
+
     try {
+      // The department filter has to match the employee, so the join becomes an inner one
+      const employeeJoin = filters.department
+        ? "profiles!leaves_user_id_fkey!inner(name, department)"
+        : "profiles!leaves_user_id_fkey(name, department)";
+
       let query = supabase
         .from("leaves")
-        .select(`
+        .select(
+          `
           id,
           type,
           start_date,
           end_date,
+          duration_days,
+          duration_unit,
+          half_day_period,
+          hours,
           reason,
           status,
           review_notes,
+          reviewed_at,
+          cancellation_requested_at,
+          cancellation_reason,
           created_at,
           user_id,
-          profiles!leaves_user_id_fkey(name)
-        `)
-        .order("created_at", { ascending: false });
+          ${employeeJoin},
+          reviewer:profiles!leaves_reviewed_by_fkey(name),
+          on_behalf_of:profiles!leaves_reviewed_on_behalf_of_fkey(name),
+          leave_attachments(*)
+        `,
+          { count: "exact" }
+        )
+        .order(sort, { ascending: direction === "asc" });
+
+      // Keeps rows with the same sort value in a stable order across pages
+      if (sort !== "created_at") {
+        query = query.order("created_at", { ascending: false });
+      }
 
-      // If not admin, only show own leaves
-      if (!isAdmin) {
+      // Unless reviewing, only show own leaves
+      if (!canReview) {
         query = query.eq("user_id", user?.id);
+      } else if (filters.employee) {
+        query = query.eq("user_id", filters.employee);
+      }
+      if (canReview && filters.department) {
+        query = query.eq("profiles.department", filters.department);
+      }
+      if (filters.status) {
+        query = query.eq("status", filters.status);
+      }
+      if (filters.type) {
+        query = query.eq("type", filters.type);
+      }
+      // Any leave overlapping the range, not only the ones contained in it
+      if (filters.from) {
+        query = query.gte("end_date", filters.from);
+      }
+      if (filters.to) {
+        query = query.lte("start_date", filters.to);
       }
 
-      const { data, error } = await query;
+      const { data, count, error } = await query.range(
+        (page - 1) * LEAVES_PAGE_SIZE,
+        page * LEAVES_PAGE_SIZE - 1
+      );
 
-      if (error) {
-        console.error("Error fetching leaves:", error);
-        toast.error(`Failed to load leaves: ${error.message}`);
-        throw error;
+      // A bookmarked page past the end of the results
+      if (error?.code === "PGRST103") {
+        setPage(1);
+        return;
       }
 
-      setLeaves((data as any) || []);
-    } catch (error: any) {
+      if (error) throw error;
+
+      setLeaves((data as unknown as Leave[]) || []);
+      setTotalCount(count ?? 0);
+    } catch (error) {
       console.error("Error fetching leaves:", error);
-      toast.error(error?.message || "Failed to load leaves");
+      toast.error((error as { message?: string })?.message || "Failed to load leaves");
     } finally {
       setLoading(false);
     }
@@ -104,100 +299,305 @@ const Leaves = () => {
     if (user) {
       fetchLeaves();
     }
-  }, [user, isAdmin]);
-
-  const handleSubmitLeave = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setSubmitting(true);
-
-    const formData = new FormData(e.currentTarget);
-    const leaveData = {
-      user_id: user?.id,
-      type: leaveType as "sick" | "vacation" | "personal" | "other",
-      start_date: formData.get("start_date") as string,
-      end_date: formData.get("end_date") as string,
-      reason: formData.get("reason") as string,
+  }, [user, canReview, queryKey]);
+
+  // A selection only makes sense for the rows it was made on
+  useEffect(() => {
+    setSelectedLeaveIds([]);
+  }, [queryKey]);
+
+  useEffect(() => {
+    const fetchEmployees = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, name, department")
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching employees:", error);
+        return;
+      }
+      setEmployees(data || []);
     };
 
+    if (canReview) {
+      fetchEmployees();
+    }
+  }, [canReview]);
+
+  const refreshAllBalances = () => {
+    refetchBalances();
+    refetchSummaryBalances();
+  };
+
+  const handleReview = async (notes: string) => {
+    if (!reviewTarget) return;
+    const { leave, decision } = reviewTarget;
+
     try {
-      const { error } = await supabase.from("leaves").insert([leaveData]);
+      const { error } = await submitLeaveReview(leave.id, decision, notes, user?.id);
+
+      if (error) throw error;
+
+      toast.success(decision === "approved" ? "Leave approved" : "Leave rejected");
+      setReviewTarget(null);
+      fetchLeaves();
+      refreshAllBalances();
+    } catch (error) {
+      console.error("Error reviewing leave:", error);
+      // Overlaps with the employee's other leave are reported by the database
+      toast.error(
+        (error as { message?: string })?.message ||
+          (decision === "approved" ? "Failed to approve leave" : "Failed to reject leave")
+      );
+    }
+  };
+
+  const canReviewLeave = (leave: Leave) =>
+    leave.status === "pending" && (isAdmin || (canReview && leave.user_id !== user?.id));
+  const selectableLeaveIds = leaves.filter(canReviewLeave).map((leave) => leave.id);
+  const allSelected =
+    selectableLeaveIds.length > 0 && selectedLeaveIds.length === selectableLeaveIds.length;
+
+  const toggleLeaveSelection = (leaveId: string, checked: boolean) => {
+    setSelectedLeaveIds((current) =>
+      checked ? [...current, leaveId] : current.filter((id) => id !== leaveId)
+    );
+  };
+
+  const handleBulkReview = async (notes: string) => {
+    if (!bulkDecision) return;
+
+    try {
+      const { data, error } = await submitBulkLeaveReview(selectedLeaveIds, bulkDecision, notes);
+
+      if (error) throw error;
+
+      const results = data.map((result) => {
+        const leave = leaves.find((item) => item.id === result.leave_id);
+        return {
+          leaveId: result.leave_id,
+          label: leave
+            ? `${leave.profiles.name} · ${getLeaveTypeName(leave.type)} · ${new Date(
+                leave.start_date
+              ).toLocaleDateString()}`
+            : result.leave_id,
+          success: result.success,
+          errorMessage: result.error_message,
+        };
+      });
+
+      // Nothing is applied if any row fails, so keep every unapplied leave selected
+      // for a retry once the failures are fixed or deselected
+      setSelectedLeaveIds(
+        results.filter((result) => !result.success).map((result) => result.leaveId)
+      );
+      setBulkDecision(null);
+      setBulkResults(results);
+      fetchLeaves();
+      refreshAllBalances();
+    } catch (error) {
+      console.error("Error bulk reviewing leaves:", error);
+      toast.error((error as { message?: string })?.message || "Failed to review leaves");
+    }
+  };
+
+  const handleWithdrawConfirm = async () => {
+    if (!leaveToWithdraw) return;
+
+    try {
+      const { error } = await supabase
+        .from("leaves")
+        .update({ status: "withdrawn" })
+        .eq("id", leaveToWithdraw);
 
       if (error) throw error;
 
-      // Log activity
       await supabase.from("activity_logs").insert([
         {
           user_id: user?.id,
-          action: "leave_request",
-          description: `Leave request submitted for ${leaveData.start_date} to ${leaveData.end_date}`,
+          action: "leave_withdrawn",
+          description: "Pending leave request withdrawn",
         },
       ]);
 
-      toast.success("Leave request submitted successfully");
-      setDialogOpen(false);
-      setLeaveType("");
+      toast.success("Leave request withdrawn");
       fetchLeaves();
     } catch (error) {
-      console.error("Error submitting leave:", error);
-      toast.error("Failed to submit leave request");
+      console.error("Error withdrawing leave:", error);
+      toast.error("Failed to withdraw leave request");
     } finally {
-      setSubmitting(false);
+      setLeaveToWithdraw(null);
     }
   };
 
-  const handleApprove = async (leaveId: string) => {
+  const handleRequestCancellation = async (reason: string) => {
+    if (!leaveToCancel) return;
+
     try {
       const { error } = await supabase
         .from("leaves")
         .update({
-          status: "approved",
-          reviewed_by: user?.id,
-          reviewed_at: new Date().toISOString(),
+          cancellation_requested_at: new Date().toISOString(),
+          cancellation_reason: reason,
         })
-        .eq("id", leaveId);
+        .eq("id", leaveToCancel);
 
       if (error) throw error;
 
-      toast.success("Leave approved");
+      await supabase.from("activity_logs").insert([
+        {
+          user_id: user?.id,
+          action: "leave_cancellation_request",
+          description: "Cancellation requested for an approved leave",
+        },
+      ]);
+
+      toast.success("Cancellation request sent");
+      setLeaveToCancel(null);
       fetchLeaves();
     } catch (error) {
-      console.error("Error approving leave:", error);
-      toast.error("Failed to approve leave");
+      console.error("Error requesting cancellation:", error);
+      toast.error("Failed to request cancellation");
     }
   };
 
-  const handleReject = async (leaveId: string) => {
+  const handleCancellationDecision = async (leaveId: string, approve: boolean) => {
+    const review = {
+      cancellation_reviewed_by: user?.id,
+      cancellation_reviewed_at: new Date().toISOString(),
+    };
+
     try {
+      // Declining clears the request so the leave stays approved as before
       const { error } = await supabase
         .from("leaves")
-        .update({
-          status: "rejected",
-          reviewed_by: user?.id,
-          reviewed_at: new Date().toISOString(),
-        })
+        .update(
+          approve
+            ? { ...review, status: "cancelled" }
+            : { ...review, cancellation_requested_at: null, cancellation_reason: null }
+        )
         .eq("id", leaveId);
 
       if (error) throw error;
 
-      toast.success("Leave rejected");
+      toast.success(approve ? "Leave cancelled" : "Cancellation declined");
       fetchLeaves();
+      refreshAllBalances();
     } catch (error) {
-      console.error("Error rejecting leave:", error);
-      toast.error("Failed to reject leave");
+      console.error("Error reviewing cancellation:", error);
+      toast.error("Failed to update cancellation request");
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: LeaveStatus) => {
     switch (status) {
       case "approved":
         return "default";
       case "rejected":
         return "destructive";
+      case "withdrawn":
+      case "cancelled":
+        return "outline";
       default:
         return "secondary";
     }
   };
 
+  const renderSortableHead = (column: LeaveSortColumn, label: string) => {
+    const isSorted = sort === column;
+    const SortIcon = !isSorted ? ArrowUpDown : direction === "asc" ? ArrowUp : ArrowDown;
+
+    return (
+      <TableHead
+        aria-sort={isSorted ? (direction === "asc" ? "ascending" : "descending") : undefined}
+      >
+        <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(column)}>
+          {label}
+          <SortIcon className="ml-1 h-4 w-4" />
+        </Button>
+      </TableHead>
+    );
+  };
+
+  const renderLeaveActions = (leave: Leave) => {
+    const isOwn = leave.user_id === user?.id;
+    const unreadCount = unreadCounts[leave.id] || 0;
+    const actions = [
+      <Button
+        key="details"
+        size="sm"
+        variant="ghost"
+        title={unreadCount > 0 ? `${unreadCount} unread comments` : "Details and discussion"}
+        onClick={() => setDetailsLeave(leave)}
+      >
+        <MessageSquare className="h-4 w-4 mr-1" />
+        Details
+        {unreadCount > 0 && <Badge className="ml-1 px-1.5 py-0">{unreadCount}</Badge>}
+      </Button>,
+    ];
+
+    if (canReviewLeave(leave)) {
+      actions.push(
+        <Button key="approve" size="sm" variant="outline" onClick={() => setReviewTarget({ leave, decision: "approved" })}>
+          <Check className="h-4 w-4 mr-1" />
+          Approve
+        </Button>,
+        <Button key="reject" size="sm" variant="outline" onClick={() => setReviewTarget({ leave, decision: "rejected" })}>
+          <X className="h-4 w-4 mr-1" />
+          Reject
+        </Button>
+      );
+    }
+
+    if (isAdmin && leave.status === "approved" && leave.cancellation_requested_at) {
+      actions.push(
+        <Button
+          key="approve-cancellation"
+          size="sm"
+          variant="outline"
+          onClick={() => handleCancellationDecision(leave.id, true)}
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Approve Cancellation
+        </Button>,
+        <Button
+          key="decline-cancellation"
+          size="sm"
+          variant="outline"
+          onClick={() => handleCancellationDecision(leave.id, false)}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Decline
+        </Button>
+      );
+    }
+
+    if (isOwn && leave.status === "pending") {
+      actions.push(
+        <Button key="edit" size="sm" variant="ghost" onClick={() => setLeaveToEdit(leave)}>
+          <Pencil className="h-4 w-4 mr-1" />
+          Edit
+        </Button>,
+        <Button key="withdraw" size="sm" variant="ghost" onClick={() => setLeaveToWithdraw(leave.id)}>
+          <Undo2 className="h-4 w-4 mr-1" />
+          Withdraw
+        </Button>
+      );
+    }
+
+    if (isOwn && leave.status === "approved" && !leave.cancellation_requested_at) {
+      actions.push(
+        <Button key="cancel" size="sm" variant="ghost" onClick={() => setLeaveToCancel(leave.id)}>
+          <Ban className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      );
+    }
+
+    return <div className="flex gap-2">{actions}</div>;
+  };
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -208,77 +608,115 @@ const Leaves = () => {
               Request and manage leave applications
             </p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Request Leave
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <form onSubmit={handleSubmitLeave}>
-                <DialogHeader>
-                  <DialogTitle>Request Leave</DialogTitle>
-                  <DialogDescription>
-                    Submit a new leave request for approval
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="space-y-4 py-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="type">Leave Type</Label>
-                    <Select name="type" value={leaveType} onValueChange={setLeaveType} required>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select leave type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="sick">Sick Leave</SelectItem>
-                        <SelectItem value="vacation">Vacation</SelectItem>
-                        <SelectItem value="personal">Personal Leave</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="start_date">Start Date</Label>
-                    <Input
-                      id="start_date"
-                      name="start_date"
-                      type="date"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="end_date">End Date</Label>
-                    <Input
-                      id="end_date"
-                      name="end_date"
-                      type="date"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="reason">Reason</Label>
-                    <Textarea
-                      id="reason"
-                      name="reason"
-                      placeholder="Enter reason for leave..."
-                      required
-                    />
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button type="submit" disabled={submitting}>
-                    {submitting ? "Submitting..." : "Submit Request"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+          <div className="flex gap-2">
+            {isAdmin && <ApprovalDelegationDialog />}
+            {isAdmin && (
+              <YearEndRolloverDialog
+                currentLeaveYear={currentLeaveYear}
+                onProcessed={refreshAllBalances}
+              />
+            )}
+            {isAdmin && <LedgerEntryDialog onPosted={refreshAllBalances} />}
+            <CalendarExportDialog />
+            <LeaveRequestDialog
+              getAvailableDays={getAvailableDays}
+              onSubmitted={fetchLeaves}
+            />
+            <LeaveRequestDialog
+              leave={leaveToEdit}
+              onOpenChange={(open) => !open && setLeaveToEdit(null)}
+              getAvailableDays={getAvailableDays}
+              onSubmitted={fetchLeaves}
+            />
+          </div>
+        </div>
+
+        {delegation && !isAdmin && (
+          <Alert>
+            <UserCheck className="h-4 w-4" />
+            <AlertDescription>
+              You can approve and reject leave on behalf of {delegation.delegatorName} until{" "}
+              {parseDateOnly(delegation.endsOn).toLocaleDateString()}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold">
+              {summaryOwnerId === user?.id
+                ? "My Leave Balance"
+                : `${employees.find((employee) => employee.id === summaryOwnerId)?.name} · Leave Balance`}{" "}
+              ({summaryYear})
+            </h2>
+            <div className="flex gap-2">
+              {isAdmin && (
+                <Select value={summaryOwnerId} onValueChange={setSummaryUserId}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id}>
+                        {employee.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select
+                value={String(summaryYear)}
+                onValueChange={(value) => setSummaryYear(Number(value))}
+              >
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {summaryYears.map((year) => (
+                    <SelectItem key={year} value={String(year)}>
+                      {year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <LeaveBalanceCards
+            balances={isOwnCurrentSummary ? balances : summaryBalances}
+            pendingDays={isOwnCurrentSummary ? pendingDays : {}}
+            leaveYear={summaryYear}
+            loading={isOwnCurrentSummary ? balancesLoading : summaryLoading}
+          />
         </div>
 
         <Card>
-          <CardHeader>
-            <CardTitle>Leave Requests</CardTitle>
+          <CardHeader className="space-y-4">
+            <div className="flex flex-row items-center justify-between">
+              <CardTitle>Leave Requests</CardTitle>
+              {selectedLeaveIds.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {selectedLeaveIds.length} selected
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => setBulkDecision("approved")}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve Selected
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setBulkDecision("rejected")}>
+                    <X className="h-4 w-4 mr-1" />
+                    Reject Selected
+                  </Button>
+                </div>
+              )}
+            </div>
+            <LeaveFiltersBar
+              filters={filters}
+              hasFilters={hasFilters}
+              employees={canReview ? employees : undefined}
+              departments={canReview ? departments : undefined}
+              onFilterChange={setFilter}
+              onClear={clearFilters}
+            />
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -289,80 +727,182 @@ const Leaves = () => {
               </div>
             ) : leaves.length === 0 ? (
               <p className="text-center text-muted-foreground py-8">
-                No leave requests found
+                {hasFilters ? "No leave requests match these filters" : "No leave requests found"}
               </p>
             ) : (
-              <div className="rounded-md border">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      {isAdmin && <TableHead>Employee</TableHead>}
-                      <TableHead>Type</TableHead>
-                      <TableHead>Start Date</TableHead>
-                      <TableHead>End Date</TableHead>
-                      <TableHead>Reason</TableHead>
-                      <TableHead>Status</TableHead>
-                      {isAdmin && <TableHead>Actions</TableHead>}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {leaves.map((leave) => (
-                      <TableRow key={leave.id}>
-                        {isAdmin && (
-                          <TableCell className="font-medium">
-                            {leave.profiles.name}
-                          </TableCell>
+              <>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {canReview && (
+                          <TableHead className="w-10">
+                            <Checkbox
+                              checked={allSelected}
+                              disabled={selectableLeaveIds.length === 0}
+                              onCheckedChange={(checked) =>
+                                setSelectedLeaveIds(checked === true ? selectableLeaveIds : [])
+                              }
+                              aria-label="Select all pending requests"
+                            />
+                          </TableHead>
                         )}
-                        <TableCell className="capitalize">{leave.type}</TableCell>
-                        <TableCell>
-                          {new Date(leave.start_date).toLocaleDateString()}
-                        </TableCell>
-                        <TableCell>
-                          {new Date(leave.end_date).toLocaleDateString()}
-                        </TableCell>
-                        <TableCell className="max-w-xs truncate">
-                          {leave.reason}
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant={getStatusColor(leave.status)}>
-                            {leave.status}
-                          </Badge>
-                        </TableCell>
-                        {isAdmin && (
+                        {canReview && <TableHead>Employee</TableHead>}
+                        {renderSortableHead("type", "Type")}
+                        {renderSortableHead("start_date", "Start Date")}
+                        {renderSortableHead("end_date", "End Date")}
+                        {renderSortableHead("duration_days", "Duration")}
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Documents</TableHead>
+                        {renderSortableHead("status", "Status")}
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {leaves.map((leave) => (
+                        <TableRow key={leave.id}>
+                          {canReview && (
+                            <TableCell>
+                              {canReviewLeave(leave) && (
+                                <Checkbox
+                                  checked={selectedLeaveIds.includes(leave.id)}
+                                  onCheckedChange={(checked) =>
+                                    toggleLeaveSelection(leave.id, checked === true)
+                                  }
+                                  aria-label={`Select request from ${leave.profiles.name}`}
+                                />
+                              )}
+                            </TableCell>
+                          )}
+                          {canReview && (
+                            <TableCell className="font-medium">
+                              {leave.profiles.name}
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            <LeaveTypeBadge leaveType={leave.type} />
+                          </TableCell>
+                          <TableCell>
+                            {new Date(leave.start_date).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>
+                            {new Date(leave.end_date).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>{formatLeaveDuration(leave)}</TableCell>
+                          <TableCell className="max-w-xs truncate">
+                            {leave.reason}
+                          </TableCell>
                           <TableCell>
-                            {leave.status === "pending" ? (
-                              <div className="flex gap-2">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleApprove(leave.id)}
-                                >
-                                  <Check className="h-4 w-4 mr-1" />
-                                  Approve
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleReject(leave.id)}
-                                >
-                                  <X className="h-4 w-4 mr-1" />
-                                  Reject
-                                </Button>
+                            <LeaveAttachmentsCell
+                              leaveId={leave.id}
+                              userId={leave.user_id}
+                              attachments={leave.leave_attachments}
+                              canAttach={leave.user_id === user?.id && leave.status === "pending"}
+                              onUploaded={fetchLeaves}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant={getStatusColor(leave.status)}>
+                                {leave.status}
+                              </Badge>
+                              {leave.status === "approved" && leave.cancellation_requested_at && (
+                                <Badge variant="secondary" title={leave.cancellation_reason || ""}>
+                                  cancellation requested
+                                </Badge>
+                              )}
+                            </div>
+                            {leave.reviewed_at && (
+                              <div className="mt-1 max-w-xs text-xs text-muted-foreground">
+                                <p>
+                                  by {leave.reviewer?.name || "an admin"}
+                                  {leave.on_behalf_of && ` on behalf of ${leave.on_behalf_of.name}`} on{" "}
+                                  {new Date(leave.reviewed_at).toLocaleDateString()}
+                                </p>
+                                {leave.review_notes && (
+                                  <p className="italic break-words">"{leave.review_notes}"</p>
+                                )}
                               </div>
-                            ) : (
-                              <span className="text-muted-foreground text-sm">-</span>
                             )}
                           </TableCell>
-                        )}
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
+                          <TableCell>
+                            {renderLeaveActions(leave)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <LeavesPagination
+                  page={page}
+                  pageCount={Math.ceil(totalCount / LEAVES_PAGE_SIZE)}
+                  getPageHref={getPageHref}
+                  onPageChange={setPage}
+                />
+              </>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <AlertDialog
+        open={leaveToWithdraw !== null}
+        onOpenChange={(open) => !open && setLeaveToWithdraw(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Withdraw this request?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The request will no longer be reviewed. You can submit a new one at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Request</AlertDialogCancel>
+            <AlertDialogAction onClick={handleWithdrawConfirm}>Withdraw</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <LeaveDetailsSheet
+        leave={detailsLeave}
+        onOpenChange={(open) => !open && setDetailsLeave(null)}
+        onRead={refetchUnreadCounts}
+      />
+
+      <ReviewLeaveDialog
+        decision={reviewTarget?.decision ?? null}
+        summary={
+          reviewTarget
+            ? `${reviewTarget.leave.profiles.name} · ${
+                getLeaveTypeName(reviewTarget.leave.type)
+              } · ${formatLeaveDuration(reviewTarget.leave)}`
+            : ""
+        }
+        coverageConflicts={coverageConflicts}
+        revisions={revisions}
+        onOpenChange={(open) => !open && setReviewTarget(null)}
+        onConfirm={handleReview}
+      />
+
+      <ReviewLeaveDialog
+        decision={bulkDecision}
+        summary={`${selectedLeaveIds.length} pending ${
+          selectedLeaveIds.length === 1 ? "request" : "requests"
+        } · the comment is shared by all of them`}
+        onOpenChange={(open) => !open && setBulkDecision(null)}
+        onConfirm={handleBulkReview}
+      />
+
+      <BulkReviewResultsDialog
+        results={bulkResults}
+        onOpenChange={(open) => !open && setBulkResults(null)}
+      />
+
+      <CancellationRequestDialog
+        open={leaveToCancel !== null}
+        onOpenChange={(open) => !open && setLeaveToCancel(null)}
+        onConfirm={handleRequestCancellation}
+      />
     </DashboardLayout>
   );
 };
@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { addDays, addWeeks, eachDayOfInterval, endOfWeek, format, isToday, startOfWeek } from "date-fns";
+import { DashboardLayout } from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight, Copy } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/lib/auth";
+import { useRole } from "@/hooks/useRole";
+import { useShiftTemplates } from "@/hooks/useShiftTemplates";
+import { ShiftTemplatesCard } from "@/components/attendance/ShiftTemplatesCard";
+import { parseDateOnly, toDateOnly } from "@/lib/leaves";
+import { formatShiftHours } from "@/lib/shifts";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const ALL_DEPARTMENTS = "all";
+// Select items need a non-empty value, so a day off gets its own
+const DAY_OFF = "off";
+
+type ShiftAssignment = Pick<
+  Database["public"]["Tables"]["shift_assignments"]["Row"],
+  "id" | "user_id" | "shift_template_id" | "shift_date"
+>;
+
+interface Employee {
+  id: string;
+  name: string;
+  department: string | null;
+}
+
+const Roster = () => {
+  const { user } = useAuth();
+  const { isAdmin, loading: roleLoading } = useRole();
+  const { shiftTemplates, refetchShiftTemplates } = useShiftTemplates();
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [assignments, setAssignments] = useState<ShiftAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [copying, setCopying] = useState(false);
+
+  const weekStart = startOfWeek(anchorDate);
+  const weekEnd = endOfWeek(anchorDate);
+  const weekStartKey = toDateOnly(weekStart);
+  const weekEndKey = toDateOnly(weekEnd);
+  const days = eachDayOfInterval({ start: weekStart, end: weekEnd });
+
+  const departments = [
+    ...new Set(employees.map((employee) => employee.department).filter(Boolean)),
+  ].sort() as string[];
+  const visibleEmployees = employees.filter(
+    (employee) => department === ALL_DEPARTMENTS || employee.department === department
+  );
+
+  const fetchAssignments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("shift_assignments")
+        .select("id, user_id, shift_template_id, shift_date")
+        .gte("shift_date", weekStartKey)
+        .lte("shift_date", weekEndKey);
+
+      if (error) throw error;
+      setAssignments(data || []);
+    } catch (error) {
+      console.error("Error fetching roster:", error);
+      toast.error("Failed to load roster");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const fetchEmployees = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, name, department")
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching employees:", error);
+        return;
+      }
+      setEmployees(data || []);
+    };
+
+    if (isAdmin) {
+      fetchEmployees();
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchAssignments();
+    }
+  }, [isAdmin, weekStartKey]);
+
+  const getAssignment = (userId: string, day: Date) =>
+    assignments.find(
+      (assignment) => assignment.user_id === userId && assignment.shift_date === toDateOnly(day)
+    );
+
+  const handleAssign = async (userId: string, day: Date, value: string) => {
+    const shiftDate = toDateOnly(day);
+
+    try {
+      const { error } =
+        value === DAY_OFF
+          ? await supabase
+              .from("shift_assignments")
+              .delete()
+              .eq("user_id", userId)
+              .eq("shift_date", shiftDate)
+          : await supabase.from("shift_assignments").upsert(
+              [
+                {
+                  user_id: userId,
+                  shift_date: shiftDate,
+                  shift_template_id: value,
+                  assigned_by: user?.id,
+                },
+              ],
+              { onConflict: "user_id,shift_date" }
+            );
+
+      if (error) throw error;
+
+      fetchAssignments();
+    } catch (error) {
+      console.error("Error updating roster:", error);
+      toast.error("Failed to update roster");
+    }
+  };
+
+  // Repeats last week's pattern for the employees shown; days already planned this week are overwritten
+  const handleCopyPreviousWeek = async () => {
+    setCopying(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("shift_assignments")
+        .select("user_id, shift_template_id, shift_date")
+        .gte("shift_date", toDateOnly(addWeeks(weekStart, -1)))
+        .lte("shift_date", toDateOnly(addWeeks(weekEnd, -1)))
+        .in(
+          "user_id",
+          visibleEmployees.map((employee) => employee.id)
+        );
+
+      if (error) throw error;
+
+      if (!data?.length) {
+        toast.info("Nothing was rostered the week before");
+        return;
+      }
+
+      const { error: upsertError } = await supabase.from("shift_assignments").upsert(
+        data.map((assignment) => ({
+          user_id: assignment.user_id,
+          shift_template_id: assignment.shift_template_id,
+          shift_date: toDateOnly(addDays(parseDateOnly(assignment.shift_date), 7)),
+          assigned_by: user?.id,
+        })),
+        { onConflict: "user_id,shift_date" }
+      );
+
+      if (upsertError) throw upsertError;
+
+      toast.success(`Copied ${data.length} shift${data.length === 1 ? "" : "s"} from last week`);
+      fetchAssignments();
+    } catch (error) {
+      console.error("Error copying roster:", error);
+      toast.error("Failed to copy last week's roster");
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  if (!roleLoading && !isAdmin) {
+    return (
+      <DashboardLayout>
+        <p className="text-center text-muted-foreground py-8">Only admins can edit the roster</p>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Roster</h1>
+          <p className="text-muted-foreground">
+            Plan who works which shift; attendance is compared against it
+          </p>
+        </div>
+
+        <ShiftTemplatesCard shiftTemplates={shiftTemplates} onChanged={refetchShiftTemplates} />
+
+        <Card>
+          <CardHeader className="flex flex-wrap items-center justify-between gap-4 space-y-0">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setAnchorDate((current) => addWeeks(current, -1))}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setAnchorDate((current) => addWeeks(current, 1))}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setAnchorDate(new Date())}>
+                Today
+              </Button>
+              <h2 className="ml-2 text-lg font-semibold">
+                {format(weekStart, "d MMM")} – {format(weekEnd, "d MMM yyyy")}
+              </h2>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                  {departments.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                disabled={copying || visibleEmployees.length === 0}
+                onClick={handleCopyPreviousWeek}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Copy Last Week
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : visibleEmployees.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No employees to roster</p>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      {days.map((day) => (
+                        <TableHead
+                          key={day.toISOString()}
+                          className={cn(isToday(day) && "text-primary")}
+                        >
+                          {format(day, "EEE d")}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleEmployees.map((employee) => (
+                      <TableRow key={employee.id}>
+                        <TableCell className="font-medium whitespace-nowrap">
+                          {employee.name}
+                        </TableCell>
+                        {days.map((day) => {
+                          const assignment = getAssignment(employee.id, day);
+                          // Inactive shifts only stay selectable where they are already rostered
+                          const options = shiftTemplates.filter(
+                            (template) =>
+                              template.is_active || template.id === assignment?.shift_template_id
+                          );
+                          const assigned = shiftTemplates.find(
+                            (template) => template.id === assignment?.shift_template_id
+                          );
+
+                          return (
+                            <TableCell key={day.toISOString()} className="p-1">
+                              <Select
+                                value={assignment?.shift_template_id ?? DAY_OFF}
+                                onValueChange={(value) => handleAssign(employee.id, day, value)}
+                              >
+                                <SelectTrigger
+                                  className="h-8 w-[130px] text-xs"
+                                  style={
+                                    assigned ? { borderLeft: `4px solid ${assigned.color}` } : undefined
+                                  }
+                                  title={assigned ? formatShiftHours(assigned) : undefined}
+                                >
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={DAY_OFF}>Off</SelectItem>
+                                  {options.map((template) => (
+                                    <SelectItem key={template.id} value={template.id}>
+                                      {template.name} · {formatShiftHours(template)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Roster;
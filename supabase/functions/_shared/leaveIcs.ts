@@ -0,0 +1,96 @@
+// iCalendar output for approved leave, shared by the app's .ics export
+// (src/lib/ics.ts) and the leave-calendar-feed function. It has no imports so
+// both Vite and Deno can load it.
+
+export interface IcsLeaveEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  // Inclusive "YYYY-MM-DD" dates, as stored on leaves
+  start_date: string;
+  end_date: string;
+}
+
+export interface LeaveIcsOptions {
+  // ISO 8601 duration subscribed clients should poll at, e.g. "PT1H"
+  refreshInterval?: string;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/([,;])/g, "\\$1").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 §3.1)
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const formatIcsDate = (date: string) => date.replace(/-/g, "");
+
+// DATE columns are calendar days, so do the arithmetic in UTC to avoid DST shifts
+const dayAfter = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+/**
+ * Builds an iCalendar file with one all-day VEVENT per leave.
+ * DTEND is exclusive, so it is the day after the leave's last day.
+ */
+export const buildLeaveIcs = (
+  calendarName: string,
+  events: IcsLeaveEvent[],
+  options: LeaveIcsOptions = {}
+) => {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PeopleOps//Leave Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  if (options.refreshInterval) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`,
+      `X-PUBLISHED-TTL:${options.refreshInterval}`
+    );
+  }
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(event.start_date)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(dayAfter(event.end_date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
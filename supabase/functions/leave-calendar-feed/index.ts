@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildLeaveIcs } from "../_shared/leaveIcs.ts";
+
+// Subscribable iCalendar feed of approved leave.
+// GET /functions/v1/leave-calendar-feed?token=<calendar_feed_tokens.token>
+// Calendar clients cannot sign in, so JWT verification is off for this function
+// (see supabase/config.toml) and the token identifies the user instead.
+// Admins get the whole company; everyone else gets their own leave.
+
+// How far back the feed reaches; future leave is always included
+const HISTORY_DAYS = 365;
+
+interface FeedLeave {
+  id: string;
+  start_date: string;
+  end_date: string;
+  duration_unit: "full_day" | "half_day" | "hours";
+  half_day_period: "am" | "pm" | null;
+  hours: number | null;
+  profiles: { name: string } | null;
+  leave_types: { name: string } | null;
+}
+
+const describePartialDay = (leave: FeedLeave) => {
+  if (leave.duration_unit === "half_day") {
+    return ` (${leave.half_day_period?.toUpperCase()})`;
+  }
+  if (leave.duration_unit === "hours") {
+    return ` (${leave.hours} ${leave.hours === 1 ? "hour" : "hours"})`;
+  }
+  return "";
+};
+
+const toEvent = (leave: FeedLeave, includeNames: boolean) => {
+  const typeName = leave.leave_types?.name || "Leave";
+  const summary = includeNames ? `${leave.profiles?.name || "Employee"} · ${typeName}` : typeName;
+
+  return {
+    uid: `leave-${leave.id}@peopleops`,
+    summary: summary + describePartialDay(leave),
+    start_date: leave.start_date,
+    end_date: leave.end_date,
+  };
+};
+
+serve(async (req) => {
+  if (req.method !== "GET") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) {
+    return new Response("Missing token", { status: 401 });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: feedToken, error: tokenError } = await supabase
+      .from("calendar_feed_tokens")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (tokenError) throw tokenError;
+    if (!feedToken) {
+      return new Response("Unknown or revoked token", { status: 404 });
+    }
+
+    const { data: isAdmin, error: roleError } = await supabase.rpc("has_role", {
+      _user_id: feedToken.user_id,
+      _role: "admin",
+    });
+
+    if (roleError) throw roleError;
+
+    const since = new Date();
+    since.setDate(since.getDate() - HISTORY_DAYS);
+
+    let query = supabase
+      .from("leaves")
+      .select(`
+        id,
+        start_date,
+        end_date,
+        duration_unit,
+        half_day_period,
+        hours,
+        profiles!leaves_user_id_fkey(name),
+        leave_types(name)
+      `)
+      .eq("status", "approved")
+      .gte("end_date", since.toISOString().slice(0, 10))
+      .order("start_date");
+
+    if (!isAdmin) {
+      query = query.eq("user_id", feedToken.user_id);
+    }
+
+    const { data: leaves, error: leavesError } = await query;
+
+    if (leavesError) throw leavesError;
+
+    const body = buildLeaveIcs(
+      isAdmin ? "Company leave" : "My leave",
+      ((leaves as FeedLeave[]) || []).map((leave) => toEvent(leave, Boolean(isAdmin))),
+      // Ask clients to poll hourly
+      { refreshInterval: "PT1H" }
+    );
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="leave.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error building leave feed:", error);
+    return new Response("Failed to build calendar feed", { status: 500 });
+  }
+});
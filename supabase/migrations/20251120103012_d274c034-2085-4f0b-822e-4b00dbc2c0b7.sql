@@ -0,0 +1,134 @@
+-- Create enum for leave ledger entry types
+CREATE TYPE public.leave_ledger_entry_type AS ENUM (
+  'entitlement',
+  'accrual',
+  'deduction',
+  'reversal',
+  'adjustment'
+);
+
+-- Create leave_ledger table (authoritative source for leave balances)
+-- Every change to a balance is an immutable row; balances are the sum of days.
+CREATE TABLE public.leave_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  leave_type leave_type NOT NULL,
+  leave_year INTEGER NOT NULL,
+  entry_type leave_ledger_entry_type NOT NULL,
+  days NUMERIC(6, 2) NOT NULL,
+  leave_id UUID REFERENCES public.leaves(id) ON DELETE CASCADE,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT leave_ledger_days_sign CHECK (
+    (entry_type IN ('entitlement', 'accrual', 'reversal') AND days >= 0)
+    OR (entry_type = 'deduction' AND days <= 0)
+    OR entry_type = 'adjustment'
+  )
+);
+
+CREATE INDEX idx_leave_ledger_user_year ON public.leave_ledger(user_id, leave_year);
+CREATE INDEX idx_leave_ledger_leave_id ON public.leave_ledger(leave_id);
+
+-- Leave year a date falls into (calendar year)
+CREATE OR REPLACE FUNCTION public.leave_year(_date DATE)
+RETURNS INTEGER
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT EXTRACT(YEAR FROM _date)::INTEGER
+$$;
+
+-- Number of days a leave request consumes
+CREATE OR REPLACE FUNCTION public.calculate_leave_days(_start_date DATE, _end_date DATE)
+RETURNS NUMERIC
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT GREATEST(_end_date - _start_date + 1, 0)::NUMERIC
+$$;
+
+-- Balances per employee, leave type and leave year
+CREATE VIEW public.leave_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  user_id,
+  leave_type,
+  leave_year,
+  COALESCE(SUM(days) FILTER (WHERE entry_type IN ('entitlement', 'accrual', 'adjustment')), 0) AS entitled_days,
+  COALESCE(-SUM(days) FILTER (WHERE entry_type IN ('deduction', 'reversal')), 0) AS used_days,
+  SUM(days) AS balance_days
+FROM public.leave_ledger
+GROUP BY user_id, leave_type, leave_year;
+
+-- Enable RLS
+ALTER TABLE public.leave_ledger ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for leave_ledger (entries are append-only)
+CREATE POLICY "Users can view own ledger or admins view all"
+  ON public.leave_ledger
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Admins can post ledger entries"
+  ON public.leave_ledger
+  FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND entry_type IN ('entitlement', 'accrual', 'adjustment')
+  );
+
+-- Trigger function posting deductions on approval and reversals when an
+-- approved leave moves to any other status
+CREATE OR REPLACE FUNCTION public.post_leave_ledger_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _net_days NUMERIC;
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status <> 'approved') THEN
+    INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by)
+    VALUES (
+      NEW.user_id,
+      NEW.type,
+      public.leave_year(NEW.start_date),
+      'deduction',
+      -public.calculate_leave_days(NEW.start_date, NEW.end_date),
+      NEW.id,
+      NEW.reviewed_by
+    );
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    SELECT COALESCE(SUM(days), 0) INTO _net_days
+    FROM public.leave_ledger
+    WHERE leave_id = OLD.id;
+
+    IF _net_days < 0 THEN
+      INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by, notes)
+      VALUES (
+        OLD.user_id,
+        OLD.type,
+        public.leave_year(OLD.start_date),
+        'reversal',
+        -_net_days,
+        OLD.id,
+        NEW.reviewed_by,
+        'Reversed on status change to ' || NEW.status
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_leave_ledger_entries
+  AFTER INSERT OR UPDATE OF status ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_leave_ledger_entries();
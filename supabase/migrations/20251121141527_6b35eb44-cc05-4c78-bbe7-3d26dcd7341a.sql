@@ -0,0 +1,178 @@
+-- Create leave_policies table (rules per leave type, optionally scoped to a department)
+CREATE TABLE public.leave_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leave_type leave_type NOT NULL,
+  department TEXT,
+  min_notice_days INTEGER NOT NULL DEFAULT 0 CHECK (min_notice_days >= 0),
+  max_consecutive_days INTEGER CHECK (max_consecutive_days > 0),
+  reason_required BOOLEAN NOT NULL DEFAULT true,
+  attachment_required BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One policy per leave type and department (NULL department = company-wide default)
+CREATE UNIQUE INDEX leave_policies_type_department_key
+  ON public.leave_policies(leave_type, COALESCE(department, ''));
+
+-- Create leave_blackout_periods table (date windows in which a policy refuses leave)
+CREATE TABLE public.leave_blackout_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  policy_id UUID NOT NULL REFERENCES public.leave_policies(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT leave_blackout_periods_date_range CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_leave_blackout_periods_policy_id ON public.leave_blackout_periods(policy_id);
+
+-- Enable RLS
+ALTER TABLE public.leave_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_blackout_periods ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: everyone can read the rules (the request form validates against them),
+-- only admins can change them
+CREATE POLICY "Authenticated users can view leave policies"
+  ON public.leave_policies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage leave policies"
+  ON public.leave_policies
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view blackout periods"
+  ON public.leave_blackout_periods
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage blackout periods"
+  ON public.leave_blackout_periods
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_leave_policies_updated_at
+  BEFORE UPDATE ON public.leave_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Policy that applies to a user's request: department-specific first, then company-wide
+CREATE OR REPLACE FUNCTION public.get_applicable_leave_policy(_user_id UUID, _leave_type leave_type)
+RETURNS public.leave_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.*
+  FROM public.leave_policies lp
+  WHERE lp.leave_type = _leave_type
+    AND (
+      lp.department IS NULL
+      OR lp.department = (SELECT department FROM public.profiles WHERE id = _user_id)
+    )
+  ORDER BY lp.department NULLS LAST
+  LIMIT 1
+$$;
+
+-- Validate a leave request against its policy; returns one message per violation.
+-- Mirrored client-side by validateLeaveRequest() in src/lib/leavePolicy.ts.
+CREATE OR REPLACE FUNCTION public.validate_leave_request(
+  _user_id UUID,
+  _leave_type leave_type,
+  _start_date DATE,
+  _end_date DATE,
+  _reason TEXT
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.leave_policies;
+  _blackout RECORD;
+  _errors TEXT[] := '{}';
+BEGIN
+  IF _end_date < _start_date THEN
+    RETURN array_append(_errors, 'End date must be on or after the start date');
+  END IF;
+
+  _policy := public.get_applicable_leave_policy(_user_id, _leave_type);
+
+  -- Without a policy only a reason is required
+  IF COALESCE(_policy.reason_required, true) AND COALESCE(btrim(_reason), '') = '' THEN
+    _errors := array_append(_errors, 'A reason is required for this leave type');
+  END IF;
+
+  IF _policy.id IS NULL THEN
+    RETURN _errors;
+  END IF;
+
+  IF _start_date - CURRENT_DATE < _policy.min_notice_days THEN
+    _errors := array_append(
+      _errors,
+      format('This leave type requires at least %s days notice', _policy.min_notice_days)
+    );
+  END IF;
+
+  IF _policy.max_consecutive_days IS NOT NULL
+    AND public.calculate_leave_days(_start_date, _end_date) > _policy.max_consecutive_days THEN
+    _errors := array_append(
+      _errors,
+      format('This leave type allows at most %s consecutive days', _policy.max_consecutive_days)
+    );
+  END IF;
+
+  FOR _blackout IN
+    SELECT name, start_date, end_date
+    FROM public.leave_blackout_periods
+    WHERE policy_id = _policy.id
+      AND start_date <= _end_date
+      AND end_date >= _start_date
+    ORDER BY start_date
+  LOOP
+    _errors := array_append(
+      _errors,
+      format('Dates overlap the "%s" blackout period (%s to %s)', _blackout.name, _blackout.start_date, _blackout.end_date)
+    );
+  END LOOP;
+
+  RETURN _errors;
+END;
+$$;
+
+-- Trigger function rejecting leave rows that violate their policy
+CREATE OR REPLACE FUNCTION public.enforce_leave_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _errors TEXT[];
+BEGIN
+  _errors := public.validate_leave_request(NEW.user_id, NEW.type, NEW.start_date, NEW.end_date, NEW.reason);
+
+  IF array_length(_errors, 1) > 0 THEN
+    RAISE EXCEPTION '%', array_to_string(_errors, '; ')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_leave_policy
+  BEFORE INSERT OR UPDATE OF type, start_date, end_date, reason ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_leave_policy();
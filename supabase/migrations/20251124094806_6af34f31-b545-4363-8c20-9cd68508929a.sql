@@ -0,0 +1,270 @@
+-- Create holiday_calendars table (a department uses its own calendar, everyone else the default)
+CREATE TABLE public.holiday_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  department TEXT UNIQUE,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  -- Days of week that are never worked (0 = Sunday ... 6 = Saturday)
+  weekend_days SMALLINT[] NOT NULL DEFAULT '{0,6}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX holiday_calendars_single_default
+  ON public.holiday_calendars(is_default)
+  WHERE is_default;
+
+-- Create holidays table
+CREATE TABLE public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id UUID NOT NULL REFERENCES public.holiday_calendars(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  holiday_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(calendar_id, holiday_date)
+);
+
+CREATE INDEX idx_holidays_calendar_date ON public.holidays(calendar_id, holiday_date);
+
+-- Enable RLS
+ALTER TABLE public.holiday_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: everyone can see holidays, only admins maintain them
+CREATE POLICY "Authenticated users can view holiday calendars"
+  ON public.holiday_calendars
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage holiday calendars"
+  ON public.holiday_calendars
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authenticated users can view holidays"
+  ON public.holidays
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage holidays"
+  ON public.holidays
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_holiday_calendars_updated_at
+  BEFORE UPDATE ON public.holiday_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the default calendar
+INSERT INTO public.holiday_calendars (name, is_default)
+VALUES ('Company Holidays', true);
+
+-- Calendar that applies to a user: their department's, otherwise the default
+CREATE OR REPLACE FUNCTION public.get_user_holiday_calendar(_user_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT hc.id
+  FROM public.holiday_calendars hc
+  WHERE hc.department = (SELECT department FROM public.profiles WHERE id = _user_id)
+    OR hc.is_default
+  ORDER BY hc.is_default
+  LIMIT 1
+$$;
+
+-- Days between two dates (inclusive) that are neither weekend days nor holidays.
+-- Mirrored client-side by countWorkingDays() in src/lib/workingDays.ts.
+CREATE OR REPLACE FUNCTION public.count_working_days(_calendar_id UUID, _start_date DATE, _end_date DATE)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::NUMERIC
+  FROM generate_series(_start_date, _end_date, INTERVAL '1 day') AS d(day)
+  WHERE NOT (
+      EXTRACT(DOW FROM d.day)::SMALLINT = ANY (
+        COALESCE(
+          (SELECT weekend_days FROM public.holiday_calendars WHERE id = _calendar_id),
+          '{0,6}'::SMALLINT[]
+        )
+      )
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.holidays h
+      WHERE h.calendar_id = _calendar_id
+        AND h.holiday_date = d.day::DATE
+    )
+$$;
+
+-- Leave duration is now counted in working days on the requester's calendar
+DROP FUNCTION public.calculate_leave_days(DATE, DATE);
+
+CREATE OR REPLACE FUNCTION public.calculate_leave_days(_user_id UUID, _start_date DATE, _end_date DATE)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.count_working_days(public.get_user_holiday_calendar(_user_id), _start_date, _end_date)
+$$;
+
+-- Store the working-day count on each leave so tables and reports can read it directly
+ALTER TABLE public.leaves ADD COLUMN duration_days NUMERIC(6, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.leaves DISABLE TRIGGER update_leaves_updated_at;
+UPDATE public.leaves
+SET duration_days = public.calculate_leave_days(user_id, start_date, end_date);
+ALTER TABLE public.leaves ENABLE TRIGGER update_leaves_updated_at;
+
+-- Trigger function keeping duration_days current. It is recalculated whenever the
+-- dates change and again at approval, so holidays added meanwhile are honoured.
+CREATE OR REPLACE FUNCTION public.set_leave_duration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR (NEW.status = 'approved' AND OLD.status <> 'approved') THEN
+    NEW.duration_days := public.calculate_leave_days(NEW.user_id, NEW.start_date, NEW.end_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leave_duration
+  BEFORE INSERT OR UPDATE ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_leave_duration();
+
+-- Deduct the stored working-day count on approval
+CREATE OR REPLACE FUNCTION public.post_leave_ledger_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _net_days NUMERIC;
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status <> 'approved') THEN
+    INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by)
+    VALUES (
+      NEW.user_id,
+      NEW.type,
+      public.leave_year(NEW.start_date),
+      'deduction',
+      -NEW.duration_days,
+      NEW.id,
+      NEW.reviewed_by
+    );
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    SELECT COALESCE(SUM(days), 0) INTO _net_days
+    FROM public.leave_ledger
+    WHERE leave_id = OLD.id;
+
+    IF _net_days < 0 THEN
+      INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by, notes)
+      VALUES (
+        OLD.user_id,
+        OLD.type,
+        public.leave_year(OLD.start_date),
+        'reversal',
+        -_net_days,
+        OLD.id,
+        NEW.reviewed_by,
+        'Reversed on status change to ' || NEW.status
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Max consecutive days is measured in working days
+CREATE OR REPLACE FUNCTION public.validate_leave_request(
+  _user_id UUID,
+  _leave_type leave_type,
+  _start_date DATE,
+  _end_date DATE,
+  _reason TEXT
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.leave_policies;
+  _blackout RECORD;
+  _errors TEXT[] := '{}';
+BEGIN
+  IF _end_date < _start_date THEN
+    RETURN array_append(_errors, 'End date must be on or after the start date');
+  END IF;
+
+  IF public.calculate_leave_days(_user_id, _start_date, _end_date) = 0 THEN
+    RETURN array_append(_errors, 'The selected dates contain no working days');
+  END IF;
+
+  _policy := public.get_applicable_leave_policy(_user_id, _leave_type);
+
+  -- Without a policy only a reason is required
+  IF COALESCE(_policy.reason_required, true) AND COALESCE(btrim(_reason), '') = '' THEN
+    _errors := array_append(_errors, 'A reason is required for this leave type');
+  END IF;
+
+  IF _policy.id IS NULL THEN
+    RETURN _errors;
+  END IF;
+
+  IF _start_date - CURRENT_DATE < _policy.min_notice_days THEN
+    _errors := array_append(
+      _errors,
+      format('This leave type requires at least %s days notice', _policy.min_notice_days)
+    );
+  END IF;
+
+  IF _policy.max_consecutive_days IS NOT NULL
+    AND public.calculate_leave_days(_user_id, _start_date, _end_date) > _policy.max_consecutive_days THEN
+    _errors := array_append(
+      _errors,
+      format('This leave type allows at most %s consecutive days', _policy.max_consecutive_days)
+    );
+  END IF;
+
+  FOR _blackout IN
+    SELECT name, start_date, end_date
+    FROM public.leave_blackout_periods
+    WHERE policy_id = _policy.id
+      AND start_date <= _end_date
+      AND end_date >= _start_date
+    ORDER BY start_date
+  LOOP
+    _errors := array_append(
+      _errors,
+      format('Dates overlap the "%s" blackout period (%s to %s)', _blackout.name, _blackout.start_date, _blackout.end_date)
+    );
+  END LOOP;
+
+  RETURN _errors;
+END;
+$$;
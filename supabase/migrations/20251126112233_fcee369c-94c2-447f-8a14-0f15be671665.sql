@@ -0,0 +1,94 @@
+-- Create enums for partial-day leave
+CREATE TYPE public.leave_duration_unit AS ENUM ('full_day', 'half_day', 'hours');
+CREATE TYPE public.half_day_period AS ENUM ('am', 'pm');
+
+-- Length of a working day, used to convert hourly leave into days
+ALTER TABLE public.holiday_calendars
+  ADD COLUMN work_hours_per_day NUMERIC(4, 2) NOT NULL DEFAULT 8
+  CHECK (work_hours_per_day > 0 AND work_hours_per_day <= 24);
+
+-- Partial-day leave covers a single date
+ALTER TABLE public.leaves
+  ADD COLUMN duration_unit leave_duration_unit NOT NULL DEFAULT 'full_day',
+  ADD COLUMN half_day_period half_day_period,
+  ADD COLUMN hours NUMERIC(4, 2),
+  ADD CONSTRAINT leaves_partial_day_single_date
+    CHECK (duration_unit = 'full_day' OR start_date = end_date),
+  ADD CONSTRAINT leaves_half_day_period
+    CHECK ((duration_unit = 'half_day') = (half_day_period IS NOT NULL)),
+  ADD CONSTRAINT leaves_hours
+    CHECK ((duration_unit = 'hours') = (hours IS NOT NULL) AND (hours IS NULL OR hours > 0));
+
+-- Days a leave consumes for any duration unit.
+-- Mirrored client-side by calculateLeaveDuration() in src/lib/workingDays.ts.
+CREATE OR REPLACE FUNCTION public.calculate_leave_duration(
+  _user_id UUID,
+  _start_date DATE,
+  _end_date DATE,
+  _duration_unit leave_duration_unit,
+  _hours NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _calendar_id UUID := public.get_user_holiday_calendar(_user_id);
+  _working_days NUMERIC := public.count_working_days(_calendar_id, _start_date, _end_date);
+  _hours_per_day NUMERIC;
+BEGIN
+  IF _duration_unit = 'half_day' THEN
+    RETURN _working_days * 0.5;
+  ELSIF _duration_unit = 'hours' THEN
+    SELECT work_hours_per_day INTO _hours_per_day
+    FROM public.holiday_calendars
+    WHERE id = _calendar_id;
+
+    RETURN _working_days * ROUND(COALESCE(_hours, 0) / COALESCE(_hours_per_day, 8), 2);
+  END IF;
+
+  RETURN _working_days;
+END;
+$$;
+
+-- Recalculate whenever the unit or hours change too, and cap hours at a working day
+CREATE OR REPLACE FUNCTION public.set_leave_duration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _hours_per_day NUMERIC;
+BEGIN
+  IF NEW.duration_unit = 'hours' THEN
+    SELECT work_hours_per_day INTO _hours_per_day
+    FROM public.holiday_calendars
+    WHERE id = public.get_user_holiday_calendar(NEW.user_id);
+
+    IF NEW.hours > COALESCE(_hours_per_day, 8) THEN
+      RAISE EXCEPTION 'Hourly leave cannot exceed % hours; request a full day instead', COALESCE(_hours_per_day, 8)
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.duration_unit IS DISTINCT FROM OLD.duration_unit
+    OR NEW.hours IS DISTINCT FROM OLD.hours
+    OR (NEW.status = 'approved' AND OLD.status <> 'approved') THEN
+    NEW.duration_days := public.calculate_leave_duration(
+      NEW.user_id,
+      NEW.start_date,
+      NEW.end_date,
+      NEW.duration_unit,
+      NEW.hours
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Add statuses for leave taken back by the employee
+-- (kept in its own migration: new enum values cannot be used in the transaction that adds them)
+ALTER TYPE public.leave_status ADD VALUE IF NOT EXISTS 'withdrawn';
+ALTER TYPE public.leave_status ADD VALUE IF NOT EXISTS 'cancelled';
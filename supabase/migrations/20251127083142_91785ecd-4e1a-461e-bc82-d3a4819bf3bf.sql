@@ -0,0 +1,112 @@
+-- Cancellation of approved leave is requested by the owner and decided by an admin
+ALTER TABLE public.leaves
+  ADD COLUMN cancellation_requested_at TIMESTAMPTZ,
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN cancellation_reviewed_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN cancellation_reviewed_at TIMESTAMPTZ;
+
+-- Owners may update their own pending or approved leaves; the guard trigger below
+-- narrows this down to withdrawing and requesting cancellation
+CREATE POLICY "Users can withdraw or request cancellation of own leaves"
+  ON public.leaves
+  FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    AND status IN ('pending', 'approved')
+  )
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status IN ('withdrawn', 'approved')
+  );
+
+-- Trigger function restricting what a non-admin owner can change on a leave
+CREATE OR REPLACE FUNCTION public.guard_leave_owner_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changed JSONB;
+BEGIN
+  -- Admins and server-side code are not restricted
+  IF auth.uid() IS NULL OR has_role(auth.uid(), 'admin'::app_role) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Columns that differ between OLD and NEW, ignoring bookkeeping
+  SELECT COALESCE(jsonb_object_agg(n.key, n.value), '{}'::JSONB) INTO _changed
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key NOT IN ('updated_at', 'duration_days');
+
+  -- Pending -> withdrawn, nothing else touched
+  IF OLD.status = 'pending' AND NEW.status = 'withdrawn'
+    AND _changed - 'status' = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  -- Approved -> cancellation requested, only the request columns touched
+  IF OLD.status = 'approved' AND NEW.status = 'approved'
+    AND OLD.cancellation_requested_at IS NULL
+    AND NEW.cancellation_requested_at IS NOT NULL
+    AND _changed - 'cancellation_requested_at' - 'cancellation_reason' = '{}'::JSONB THEN
+    NEW.cancellation_requested_at := NOW();
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'You can only withdraw a pending leave or request cancellation of an approved one'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE TRIGGER guard_leave_owner_update
+  BEFORE UPDATE ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_leave_owner_update();
+
+-- Credit reversals to whoever made the change (an admin approving a cancellation)
+CREATE OR REPLACE FUNCTION public.post_leave_ledger_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _net_days NUMERIC;
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status <> 'approved') THEN
+    INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by)
+    VALUES (
+      NEW.user_id,
+      NEW.type,
+      public.leave_year(NEW.start_date),
+      'deduction',
+      -NEW.duration_days,
+      NEW.id,
+      NEW.reviewed_by
+    );
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    SELECT COALESCE(SUM(days), 0) INTO _net_days
+    FROM public.leave_ledger
+    WHERE leave_id = OLD.id;
+
+    IF _net_days < 0 THEN
+      INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by, notes)
+      VALUES (
+        OLD.user_id,
+        OLD.type,
+        public.leave_year(OLD.start_date),
+        'reversal',
+        -_net_days,
+        OLD.id,
+        COALESCE(auth.uid(), NEW.reviewed_by),
+        'Reversed on status change to ' || NEW.status
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Rejections must explain themselves (existing rows are left as they are)
+ALTER TABLE public.leaves
+  ADD CONSTRAINT leaves_rejection_requires_notes
+  CHECK (status <> 'rejected' OR COALESCE(btrim(review_notes), '') <> '')
+  NOT VALID;
+
+-- Let employees see the name of whoever reviewed their leave
+CREATE POLICY "Users can view reviewers of own leaves"
+  ON public.profiles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.leaves
+      WHERE leaves.reviewed_by = profiles.id
+      AND leaves.user_id = auth.uid()
+    )
+  );
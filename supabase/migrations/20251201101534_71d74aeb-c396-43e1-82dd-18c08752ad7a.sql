@@ -0,0 +1,148 @@
+-- Prevent an employee from holding two active leaves on the same dates.
+-- Partial days may share a date as long as they do not cover the same time:
+-- a morning and an afternoon half day, or hourly leave next to a half day.
+CREATE OR REPLACE FUNCTION public.prevent_overlapping_leaves()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _conflict RECORD;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise concurrent requests from the same employee
+  PERFORM pg_advisory_xact_lock(hashtext('leaves:' || NEW.user_id::text));
+
+  SELECT start_date, end_date, status INTO _conflict
+  FROM public.leaves
+  WHERE user_id = NEW.user_id
+    AND id <> NEW.id
+    AND status IN ('pending', 'approved')
+    AND daterange(start_date, end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+    AND (
+      duration_unit = 'full_day'
+      OR NEW.duration_unit = 'full_day'
+      OR (
+        duration_unit = 'half_day'
+        AND NEW.duration_unit = 'half_day'
+        AND half_day_period = NEW.half_day_period
+      )
+    )
+  ORDER BY start_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This leave overlaps your % leave from % to %',
+      _conflict.status, _conflict.start_date, _conflict.end_date
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_overlapping_leaves
+  BEFORE INSERT OR UPDATE OF start_date, end_date, status, duration_unit, half_day_period
+  ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_overlapping_leaves();
+
+-- Create department coverage rules table
+CREATE TABLE public.department_coverage_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  department TEXT NOT NULL UNIQUE,
+  max_concurrent_absences INTEGER NOT NULL CHECK (max_concurrent_absences >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.department_coverage_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view coverage rules"
+  ON public.department_coverage_rules
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can manage coverage rules"
+  ON public.department_coverage_rules
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_department_coverage_rules_updated_at
+  BEFORE UPDATE ON public.department_coverage_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Working days on which approving a leave would leave its department with
+-- more people out than the coverage rule allows. absent_count includes the
+-- leave itself; names list the colleagues already approved for that day.
+CREATE OR REPLACE FUNCTION public.get_leave_coverage_conflicts(_leave_id UUID)
+RETURNS TABLE (
+  absence_date DATE,
+  department TEXT,
+  absent_count INTEGER,
+  max_concurrent_absences INTEGER,
+  absent_names TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+  _department TEXT;
+  _max INTEGER;
+  _calendar_id UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can check leave coverage'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT p.department INTO _department FROM public.profiles p WHERE p.id = _leave.user_id;
+
+  SELECT r.max_concurrent_absences INTO _max
+  FROM public.department_coverage_rules r
+  WHERE r.department = _department;
+
+  IF _max IS NULL THEN
+    RETURN;
+  END IF;
+
+  _calendar_id := public.get_user_holiday_calendar(_leave.user_id);
+
+  RETURN QUERY
+  SELECT
+    d.day::DATE,
+    _department,
+    (COUNT(l.id) + 1)::INTEGER,
+    _max,
+    COALESCE(array_agg(p.name ORDER BY p.name) FILTER (WHERE l.id IS NOT NULL), '{}')
+  FROM generate_series(_leave.start_date, _leave.end_date, INTERVAL '1 day') AS d(day)
+  LEFT JOIN public.leaves l
+    ON l.status = 'approved'
+    AND l.user_id <> _leave.user_id
+    AND d.day::DATE BETWEEN l.start_date AND l.end_date
+    AND EXISTS (
+      SELECT 1 FROM public.profiles colleague
+      WHERE colleague.id = l.user_id
+      AND colleague.department = _department
+    )
+  LEFT JOIN public.profiles p ON p.id = l.user_id
+  WHERE public.count_working_days(_calendar_id, d.day::DATE, d.day::DATE) > 0
+  GROUP BY d.day
+  HAVING COUNT(l.id) + 1 > _max
+  ORDER BY d.day;
+END;
+$$;
@@ -0,0 +1,60 @@
+-- Leaves shown on the team calendar. Employees see their own department,
+-- admins see everyone; reasons and review notes are left out on purpose.
+CREATE OR REPLACE FUNCTION public.get_team_leave_calendar(
+  _start_date DATE,
+  _end_date DATE,
+  _department TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  employee_name TEXT,
+  department TEXT,
+  type leave_type,
+  status leave_status,
+  start_date DATE,
+  end_date DATE,
+  duration_unit leave_duration_unit,
+  half_day_period half_day_period,
+  hours NUMERIC,
+  duration_days NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := has_role(auth.uid(), 'admin'::app_role);
+  _own_department TEXT;
+BEGIN
+  SELECT p.department INTO _own_department FROM public.profiles p WHERE p.id = auth.uid();
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.user_id,
+    p.name,
+    p.department,
+    l.type,
+    l.status,
+    l.start_date,
+    l.end_date,
+    l.duration_unit,
+    l.half_day_period,
+    l.hours,
+    l.duration_days
+  FROM public.leaves l
+  JOIN public.profiles p ON p.id = l.user_id
+  WHERE l.status IN ('pending', 'approved')
+    AND l.start_date <= _end_date
+    AND l.end_date >= _start_date
+    AND (_department IS NULL OR p.department = _department)
+    AND (
+      _is_admin
+      OR l.user_id = auth.uid()
+      OR (_own_department IS NOT NULL AND p.department = _own_department)
+    )
+  ORDER BY p.name, l.start_date;
+END;
+$$;
@@ -0,0 +1,127 @@
+-- Private bucket for supporting documents; objects live under <user_id>/<leave_id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'leave-attachments',
+  'leave-attachments',
+  false,
+  10485760,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/heic']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own leave attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'leave-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can view own leave attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'leave-attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  );
+
+CREATE POLICY "Users can delete own leave attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'leave-attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR has_role(auth.uid(), 'admin'::app_role)
+    )
+  );
+
+-- Create leave attachments table
+CREATE TABLE public.leave_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  leave_id UUID NOT NULL REFERENCES public.leaves(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  content_type TEXT,
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX leave_attachments_leave_id_idx ON public.leave_attachments (leave_id);
+
+ALTER TABLE public.leave_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own leave attachments"
+  ON public.leave_attachments
+  FOR SELECT
+  USING (auth.uid() = user_id OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Documents can be added until the leave has been decided
+CREATE POLICY "Users can attach files to own pending leaves"
+  ON public.leave_attachments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND storage_path LIKE auth.uid()::text || '/' || leave_id::text || '/%'
+    AND EXISTS (
+      SELECT 1 FROM public.leaves
+      WHERE leaves.id = leave_id
+      AND leaves.user_id = auth.uid()
+      AND leaves.status = 'pending'
+    )
+  );
+
+CREATE POLICY "Users can remove attachments from own pending leaves"
+  ON public.leave_attachments
+  FOR DELETE
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR (
+      auth.uid() = user_id
+      AND EXISTS (
+        SELECT 1 FROM public.leaves
+        WHERE leaves.id = leave_id
+        AND leaves.status = 'pending'
+      )
+    )
+  );
+
+-- Files are uploaded after the leave row exists, so a required document is
+-- checked when the leave is approved rather than when it is submitted
+CREATE OR REPLACE FUNCTION public.require_leave_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.leave_policies;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  _policy := public.get_applicable_leave_policy(NEW.user_id, NEW.type);
+
+  IF _policy.attachment_required AND NOT EXISTS (
+    SELECT 1 FROM public.leave_attachments WHERE leave_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A supporting document is required before this leave can be approved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_leave_attachment
+  BEFORE UPDATE OF status ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_leave_attachment();
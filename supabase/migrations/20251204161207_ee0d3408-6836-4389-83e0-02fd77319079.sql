@@ -0,0 +1,53 @@
+-- Approve or reject several pending leaves in one call. Each row is applied
+-- in its own savepoint, so one failure (e.g. an overlap or a missing
+-- document) is reported for that row without undoing the others.
+-- Runs with the caller's privileges: only admins pass the leaves UPDATE policy.
+CREATE OR REPLACE FUNCTION public.review_leaves(
+  _leave_ids UUID[],
+  _decision leave_status,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  leave_id UUID,
+  success BOOLEAN,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _leave_id UUID;
+BEGIN
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Leaves can only be approved or rejected in bulk'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOREACH _leave_id IN ARRAY _leave_ids LOOP
+    leave_id := _leave_id;
+
+    BEGIN
+      UPDATE public.leaves
+      SET
+        status = _decision,
+        review_notes = NULLIF(btrim(_notes), ''),
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+      WHERE id = _leave_id
+        AND status = 'pending';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Leave is no longer pending or you cannot review it';
+      END IF;
+
+      success := true;
+      error_message := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      success := false;
+      error_message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
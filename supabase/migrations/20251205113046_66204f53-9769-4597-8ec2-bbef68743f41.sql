@@ -0,0 +1,241 @@
+-- Create approval delegations table
+CREATE TABLE public.approval_delegations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  delegator_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT approval_delegations_dates CHECK (ends_on >= starts_on),
+  CONSTRAINT approval_delegations_not_self CHECK (delegate_id <> delegator_id)
+);
+
+ALTER TABLE public.approval_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view delegations they are part of"
+  ON public.approval_delegations
+  FOR SELECT
+  USING (
+    auth.uid() IN (delegator_id, delegate_id)
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Admins can delegate their approvals"
+  ON public.approval_delegations
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = delegator_id
+    AND has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Delegators can remove their delegations"
+  ON public.approval_delegations
+  FOR DELETE
+  USING (auth.uid() = delegator_id OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Approver a user is standing in for today, if any. A delegation lapses if
+-- the delegator is no longer an admin.
+CREATE OR REPLACE FUNCTION public.get_active_delegator(_user_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.delegator_id
+  FROM public.approval_delegations d
+  WHERE d.delegate_id = _user_id
+    AND CURRENT_DATE BETWEEN d.starts_on AND d.ends_on
+    AND public.has_role(d.delegator_id, 'admin'::app_role)
+  ORDER BY d.starts_on
+  LIMIT 1
+$$;
+
+-- Admins and today's delegates can approve or reject leave
+CREATE OR REPLACE FUNCTION public.can_review_leaves(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin'::app_role)
+    OR public.get_active_delegator(_user_id) IS NOT NULL
+$$;
+
+-- Whose authority a decision was made under, when it was made by a delegate
+ALTER TABLE public.leaves
+  ADD COLUMN reviewed_on_behalf_of UUID REFERENCES public.profiles(id);
+
+CREATE POLICY "Delegates can view leaves"
+  ON public.leaves
+  FOR SELECT
+  USING (public.get_active_delegator(auth.uid()) IS NOT NULL);
+
+-- Delegates review other people's leave, so they need to see who asked for it
+CREATE POLICY "Delegates can view profiles"
+  ON public.profiles
+  FOR SELECT
+  USING (public.get_active_delegator(auth.uid()) IS NOT NULL);
+
+-- The guard trigger limits delegates to the review columns
+CREATE POLICY "Delegates can review pending leaves"
+  ON public.leaves
+  FOR UPDATE
+  USING (
+    status = 'pending'
+    AND user_id <> auth.uid()
+    AND public.get_active_delegator(auth.uid()) IS NOT NULL
+  )
+  WITH CHECK (
+    status IN ('approved', 'rejected')
+    AND public.get_active_delegator(auth.uid()) IS NOT NULL
+  );
+
+CREATE POLICY "Delegates can view leave attachments"
+  ON public.leave_attachments
+  FOR SELECT
+  USING (public.get_active_delegator(auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Delegates can view leave attachment files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'leave-attachments'
+    AND public.get_active_delegator(auth.uid()) IS NOT NULL
+  );
+
+-- Let delegates decide pending leaves and stamp who they decided for
+CREATE OR REPLACE FUNCTION public.guard_leave_owner_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changed JSONB;
+  _delegator UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Admins decide under their own authority
+  IF has_role(auth.uid(), 'admin'::app_role) THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+      NEW.reviewed_on_behalf_of := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Columns that differ between OLD and NEW, ignoring bookkeeping
+  SELECT COALESCE(jsonb_object_agg(n.key, n.value), '{}'::JSONB) INTO _changed
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key NOT IN ('updated_at', 'duration_days');
+
+  -- Delegate deciding someone else's pending leave, only the review columns touched
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected')
+    AND OLD.user_id <> auth.uid()
+    AND _changed - 'status' - 'review_notes' - 'reviewed_by' - 'reviewed_at'
+      - 'reviewed_on_behalf_of' = '{}'::JSONB THEN
+    _delegator := public.get_active_delegator(auth.uid());
+
+    IF _delegator IS NOT NULL THEN
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := NOW();
+      NEW.reviewed_on_behalf_of := _delegator;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Pending -> withdrawn, nothing else touched
+  IF OLD.status = 'pending' AND NEW.status = 'withdrawn'
+    AND OLD.user_id = auth.uid()
+    AND _changed - 'status' = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  -- Approved -> cancellation requested, only the request columns touched
+  IF OLD.status = 'approved' AND NEW.status = 'approved'
+    AND OLD.user_id = auth.uid()
+    AND OLD.cancellation_requested_at IS NULL
+    AND NEW.cancellation_requested_at IS NOT NULL
+    AND _changed - 'cancellation_requested_at' - 'cancellation_reason' = '{}'::JSONB THEN
+    NEW.cancellation_requested_at := NOW();
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'You can only withdraw a pending leave or request cancellation of an approved one'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+-- Delegates see the same coverage warnings as admins
+CREATE OR REPLACE FUNCTION public.get_leave_coverage_conflicts(_leave_id UUID)
+RETURNS TABLE (
+  absence_date DATE,
+  department TEXT,
+  absent_count INTEGER,
+  max_concurrent_absences INTEGER,
+  absent_names TEXT[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+  _department TEXT;
+  _max INTEGER;
+  _calendar_id UUID;
+BEGIN
+  IF NOT public.can_review_leaves(auth.uid()) THEN
+    RAISE EXCEPTION 'Only approvers can check leave coverage'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT p.department INTO _department FROM public.profiles p WHERE p.id = _leave.user_id;
+
+  SELECT r.max_concurrent_absences INTO _max
+  FROM public.department_coverage_rules r
+  WHERE r.department = _department;
+
+  IF _max IS NULL THEN
+    RETURN;
+  END IF;
+
+  _calendar_id := public.get_user_holiday_calendar(_leave.user_id);
+
+  RETURN QUERY
+  SELECT
+    d.day::DATE,
+    _department,
+    (COUNT(l.id) + 1)::INTEGER,
+    _max,
+    COALESCE(array_agg(p.name ORDER BY p.name) FILTER (WHERE l.id IS NOT NULL), '{}')
+  FROM generate_series(_leave.start_date, _leave.end_date, INTERVAL '1 day') AS d(day)
+  LEFT JOIN public.leaves l
+    ON l.status = 'approved'
+    AND l.user_id <> _leave.user_id
+    AND d.day::DATE BETWEEN l.start_date AND l.end_date
+    AND EXISTS (
+      SELECT 1 FROM public.profiles colleague
+      WHERE colleague.id = l.user_id
+      AND colleague.department = _department
+    )
+  LEFT JOIN public.profiles p ON p.id = l.user_id
+  WHERE public.count_working_days(_calendar_id, d.day::DATE, d.day::DATE) > 0
+  GROUP BY d.day
+  HAVING COUNT(l.id) + 1 > _max
+  ORDER BY d.day;
+END;
+$$;
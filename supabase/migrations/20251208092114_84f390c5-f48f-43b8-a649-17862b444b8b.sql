@@ -0,0 +1,3 @@
+-- Ledger entries written by the year-end rollover
+ALTER TYPE public.leave_ledger_entry_type ADD VALUE IF NOT EXISTS 'carry_over';
+ALTER TYPE public.leave_ledger_entry_type ADD VALUE IF NOT EXISTS 'expiry';
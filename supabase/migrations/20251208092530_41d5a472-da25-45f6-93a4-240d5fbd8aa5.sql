@@ -0,0 +1,169 @@
+-- Carry-overs move days between years (negative out of the old year, positive
+-- into the new one); expiries only ever remove days
+ALTER TABLE public.leave_ledger
+  DROP CONSTRAINT leave_ledger_days_sign,
+  ADD CONSTRAINT leave_ledger_days_sign CHECK (
+    (entry_type IN ('entitlement', 'accrual', 'reversal') AND days >= 0)
+    OR (entry_type IN ('deduction', 'expiry') AND days <= 0)
+    OR entry_type IN ('adjustment', 'carry_over')
+  );
+
+-- Days carried in count towards the entitlement of the new year
+CREATE OR REPLACE VIEW public.leave_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  user_id,
+  leave_type,
+  leave_year,
+  COALESCE(SUM(days) FILTER (
+    WHERE entry_type IN ('entitlement', 'accrual', 'adjustment')
+    OR (entry_type = 'carry_over' AND days > 0)
+  ), 0) AS entitled_days,
+  COALESCE(-SUM(days) FILTER (WHERE entry_type IN ('deduction', 'reversal')), 0) AS used_days,
+  SUM(days) AS balance_days,
+  COALESCE(SUM(days) FILTER (WHERE entry_type = 'carry_over' AND days > 0), 0) AS carried_over_days,
+  COALESCE(-SUM(days) FILTER (WHERE entry_type = 'carry_over' AND days < 0), 0) AS carried_forward_days,
+  COALESCE(-SUM(days) FILTER (WHERE entry_type = 'expiry'), 0) AS expired_days
+FROM public.leave_ledger
+GROUP BY user_id, leave_type, leave_year;
+
+-- Create carry-over rules table (types without a rule carry nothing over)
+CREATE TABLE public.leave_carry_over_rules (
+  leave_type leave_type NOT NULL PRIMARY KEY,
+  max_carry_over_days NUMERIC(6, 2) NOT NULL CHECK (max_carry_over_days >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.leave_carry_over_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view carry-over rules"
+  ON public.leave_carry_over_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage carry-over rules"
+  ON public.leave_carry_over_rules
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_leave_carry_over_rules_updated_at
+  BEFORE UPDATE ON public.leave_carry_over_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per leave year that has been rolled over
+CREATE TABLE public.leave_year_rollovers (
+  leave_year INTEGER NOT NULL PRIMARY KEY,
+  processed_by UUID REFERENCES public.profiles(id),
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.leave_year_rollovers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view rollovers"
+  ON public.leave_year_rollovers
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Close a leave year: carry each positive balance into the next year up to the
+-- type's cap and expire the rest. Running it again for the same year writes
+-- nothing and returns what the first run did.
+CREATE OR REPLACE FUNCTION public.process_leave_year_rollover(_leave_year INTEGER)
+RETURNS TABLE (
+  user_id UUID,
+  employee_name TEXT,
+  leave_type leave_type,
+  carried_days NUMERIC,
+  expired_days NUMERIC,
+  processed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance RECORD;
+  _carry NUMERIC;
+BEGIN
+  -- Scheduled runs have no user; everyone else must be an admin
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run the year-end rollover'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _leave_year >= public.leave_year(CURRENT_DATE) THEN
+    RAISE EXCEPTION 'Leave year % has not ended yet', _leave_year
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('leave_year_rollover'), _leave_year);
+
+  IF NOT EXISTS (SELECT 1 FROM public.leave_year_rollovers r WHERE r.leave_year = _leave_year) THEN
+    FOR _balance IN
+      SELECT l.user_id, l.leave_type, SUM(l.days) AS days
+      FROM public.leave_ledger l
+      WHERE l.leave_year = _leave_year
+      GROUP BY l.user_id, l.leave_type
+      HAVING SUM(l.days) > 0
+    LOOP
+      SELECT LEAST(_balance.days, COALESCE(MAX(c.max_carry_over_days), 0)) INTO _carry
+      FROM public.leave_carry_over_rules c
+      WHERE c.leave_type = _balance.leave_type;
+
+      IF _carry > 0 THEN
+        INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, created_by, notes)
+        VALUES
+          (_balance.user_id, _balance.leave_type, _leave_year, 'carry_over', -_carry, auth.uid(),
+            'Carried over to ' || (_leave_year + 1)),
+          (_balance.user_id, _balance.leave_type, _leave_year + 1, 'carry_over', _carry, auth.uid(),
+            'Carried over from ' || _leave_year);
+      END IF;
+
+      IF _balance.days > _carry THEN
+        INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, created_by, notes)
+        VALUES (_balance.user_id, _balance.leave_type, _leave_year, 'expiry', _carry - _balance.days,
+          auth.uid(), 'Expired at the end of ' || _leave_year);
+      END IF;
+    END LOOP;
+
+    INSERT INTO public.leave_year_rollovers (leave_year, processed_by)
+    VALUES (_leave_year, auth.uid());
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.user_id,
+    p.name,
+    l.leave_type,
+    COALESCE(-SUM(l.days) FILTER (WHERE l.entry_type = 'carry_over'), 0),
+    COALESCE(-SUM(l.days) FILTER (WHERE l.entry_type = 'expiry'), 0),
+    r.processed_at
+  FROM public.leave_ledger l
+  JOIN public.leave_year_rollovers r ON r.leave_year = l.leave_year
+  JOIN public.profiles p ON p.id = l.user_id
+  WHERE l.leave_year = _leave_year
+    AND l.entry_type IN ('carry_over', 'expiry')
+    -- Days carried in from the year before are not part of this year's rollover
+    AND l.days < 0
+  GROUP BY l.user_id, p.name, l.leave_type, r.processed_at
+  ORDER BY p.name, l.leave_type;
+END;
+$$;
+
+-- Roll the previous year over shortly after midnight on 1 January, where
+-- pg_cron is available; otherwise admins run it from the Leaves page
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'leave-year-rollover',
+      '15 0 1 1 *',
+      'SELECT public.process_leave_year_rollover(public.leave_year(CURRENT_DATE) - 1)'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,391 @@
+-- Create leave types table replacing the hard-coded leave_type enum.
+-- The key keeps the old enum values so existing rows stay valid.
+CREATE TABLE public.leave_types (
+  key TEXT NOT NULL PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  name TEXT NOT NULL UNIQUE,
+  color TEXT NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  is_paid BOOLEAN NOT NULL DEFAULT true,
+  requires_attachment BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.leave_types (key, name, color, is_paid, sort_order) VALUES
+  ('vacation', 'Vacation', '#0ea5e9', true, 10),
+  ('sick', 'Sick Leave', '#ef4444', true, 20),
+  ('personal', 'Personal Leave', '#8b5cf6', true, 30),
+  ('bereavement', 'Bereavement Leave', '#78716c', true, 40),
+  ('parental', 'Parental Leave', '#ec4899', true, 50),
+  ('study', 'Study Leave', '#f59e0b', false, 60),
+  ('jury_duty', 'Jury Duty', '#14b8a6', true, 70),
+  ('other', 'Other', '#64748b', false, 80);
+
+ALTER TABLE public.leave_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view leave types"
+  ON public.leave_types
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage leave types"
+  ON public.leave_types
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_leave_types_updated_at
+  BEFORE UPDATE ON public.leave_types
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Point every leave type column at the table instead of the enum. The view,
+-- functions and trigger that depend on the enum are recreated further down.
+DROP VIEW public.leave_balances;
+DROP TRIGGER enforce_leave_policy ON public.leaves;
+DROP FUNCTION public.get_applicable_leave_policy(UUID, leave_type);
+DROP FUNCTION public.validate_leave_request(UUID, leave_type, DATE, DATE, TEXT);
+DROP FUNCTION public.get_team_leave_calendar(DATE, DATE, TEXT);
+DROP FUNCTION public.process_leave_year_rollover(INTEGER);
+
+ALTER TABLE public.leaves
+  ALTER COLUMN type TYPE TEXT USING type::TEXT,
+  ADD CONSTRAINT leaves_type_fkey FOREIGN KEY (type)
+    REFERENCES public.leave_types(key) ON UPDATE CASCADE;
+
+ALTER TABLE public.leave_ledger
+  ALTER COLUMN leave_type TYPE TEXT USING leave_type::TEXT,
+  ADD CONSTRAINT leave_ledger_leave_type_fkey FOREIGN KEY (leave_type)
+    REFERENCES public.leave_types(key) ON UPDATE CASCADE;
+
+ALTER TABLE public.leave_policies
+  ALTER COLUMN leave_type TYPE TEXT USING leave_type::TEXT,
+  ADD CONSTRAINT leave_policies_leave_type_fkey FOREIGN KEY (leave_type)
+    REFERENCES public.leave_types(key) ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.leave_carry_over_rules
+  ALTER COLUMN leave_type TYPE TEXT USING leave_type::TEXT,
+  ADD CONSTRAINT leave_carry_over_rules_leave_type_fkey FOREIGN KEY (leave_type)
+    REFERENCES public.leave_types(key) ON UPDATE CASCADE ON DELETE CASCADE;
+
+DROP TYPE public.leave_type;
+
+-- Balances per employee, leave type and leave year
+CREATE VIEW public.leave_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  user_id,
+  leave_type,
+  leave_year,
+  COALESCE(SUM(days) FILTER (
+    WHERE entry_type IN ('entitlement', 'accrual', 'adjustment')
+    OR (entry_type = 'carry_over' AND days > 0)
+  ), 0) AS entitled_days,
+  COALESCE(-SUM(days) FILTER (WHERE entry_type IN ('deduction', 'reversal')), 0) AS used_days,
+  SUM(days) AS balance_days,
+  COALESCE(SUM(days) FILTER (WHERE entry_type = 'carry_over' AND days > 0), 0) AS carried_over_days,
+  COALESCE(-SUM(days) FILTER (WHERE entry_type = 'carry_over' AND days < 0), 0) AS carried_forward_days,
+  COALESCE(-SUM(days) FILTER (WHERE entry_type = 'expiry'), 0) AS expired_days
+FROM public.leave_ledger
+GROUP BY user_id, leave_type, leave_year;
+
+-- Policy that applies to a user and leave type: department-specific first
+CREATE OR REPLACE FUNCTION public.get_applicable_leave_policy(_user_id UUID, _leave_type TEXT)
+RETURNS public.leave_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.*
+  FROM public.leave_policies lp
+  WHERE lp.leave_type = _leave_type
+    AND (
+      lp.department IS NULL
+      OR lp.department = (SELECT department FROM public.profiles WHERE id = _user_id)
+    )
+  ORDER BY lp.department NULLS LAST
+  LIMIT 1
+$$;
+
+-- Validate a leave request against its policy; returns one message per violation.
+-- Mirrored client-side by validateLeaveRequest() in src/lib/leavePolicy.ts.
+CREATE OR REPLACE FUNCTION public.validate_leave_request(
+  _user_id UUID,
+  _leave_type TEXT,
+  _start_date DATE,
+  _end_date DATE,
+  _reason TEXT
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.leave_policies;
+  _blackout RECORD;
+  _errors TEXT[] := '{}';
+BEGIN
+  IF _end_date < _start_date THEN
+    RETURN array_append(_errors, 'End date must be on or after the start date');
+  END IF;
+
+  IF public.calculate_leave_days(_user_id, _start_date, _end_date) = 0 THEN
+    RETURN array_append(_errors, 'The selected dates contain no working days');
+  END IF;
+
+  _policy := public.get_applicable_leave_policy(_user_id, _leave_type);
+
+  -- Without a policy only a reason is required
+  IF COALESCE(_policy.reason_required, true) AND COALESCE(btrim(_reason), '') = '' THEN
+    _errors := array_append(_errors, 'A reason is required for this leave type');
+  END IF;
+
+  IF _policy.id IS NULL THEN
+    RETURN _errors;
+  END IF;
+
+  IF _start_date - CURRENT_DATE < _policy.min_notice_days THEN
+    _errors := array_append(
+      _errors,
+      format('This leave type requires at least %s days notice', _policy.min_notice_days)
+    );
+  END IF;
+
+  IF _policy.max_consecutive_days IS NOT NULL
+    AND public.calculate_leave_days(_user_id, _start_date, _end_date) > _policy.max_consecutive_days THEN
+    _errors := array_append(
+      _errors,
+      format('This leave type allows at most %s consecutive days', _policy.max_consecutive_days)
+    );
+  END IF;
+
+  FOR _blackout IN
+    SELECT name, start_date, end_date
+    FROM public.leave_blackout_periods
+    WHERE policy_id = _policy.id
+      AND start_date <= _end_date
+      AND end_date >= _start_date
+    ORDER BY start_date
+  LOOP
+    _errors := array_append(
+      _errors,
+      format('Dates overlap the "%s" blackout period (%s to %s)', _blackout.name, _blackout.start_date, _blackout.end_date)
+    );
+  END LOOP;
+
+  RETURN _errors;
+END;
+$$;
+
+-- Leaves shown on the team calendar (unchanged apart from the type column)
+CREATE OR REPLACE FUNCTION public.get_team_leave_calendar(
+  _start_date DATE,
+  _end_date DATE,
+  _department TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  employee_name TEXT,
+  department TEXT,
+  type TEXT,
+  status leave_status,
+  start_date DATE,
+  end_date DATE,
+  duration_unit leave_duration_unit,
+  half_day_period half_day_period,
+  hours NUMERIC,
+  duration_days NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := has_role(auth.uid(), 'admin'::app_role);
+  _own_department TEXT;
+BEGIN
+  SELECT p.department INTO _own_department FROM public.profiles p WHERE p.id = auth.uid();
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    l.user_id,
+    p.name,
+    p.department,
+    l.type,
+    l.status,
+    l.start_date,
+    l.end_date,
+    l.duration_unit,
+    l.half_day_period,
+    l.hours,
+    l.duration_days
+  FROM public.leaves l
+  JOIN public.profiles p ON p.id = l.user_id
+  WHERE l.status IN ('pending', 'approved')
+    AND l.start_date <= _end_date
+    AND l.end_date >= _start_date
+    AND (_department IS NULL OR p.department = _department)
+    AND (
+      _is_admin
+      OR l.user_id = auth.uid()
+      OR (_own_department IS NOT NULL AND p.department = _own_department)
+    )
+  ORDER BY p.name, l.start_date;
+END;
+$$;
+
+-- Year-end rollover (unchanged apart from the type column)
+CREATE OR REPLACE FUNCTION public.process_leave_year_rollover(_leave_year INTEGER)
+RETURNS TABLE (
+  user_id UUID,
+  employee_name TEXT,
+  leave_type TEXT,
+  carried_days NUMERIC,
+  expired_days NUMERIC,
+  processed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance RECORD;
+  _carry NUMERIC;
+BEGIN
+  -- Scheduled runs have no user; everyone else must be an admin
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run the year-end rollover'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _leave_year >= public.leave_year(CURRENT_DATE) THEN
+    RAISE EXCEPTION 'Leave year % has not ended yet', _leave_year
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('leave_year_rollover'), _leave_year);
+
+  IF NOT EXISTS (SELECT 1 FROM public.leave_year_rollovers r WHERE r.leave_year = _leave_year) THEN
+    FOR _balance IN
+      SELECT l.user_id, l.leave_type, SUM(l.days) AS days
+      FROM public.leave_ledger l
+      WHERE l.leave_year = _leave_year
+      GROUP BY l.user_id, l.leave_type
+      HAVING SUM(l.days) > 0
+    LOOP
+      SELECT LEAST(_balance.days, COALESCE(MAX(c.max_carry_over_days), 0)) INTO _carry
+      FROM public.leave_carry_over_rules c
+      WHERE c.leave_type = _balance.leave_type;
+
+      IF _carry > 0 THEN
+        INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, created_by, notes)
+        VALUES
+          (_balance.user_id, _balance.leave_type, _leave_year, 'carry_over', -_carry, auth.uid(),
+            'Carried over to ' || (_leave_year + 1)),
+          (_balance.user_id, _balance.leave_type, _leave_year + 1, 'carry_over', _carry, auth.uid(),
+            'Carried over from ' || _leave_year);
+      END IF;
+
+      IF _balance.days > _carry THEN
+        INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, created_by, notes)
+        VALUES (_balance.user_id, _balance.leave_type, _leave_year, 'expiry', _carry - _balance.days,
+          auth.uid(), 'Expired at the end of ' || _leave_year);
+      END IF;
+    END LOOP;
+
+    INSERT INTO public.leave_year_rollovers (leave_year, processed_by)
+    VALUES (_leave_year, auth.uid());
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.user_id,
+    p.name,
+    l.leave_type,
+    COALESCE(-SUM(l.days) FILTER (WHERE l.entry_type = 'carry_over'), 0),
+    COALESCE(-SUM(l.days) FILTER (WHERE l.entry_type = 'expiry'), 0),
+    r.processed_at
+  FROM public.leave_ledger l
+  JOIN public.leave_year_rollovers r ON r.leave_year = l.leave_year
+  JOIN public.profiles p ON p.id = l.user_id
+  WHERE l.leave_year = _leave_year
+    AND l.entry_type IN ('carry_over', 'expiry')
+    -- Days carried in from the year before are not part of this year's rollover
+    AND l.days < 0
+  GROUP BY l.user_id, p.name, l.leave_type, r.processed_at
+  ORDER BY p.name, l.leave_type;
+END;
+$$;
+
+-- New requests (or a change of type) must use an active leave type
+CREATE OR REPLACE FUNCTION public.enforce_leave_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _errors TEXT[];
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.type IS DISTINCT FROM OLD.type) AND NOT EXISTS (
+    SELECT 1 FROM public.leave_types WHERE key = NEW.type AND is_active
+  ) THEN
+    RAISE EXCEPTION 'This leave type is no longer available'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  _errors := public.validate_leave_request(NEW.user_id, NEW.type, NEW.start_date, NEW.end_date, NEW.reason);
+
+  IF array_length(_errors, 1) > 0 THEN
+    RAISE EXCEPTION '%', array_to_string(_errors, '; ')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A document can be required by the leave type itself or by its policy
+CREATE OR REPLACE FUNCTION public.require_leave_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.leave_policies;
+  _type_requires BOOLEAN;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  _policy := public.get_applicable_leave_policy(NEW.user_id, NEW.type);
+
+  SELECT requires_attachment INTO _type_requires
+  FROM public.leave_types
+  WHERE key = NEW.type;
+
+  IF (COALESCE(_policy.attachment_required, false) OR COALESCE(_type_requires, false))
+    AND NOT EXISTS (SELECT 1 FROM public.leave_attachments WHERE leave_id = NEW.id) THEN
+    RAISE EXCEPTION 'A supporting document is required before this leave can be approved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_leave_policy
+  BEFORE INSERT OR UPDATE OF type, start_date, end_date, reason ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_leave_policy();
@@ -0,0 +1,157 @@
+-- Owners may now edit their own leave while it is still pending. The guard
+-- trigger below limits that to the request fields.
+DROP POLICY "Users can withdraw or request cancellation of own leaves" ON public.leaves;
+
+CREATE POLICY "Users can edit, withdraw or request cancellation of own leaves"
+  ON public.leaves
+  FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    AND status IN ('pending', 'approved')
+  )
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status IN ('pending', 'withdrawn', 'approved')
+  );
+
+-- Create leave revisions table. Each row holds the fields an edit changed,
+-- before and after, so reviewers can see what moved since the request was filed.
+CREATE TABLE public.leave_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  leave_id UUID NOT NULL REFERENCES public.leaves(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  edited_by UUID REFERENCES public.profiles(id),
+  previous_values JSONB NOT NULL,
+  new_values JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX leave_revisions_leave_id_idx ON public.leave_revisions (leave_id, created_at);
+
+ALTER TABLE public.leave_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY "Users can view own leave revisions"
+  ON public.leave_revisions
+  FOR SELECT
+  USING (auth.uid() = user_id OR has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Delegates can view leave revisions"
+  ON public.leave_revisions
+  FOR SELECT
+  USING (public.get_active_delegator(auth.uid()) IS NOT NULL);
+
+-- Owners may now also change the request fields of a pending leave
+CREATE OR REPLACE FUNCTION public.guard_leave_owner_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _changed JSONB;
+  _delegator UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Admins decide under their own authority
+  IF has_role(auth.uid(), 'admin'::app_role) THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected') THEN
+      NEW.reviewed_on_behalf_of := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Columns that differ between OLD and NEW, ignoring bookkeeping
+  SELECT COALESCE(jsonb_object_agg(n.key, n.value), '{}'::JSONB) INTO _changed
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key NOT IN ('updated_at', 'duration_days');
+
+  -- Delegate deciding someone else's pending leave, only the review columns touched
+  IF OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected')
+    AND OLD.user_id <> auth.uid()
+    AND _changed - 'status' - 'review_notes' - 'reviewed_by' - 'reviewed_at'
+      - 'reviewed_on_behalf_of' = '{}'::JSONB THEN
+    _delegator := public.get_active_delegator(auth.uid());
+
+    IF _delegator IS NOT NULL THEN
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := NOW();
+      NEW.reviewed_on_behalf_of := _delegator;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  -- Pending stays pending, only the request fields touched. Policy, overlap and
+  -- duration triggers run on these columns as they do on insert.
+  IF OLD.status = 'pending' AND NEW.status = 'pending'
+    AND OLD.user_id = auth.uid()
+    AND _changed - 'type' - 'start_date' - 'end_date' - 'duration_unit'
+      - 'half_day_period' - 'hours' - 'reason' = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  -- Pending -> withdrawn, nothing else touched
+  IF OLD.status = 'pending' AND NEW.status = 'withdrawn'
+    AND OLD.user_id = auth.uid()
+    AND _changed - 'status' = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  -- Approved -> cancellation requested, only the request columns touched
+  IF OLD.status = 'approved' AND NEW.status = 'approved'
+    AND OLD.user_id = auth.uid()
+    AND OLD.cancellation_requested_at IS NULL
+    AND NEW.cancellation_requested_at IS NOT NULL
+    AND _changed - 'cancellation_requested_at' - 'cancellation_reason' = '{}'::JSONB THEN
+    NEW.cancellation_requested_at := NOW();
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'You can only edit or withdraw a pending leave, or request cancellation of an approved one'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+-- Record every edit of a pending leave's request fields
+CREATE OR REPLACE FUNCTION public.record_leave_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous JSONB;
+  _new JSONB;
+BEGIN
+  IF OLD.status <> 'pending' OR NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_object_agg(o.key, o.value), '{}'::JSONB),
+    COALESCE(jsonb_object_agg(n.key, n.value), '{}'::JSONB)
+  INTO _previous, _new
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key IN ('type', 'start_date', 'end_date', 'duration_unit', 'half_day_period',
+                  'hours', 'duration_days', 'reason');
+
+  IF _new <> '{}'::JSONB THEN
+    INSERT INTO public.leave_revisions (leave_id, user_id, edited_by, previous_values, new_values)
+    VALUES (NEW.id, NEW.user_id, auth.uid(), _previous, _new);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_leave_revision
+  AFTER UPDATE ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_leave_revision();
@@ -0,0 +1,45 @@
+-- Create calendar feed tokens table. The token in a subscription URL stands in
+-- for the user's session, since calendar clients cannot sign in.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are issued by regenerate_calendar_feed_token() below
+CREATE POLICY "Users can view own calendar feed token"
+  ON public.calendar_feed_tokens
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can revoke own calendar feed token"
+  ON public.calendar_feed_tokens
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Issues a new feed token for the current user; the previous URL stops working
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT := encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), _token)
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token,
+        created_at = NOW();
+
+  RETURN _token;
+END;
+$$;
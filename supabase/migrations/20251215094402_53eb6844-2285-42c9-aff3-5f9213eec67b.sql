@@ -0,0 +1,101 @@
+-- Create leave comments table for the discussion between an employee and reviewers
+CREATE TABLE public.leave_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  leave_id UUID NOT NULL REFERENCES public.leaves(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(btrim(body)) BETWEEN 1 AND 2000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX leave_comments_leave_id_idx ON public.leave_comments (leave_id, created_at);
+
+ALTER TABLE public.leave_comments ENABLE ROW LEVEL SECURITY;
+
+-- The leave's owner and anyone who can review leave take part in the thread
+CREATE POLICY "Participants can view leave comments"
+  ON public.leave_comments
+  FOR SELECT
+  USING (
+    public.can_review_leaves(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.leaves
+      WHERE leaves.id = leave_id
+      AND leaves.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Participants can add leave comments"
+  ON public.leave_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_id
+    AND (
+      public.can_review_leaves(auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM public.leaves
+        WHERE leaves.id = leave_id
+        AND leaves.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Create leave comment reads table: when each user last opened a leave's thread
+CREATE TABLE public.leave_comment_reads (
+  leave_id UUID NOT NULL REFERENCES public.leaves(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (leave_id, user_id)
+);
+
+ALTER TABLE public.leave_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own comment reads"
+  ON public.leave_comment_reads
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own comment reads"
+  ON public.leave_comment_reads
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own comment reads"
+  ON public.leave_comment_reads
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Marks a leave's thread as read up to now for the current user
+CREATE OR REPLACE FUNCTION public.mark_leave_comments_read(_leave_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO public.leave_comment_reads (leave_id, user_id, last_read_at)
+  VALUES (_leave_id, auth.uid(), NOW())
+  ON CONFLICT (leave_id, user_id) DO UPDATE
+    SET last_read_at = EXCLUDED.last_read_at;
+$$;
+
+-- Comments by others the current user has not seen yet, per leave.
+-- Runs as the caller so only threads they can see are counted.
+CREATE OR REPLACE FUNCTION public.get_unread_leave_comment_counts()
+RETURNS TABLE (
+  leave_id UUID,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT c.leave_id, COUNT(*)::INTEGER
+  FROM public.leave_comments c
+  LEFT JOIN public.leave_comment_reads r
+    ON r.leave_id = c.leave_id
+    AND r.user_id = auth.uid()
+  WHERE c.author_id <> auth.uid()
+    AND (r.last_read_at IS NULL OR c.created_at > r.last_read_at)
+  GROUP BY c.leave_id;
+$$;
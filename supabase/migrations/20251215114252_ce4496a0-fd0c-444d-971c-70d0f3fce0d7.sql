@@ -0,0 +1,12 @@
+-- Let employees see the name of whoever commented on their leave
+CREATE POLICY "Users can view commenters on own leaves"
+  ON public.profiles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.leave_comments
+      JOIN public.leaves ON leaves.id = leave_comments.leave_id
+      WHERE leave_comments.author_id = profiles.id
+      AND leaves.user_id = auth.uid()
+    )
+  );
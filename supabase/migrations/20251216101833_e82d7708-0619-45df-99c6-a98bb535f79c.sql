@@ -0,0 +1,3 @@
+-- Support the sort orders and date range filter of the paged leave list
+CREATE INDEX idx_leaves_created_at ON public.leaves(created_at DESC);
+CREATE INDEX idx_leaves_start_date ON public.leaves(start_date);
@@ -0,0 +1,332 @@
+-- Comp-off: extra hours worked turn into bookable leave once an admin approves them
+INSERT INTO public.leave_types (key, name, color, is_paid, sort_order)
+VALUES ('comp_off', 'Comp Off', '#22c55e', true, 75)
+ON CONFLICT (key) DO NOTHING;
+
+-- Comp-off follows its own expiry window rather than the leave year, so
+-- whatever is left at year end moves into the next year
+INSERT INTO public.leave_carry_over_rules (leave_type, max_carry_over_days)
+VALUES ('comp_off', 365)
+ON CONFLICT (leave_type) DO NOTHING;
+
+-- Create comp-off rules table (a single row for the whole organisation)
+CREATE TABLE public.comp_off_rules (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  leave_type TEXT NOT NULL DEFAULT 'comp_off'
+    REFERENCES public.leave_types(key) ON UPDATE CASCADE,
+  -- Hours in a regular working day; anything beyond earns comp-off
+  scheduled_hours NUMERIC(4, 2) NOT NULL DEFAULT 8 CHECK (scheduled_hours > 0 AND scheduled_hours <= 24),
+  -- Extra hours that make up one day of comp-off
+  hours_per_day NUMERIC(4, 2) NOT NULL DEFAULT 8 CHECK (hours_per_day > 0 AND hours_per_day <= 24),
+  -- Days after the day worked until unused comp-off expires
+  expiry_days INTEGER NOT NULL DEFAULT 90 CHECK (expiry_days > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.comp_off_rules (id) VALUES (true);
+
+ALTER TABLE public.comp_off_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view comp-off rules"
+  ON public.comp_off_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update comp-off rules"
+  ON public.comp_off_rules
+  FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_comp_off_rules_updated_at
+  BEFORE UPDATE ON public.comp_off_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TYPE public.comp_off_credit_status AS ENUM ('pending', 'approved', 'rejected');
+
+-- Create comp-off credits table: one per employee and day with extra hours
+CREATE TABLE public.comp_off_credits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  is_working_day BOOLEAN NOT NULL,
+  hours_worked NUMERIC(5, 2) NOT NULL,
+  extra_hours NUMERIC(5, 2) NOT NULL,
+  days NUMERIC(4, 2) NOT NULL CHECK (days > 0),
+  status comp_off_credit_status NOT NULL DEFAULT 'pending',
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  expires_on DATE,
+  expired_days NUMERIC(4, 2),
+  expired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, work_date)
+);
+
+CREATE INDEX idx_comp_off_credits_status ON public.comp_off_credits(status);
+
+ALTER TABLE public.comp_off_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own comp-off or admins view all"
+  ON public.comp_off_credits
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Admins can review comp-off"
+  ON public.comp_off_credits
+  FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_comp_off_credits_updated_at
+  BEFORE UPDATE ON public.comp_off_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recalculate the pending credit for an employee's day from their closed
+-- attendance. Weekends and holidays earn every hour worked, other days only
+-- the hours beyond the schedule, rounded down to half days. Credits that
+-- have already been decided are left alone.
+CREATE OR REPLACE FUNCTION public.refresh_comp_off_credit(_user_id UUID, _work_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rules public.comp_off_rules;
+  _hours NUMERIC;
+  _is_working_day BOOLEAN;
+  _extra NUMERIC;
+  _days NUMERIC;
+BEGIN
+  SELECT * INTO _rules FROM public.comp_off_rules;
+  IF NOT FOUND OR NOT _rules.is_active THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.comp_off_credits
+    WHERE user_id = _user_id
+      AND work_date = _work_date
+      AND status <> 'pending'
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (a.clock_out - a.clock_in)) / 3600), 0) INTO _hours
+  FROM public.attendance a
+  WHERE a.user_id = _user_id
+    AND a.clock_in::DATE = _work_date
+    AND a.clock_out IS NOT NULL;
+
+  _is_working_day := public.count_working_days(
+    public.get_user_holiday_calendar(_user_id), _work_date, _work_date
+  ) > 0;
+  _extra := CASE
+    WHEN _is_working_day THEN GREATEST(_hours - _rules.scheduled_hours, 0)
+    ELSE _hours
+  END;
+  _days := FLOOR(_extra * 2 / _rules.hours_per_day) / 2;
+
+  IF _days <= 0 THEN
+    DELETE FROM public.comp_off_credits
+    WHERE user_id = _user_id AND work_date = _work_date AND status = 'pending';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.comp_off_credits (user_id, work_date, is_working_day, hours_worked, extra_hours, days)
+  VALUES (_user_id, _work_date, _is_working_day, ROUND(_hours, 2), ROUND(_extra, 2), _days)
+  ON CONFLICT (user_id, work_date) DO UPDATE
+    SET is_working_day = EXCLUDED.is_working_day,
+      hours_worked = EXCLUDED.hours_worked,
+      extra_hours = EXCLUDED.extra_hours,
+      days = EXCLUDED.days
+    WHERE comp_off_credits.status = 'pending';
+END;
+$$;
+
+-- Only the attendance trigger below recalculates credits
+REVOKE EXECUTE ON FUNCTION public.refresh_comp_off_credit(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_comp_off_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_comp_off_credit(NEW.user_id, NEW.clock_in::DATE);
+  END IF;
+
+  -- The record may have moved to another day or employee, or been deleted
+  IF TG_OP = 'DELETE' OR (
+    TG_OP = 'UPDATE'
+    AND (OLD.user_id <> NEW.user_id OR OLD.clock_in::DATE <> NEW.clock_in::DATE)
+  ) THEN
+    PERFORM public.refresh_comp_off_credit(OLD.user_id, OLD.clock_in::DATE);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_comp_off_credits
+  AFTER INSERT OR UPDATE OF user_id, clock_in, clock_out OR DELETE ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_comp_off_credits();
+
+-- Only pending credits can be decided, and only once. Approval starts the
+-- expiry window from the day worked.
+CREATE OR REPLACE FUNCTION public.guard_comp_off_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expiry_days INTEGER;
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'This comp-off has already been %', OLD.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'approved' THEN
+      SELECT expiry_days INTO _expiry_days FROM public.comp_off_rules;
+      NEW.expires_on := NEW.work_date + COALESCE(_expiry_days, 90);
+    END IF;
+  ELSIF OLD.status <> 'pending' AND NEW.days <> OLD.days THEN
+    RAISE EXCEPTION 'The days of a decided comp-off cannot change'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_comp_off_review
+  BEFORE UPDATE ON public.comp_off_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_comp_off_review();
+
+-- Approved comp-off is credited to the leave year of the day worked
+CREATE OR REPLACE FUNCTION public.post_comp_off_accrual()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status <> 'approved' THEN
+    INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, created_by, notes)
+    SELECT
+      NEW.user_id,
+      r.leave_type,
+      public.leave_year(NEW.work_date),
+      'accrual',
+      NEW.days,
+      NEW.reviewed_by,
+      'Comp-off for ' || to_char(NEW.work_date, 'YYYY-MM-DD')
+    FROM public.comp_off_rules r;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER post_comp_off_accrual
+  AFTER UPDATE OF status ON public.comp_off_credits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_comp_off_accrual();
+
+-- Expire whatever is left of approved credits past their expiry date.
+-- Comp-off is used oldest first, so the remaining balance belongs to the
+-- newest credits and an expiring credit only loses the part not covered
+-- by them. Returns the number of credits expired.
+CREATE OR REPLACE FUNCTION public.expire_comp_off_credits()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave_type TEXT;
+  _credit RECORD;
+  _balance NUMERIC;
+  _newer NUMERIC;
+  _unused NUMERIC;
+  _count INTEGER := 0;
+BEGIN
+  -- Scheduled runs have no user; everyone else must be an admin
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can expire comp-off'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT leave_type INTO _leave_type FROM public.comp_off_rules;
+
+  FOR _credit IN
+    SELECT c.*
+    FROM public.comp_off_credits c
+    WHERE c.status = 'approved'
+      AND c.expired_at IS NULL
+      AND c.expires_on < CURRENT_DATE
+    ORDER BY c.user_id, c.expires_on, c.created_at
+    FOR UPDATE
+  LOOP
+    SELECT COALESCE(SUM(l.days), 0) INTO _balance
+    FROM public.leave_ledger l
+    WHERE l.user_id = _credit.user_id
+      AND l.leave_type = _leave_type;
+
+    SELECT COALESCE(SUM(c.days), 0) INTO _newer
+    FROM public.comp_off_credits c
+    WHERE c.user_id = _credit.user_id
+      AND c.status = 'approved'
+      AND c.expired_at IS NULL
+      AND c.id <> _credit.id;
+
+    _unused := GREATEST(LEAST(_credit.days, _balance - _newer), 0);
+
+    IF _unused > 0 THEN
+      INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, created_by, notes)
+      VALUES (_credit.user_id, _leave_type, public.leave_year(CURRENT_DATE), 'expiry', -_unused,
+        auth.uid(), 'Comp-off for ' || to_char(_credit.work_date, 'YYYY-MM-DD') || ' expired');
+    END IF;
+
+    UPDATE public.comp_off_credits
+    SET expired_days = _unused, expired_at = NOW()
+    WHERE id = _credit.id;
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Expire comp-off shortly after midnight every day, where pg_cron is
+-- available; otherwise admins run it from the Attendance page
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-comp-off',
+      '30 0 * * *',
+      'SELECT public.expire_comp_off_credits()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,150 @@
+-- Create absence alert rules table (a single row for the whole organisation)
+CREATE TABLE public.absence_alert_rules (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  -- Leave type whose absences are analysed
+  leave_type TEXT NOT NULL DEFAULT 'sick'
+    REFERENCES public.leave_types(key) ON UPDATE CASCADE,
+  bradford_warning_score INTEGER NOT NULL DEFAULT 51 CHECK (bradford_warning_score > 0),
+  bradford_critical_score INTEGER NOT NULL DEFAULT 201,
+  -- Spells next to a weekend or holiday before an employee is flagged
+  adjacent_spells_threshold INTEGER NOT NULL DEFAULT 3 CHECK (adjacent_spells_threshold > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT absence_alert_rules_scores_order CHECK (bradford_critical_score > bradford_warning_score)
+);
+
+INSERT INTO public.absence_alert_rules (id) VALUES (true);
+
+ALTER TABLE public.absence_alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view absence alert rules"
+  ON public.absence_alert_rules
+  FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update absence alert rules"
+  ON public.absence_alert_rules
+  FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_absence_alert_rules_updated_at
+  BEFORE UPDATE ON public.absence_alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Spells of approved absence of one leave type that started in the 52 weeks
+-- up to _as_of. Requests only separated by weekends or holidays form a single
+-- spell. Flags whether the spell starts right after or ends right before a
+-- day off on the employee's calendar (the Monday/Friday pattern).
+CREATE OR REPLACE FUNCTION public.get_absence_spells(_leave_type TEXT, _as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  user_id UUID,
+  spell_start DATE,
+  spell_end DATE,
+  days NUMERIC,
+  leave_ids UUID[],
+  after_day_off BOOLEAN,
+  before_day_off BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can view absence patterns'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH absences AS (
+    SELECT
+      l.id,
+      l.user_id AS employee_id,
+      l.start_date,
+      l.end_date,
+      l.duration_days,
+      public.get_user_holiday_calendar(l.user_id) AS calendar_id,
+      LAG(l.end_date) OVER (PARTITION BY l.user_id ORDER BY l.start_date) AS previous_end
+    FROM public.leaves l
+    WHERE l.type = _leave_type
+      AND l.status = 'approved'
+      AND l.start_date > _as_of - 364
+      AND l.start_date <= _as_of
+  ),
+  numbered AS (
+    SELECT
+      a.*,
+      SUM(
+        CASE
+          WHEN a.previous_end IS NULL
+            OR public.count_working_days(a.calendar_id, a.previous_end + 1, a.start_date - 1) > 0
+          THEN 1
+          ELSE 0
+        END
+      ) OVER (PARTITION BY a.employee_id ORDER BY a.start_date) AS spell_number
+    FROM absences a
+  ),
+  spells AS (
+    SELECT
+      n.employee_id,
+      n.calendar_id,
+      MIN(n.start_date) AS first_day,
+      MAX(n.end_date) AS last_day,
+      SUM(n.duration_days) AS spell_days,
+      array_agg(n.id ORDER BY n.start_date) AS spell_leave_ids
+    FROM numbered n
+    GROUP BY n.employee_id, n.calendar_id, n.spell_number
+  )
+  SELECT
+    s.employee_id,
+    s.first_day,
+    s.last_day,
+    s.spell_days,
+    s.spell_leave_ids,
+    public.count_working_days(s.calendar_id, s.first_day - 1, s.first_day - 1) = 0,
+    public.count_working_days(s.calendar_id, s.last_day + 1, s.last_day + 1) = 0
+  FROM spells s
+  ORDER BY s.employee_id, s.first_day;
+END;
+$$;
+
+-- Bradford factor (spells squared times days) per employee over the rolling
+-- 52 weeks, for the leave type set in the absence alert rules
+CREATE OR REPLACE FUNCTION public.get_bradford_factor_report(_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  user_id UUID,
+  employee_name TEXT,
+  department TEXT,
+  spells INTEGER,
+  days NUMERIC,
+  bradford_score NUMERIC,
+  adjacent_spells INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave_type TEXT;
+BEGIN
+  SELECT r.leave_type INTO _leave_type FROM public.absence_alert_rules r;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.department,
+    COUNT(*)::INTEGER,
+    SUM(s.days),
+    (COUNT(*) * COUNT(*) * SUM(s.days))::NUMERIC,
+    (COUNT(*) FILTER (WHERE s.after_day_off OR s.before_day_off))::INTEGER
+  FROM public.get_absence_spells(_leave_type, _as_of) s
+  JOIN public.profiles p ON p.id = s.user_id
+  GROUP BY p.id, p.name, p.department
+  ORDER BY 6 DESC, p.name;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Create attendance settings table (a single row for the whole organisation)
+CREATE TABLE public.attendance_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  -- Lets employees clock themselves in and out
+  self_service_enabled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.attendance_settings (id) VALUES (true);
+
+ALTER TABLE public.attendance_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view attendance settings"
+  ON public.attendance_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update attendance settings"
+  ON public.attendance_settings
+  FOR UPDATE
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_attendance_settings_updated_at
+  BEFORE UPDATE ON public.attendance_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An employee has at most one open session, whoever marks it, and a
+-- session cannot end before it starts
+CREATE OR REPLACE FUNCTION public.validate_attendance_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.clock_out IS NOT NULL AND NEW.clock_out < NEW.clock_in THEN
+    RAISE EXCEPTION 'Clock out cannot be before clock in'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.clock_out IS NULL THEN
+    -- Serialise concurrent clock-ins for the same employee
+    PERFORM pg_advisory_xact_lock(hashtext('attendance:' || NEW.user_id::text));
+
+    IF EXISTS (
+      SELECT 1 FROM public.attendance
+      WHERE user_id = NEW.user_id
+        AND id <> NEW.id
+        AND clock_out IS NULL
+    ) THEN
+      RAISE EXCEPTION 'This employee is already clocked in'
+        USING ERRCODE = 'unique_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_attendance_session
+  BEFORE INSERT OR UPDATE OF user_id, clock_in, clock_out ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_attendance_session();
+
+-- Self-service clock-in for the current user at the server's time.
+-- Admins keep marking anyone's attendance directly on the table.
+CREATE OR REPLACE FUNCTION public.clock_in(_notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendance_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to clock in'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT COALESCE((SELECT self_service_enabled FROM public.attendance_settings), false) THEN
+    RAISE EXCEPTION 'Self-service clock-in is turned off'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO public.attendance (user_id, marked_by, clock_in, notes)
+  VALUES (auth.uid(), auth.uid(), NOW(), NULLIF(btrim(_notes), ''))
+  RETURNING id INTO _attendance_id;
+
+  RETURN _attendance_id;
+END;
+$$;
+
+-- Closes the current user's open session at the server's time
+CREATE OR REPLACE FUNCTION public.clock_out()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendance_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to clock out'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT COALESCE((SELECT self_service_enabled FROM public.attendance_settings), false) THEN
+    RAISE EXCEPTION 'Self-service clock-out is turned off'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.attendance
+  SET clock_out = NOW()
+  WHERE user_id = auth.uid()
+    AND clock_out IS NULL
+  RETURNING id INTO _attendance_id;
+
+  IF _attendance_id IS NULL THEN
+    RAISE EXCEPTION 'You are not clocked in'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN _attendance_id;
+END;
+$$;
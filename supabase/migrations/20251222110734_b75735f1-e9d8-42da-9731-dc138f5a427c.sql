@@ -0,0 +1,182 @@
+CREATE TYPE public.attendance_correction_status AS ENUM ('pending', 'approved', 'rejected', 'withdrawn');
+
+-- Create attendance corrections table: an employee's proposed times for one
+-- of their records, or for a day with no record at all (attendance_id null)
+CREATE TABLE public.attendance_corrections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  attendance_id UUID REFERENCES public.attendance(id) ON DELETE CASCADE,
+  proposed_clock_in TIMESTAMPTZ NOT NULL,
+  proposed_clock_out TIMESTAMPTZ NOT NULL,
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  status attendance_correction_status NOT NULL DEFAULT 'pending',
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT attendance_corrections_times_order CHECK (proposed_clock_out > proposed_clock_in),
+  CONSTRAINT attendance_corrections_rejection_requires_notes
+    CHECK (status <> 'rejected' OR COALESCE(btrim(review_notes), '') <> '')
+);
+
+-- One open request per record
+CREATE UNIQUE INDEX attendance_corrections_one_pending_idx
+  ON public.attendance_corrections (attendance_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_attendance_corrections_status ON public.attendance_corrections(status);
+
+ALTER TABLE public.attendance_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own corrections or admins view all"
+  ON public.attendance_corrections
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Users can request corrections of own attendance"
+  ON public.attendance_corrections
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND reviewed_by IS NULL
+    AND (
+      attendance_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.attendance
+        WHERE attendance.id = attendance_id
+        AND attendance.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Decisions go through review_attendance_correction(); owners can only withdraw
+CREATE POLICY "Users can withdraw own pending corrections"
+  ON public.attendance_corrections
+  FOR UPDATE
+  USING (auth.uid() = user_id AND status = 'pending')
+  WITH CHECK (auth.uid() = user_id AND status = 'withdrawn');
+
+CREATE TRIGGER update_attendance_corrections_updated_at
+  BEFORE UPDATE ON public.attendance_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create attendance revisions table: the times a record had before a
+-- correction changed them (previous times are null for a missing day)
+CREATE TABLE public.attendance_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendance_id UUID NOT NULL REFERENCES public.attendance(id) ON DELETE CASCADE,
+  correction_id UUID REFERENCES public.attendance_corrections(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  edited_by UUID REFERENCES public.profiles(id),
+  previous_clock_in TIMESTAMPTZ,
+  previous_clock_out TIMESTAMPTZ,
+  new_clock_in TIMESTAMPTZ NOT NULL,
+  new_clock_out TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX attendance_revisions_attendance_id_idx ON public.attendance_revisions (attendance_id, created_at);
+
+ALTER TABLE public.attendance_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by review_attendance_correction()
+CREATE POLICY "Users can view own attendance revisions"
+  ON public.attendance_revisions
+  FOR SELECT
+  USING (auth.uid() = user_id OR has_role(auth.uid(), 'admin'::app_role));
+
+-- Approve or reject a pending correction. Approval rewrites the record (or
+-- creates it for a missing day) and keeps the times it replaced.
+CREATE OR REPLACE FUNCTION public.review_attendance_correction(
+  _correction_id UUID,
+  _decision attendance_correction_status,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _correction public.attendance_corrections%ROWTYPE;
+  _record public.attendance%ROWTYPE;
+  _attendance_id UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can review attendance corrections'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A correction can only be approved or rejected'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO _correction
+  FROM public.attendance_corrections
+  WHERE id = _correction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Correction not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _correction.status <> 'pending' THEN
+    RAISE EXCEPTION 'This correction has already been %', _correction.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  _attendance_id := _correction.attendance_id;
+
+  IF _decision = 'approved' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.attendance a
+      WHERE a.user_id = _correction.user_id
+        AND a.id IS DISTINCT FROM _correction.attendance_id
+        AND tstzrange(a.clock_in, COALESCE(a.clock_out, 'infinity'))
+          && tstzrange(_correction.proposed_clock_in, _correction.proposed_clock_out)
+    ) THEN
+      RAISE EXCEPTION 'The proposed times overlap another attendance record'
+        USING ERRCODE = 'exclusion_violation';
+    END IF;
+
+    IF _attendance_id IS NULL THEN
+      INSERT INTO public.attendance (user_id, marked_by, clock_in, clock_out, notes)
+      VALUES (_correction.user_id, auth.uid(), _correction.proposed_clock_in,
+        _correction.proposed_clock_out, 'Added by correction: ' || _correction.reason)
+      RETURNING id INTO _attendance_id;
+    ELSE
+      SELECT * INTO _record FROM public.attendance WHERE id = _attendance_id FOR UPDATE;
+
+      UPDATE public.attendance
+      SET clock_in = _correction.proposed_clock_in,
+        clock_out = _correction.proposed_clock_out
+      WHERE id = _attendance_id;
+    END IF;
+
+    INSERT INTO public.attendance_revisions (
+      attendance_id, correction_id, user_id, edited_by,
+      previous_clock_in, previous_clock_out, new_clock_in, new_clock_out
+    )
+    VALUES (
+      _attendance_id, _correction.id, _correction.user_id, auth.uid(),
+      _record.clock_in, _record.clock_out, _correction.proposed_clock_in, _correction.proposed_clock_out
+    );
+  END IF;
+
+  UPDATE public.attendance_corrections
+  SET status = _decision,
+    attendance_id = _attendance_id,
+    review_notes = NULLIF(btrim(_notes), ''),
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW()
+  WHERE id = _correction.id;
+END;
+$$;
@@ -0,0 +1,206 @@
+-- Shift times are wall-clock times, so the roster needs the organisation's
+-- time zone to compare them with clock-ins
+ALTER TABLE public.attendance_settings
+  ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC',
+  -- Minutes an arrival or departure may be off before it counts as late or early
+  ADD COLUMN late_grace_minutes INTEGER NOT NULL DEFAULT 5 CHECK (late_grace_minutes >= 0);
+
+CREATE OR REPLACE FUNCTION public.validate_attendance_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_attendance_time_zone
+  BEFORE UPDATE OF time_zone ON public.attendance_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_attendance_time_zone();
+
+-- Create shift templates table. A shift ending at or before its start time
+-- runs past midnight into the next day.
+CREATE TABLE public.shift_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (length(btrim(name)) > 0),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  color TEXT NOT NULL DEFAULT '#64748b',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT shift_templates_not_empty CHECK (end_time <> start_time)
+);
+
+ALTER TABLE public.shift_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view shift templates"
+  ON public.shift_templates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shift templates"
+  ON public.shift_templates
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_shift_templates_updated_at
+  BEFORE UPDATE ON public.shift_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create shift assignments table: the roster, one shift per employee per day.
+-- Templates in use are deactivated rather than deleted.
+CREATE TABLE public.shift_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  shift_template_id UUID NOT NULL REFERENCES public.shift_templates(id) ON DELETE RESTRICT,
+  shift_date DATE NOT NULL,
+  assigned_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, shift_date)
+);
+
+CREATE INDEX idx_shift_assignments_shift_date ON public.shift_assignments(shift_date);
+
+ALTER TABLE public.shift_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own shifts or admins view all"
+  ON public.shift_assignments
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Admins can manage shift assignments"
+  ON public.shift_assignments
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_shift_assignments_updated_at
+  BEFORE UPDATE ON public.shift_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rostered shifts in a date range next to what was actually clocked.
+-- A shift is matched with the sessions that start between four hours before
+-- it and its end; admins see everyone, employees only themselves.
+CREATE OR REPLACE FUNCTION public.get_shift_adherence(
+  _start_date DATE,
+  _end_date DATE,
+  _department TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  assignment_id UUID,
+  user_id UUID,
+  employee_name TEXT,
+  department TEXT,
+  shift_date DATE,
+  shift_name TEXT,
+  scheduled_start TIMESTAMPTZ,
+  scheduled_end TIMESTAMPTZ,
+  clock_in TIMESTAMPTZ,
+  clock_out TIMESTAMPTZ,
+  late_minutes INTEGER,
+  early_minutes INTEGER,
+  is_late BOOLEAN,
+  left_early BOOLEAN,
+  no_show BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _time_zone TEXT;
+  _grace INTEGER;
+  _is_admin BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  _is_admin := has_role(auth.uid(), 'admin'::app_role);
+
+  SELECT s.time_zone, s.late_grace_minutes INTO _time_zone, _grace
+  FROM public.attendance_settings s;
+
+  RETURN QUERY
+  WITH shifts AS (
+    SELECT
+      sa.id AS shift_id,
+      sa.user_id AS employee_id,
+      p.name AS full_name,
+      p.department AS employee_department,
+      sa.shift_date AS day,
+      st.name AS template_name,
+      (sa.shift_date + st.start_time) AT TIME ZONE COALESCE(_time_zone, 'UTC') AS starts_at,
+      (sa.shift_date + st.end_time
+        + CASE WHEN st.end_time <= st.start_time THEN INTERVAL '1 day' ELSE INTERVAL '0' END)
+        AT TIME ZONE COALESCE(_time_zone, 'UTC') AS ends_at
+    FROM public.shift_assignments sa
+    JOIN public.shift_templates st ON st.id = sa.shift_template_id
+    JOIN public.profiles p ON p.id = sa.user_id
+    WHERE sa.shift_date BETWEEN _start_date AND _end_date
+      AND (_is_admin OR sa.user_id = auth.uid())
+      AND (_department IS NULL OR p.department = _department)
+  ),
+  matched AS (
+    SELECT s.*, w.first_in, w.last_out, COALESCE(w.still_open, false) AS still_open
+    FROM shifts s
+    LEFT JOIN LATERAL (
+      SELECT
+        MIN(a.clock_in) AS first_in,
+        MAX(a.clock_out) AS last_out,
+        bool_or(a.clock_out IS NULL) AS still_open
+      FROM public.attendance a
+      WHERE a.user_id = s.employee_id
+        AND a.clock_in >= s.starts_at - INTERVAL '4 hours'
+        AND a.clock_in < s.ends_at
+    ) w ON true
+  ),
+  measured AS (
+    SELECT
+      m.*,
+      GREATEST(FLOOR(EXTRACT(EPOCH FROM (m.first_in - m.starts_at)) / 60), 0)::INTEGER AS minutes_late,
+      CASE
+        WHEN m.still_open THEN NULL
+        ELSE GREATEST(FLOOR(EXTRACT(EPOCH FROM (m.ends_at - m.last_out)) / 60), 0)::INTEGER
+      END AS minutes_early
+    FROM matched m
+  )
+  SELECT
+    m.shift_id,
+    m.employee_id,
+    m.full_name,
+    m.employee_department,
+    m.day,
+    m.template_name,
+    m.starts_at,
+    m.ends_at,
+    m.first_in,
+    CASE WHEN m.still_open THEN NULL ELSE m.last_out END,
+    m.minutes_late,
+    m.minutes_early,
+    COALESCE(m.minutes_late > COALESCE(_grace, 0), false),
+    COALESCE(m.minutes_early > COALESCE(_grace, 0), false),
+    -- Not clocked in yet only counts as missed once the shift is over
+    m.first_in IS NULL AND m.ends_at <= NOW()
+  FROM measured m
+  ORDER BY m.day DESC, m.starts_at, m.full_name;
+END;
+$$;
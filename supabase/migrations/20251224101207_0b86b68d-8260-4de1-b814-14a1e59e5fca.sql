@@ -0,0 +1,332 @@
+CREATE TYPE public.attendance_break_type AS ENUM ('paid', 'unpaid');
+
+-- Create attendance breaks table: breaks taken inside one attendance session.
+-- An open break (ended_at null) is only possible while the session is open.
+CREATE TABLE public.attendance_breaks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  attendance_id UUID NOT NULL REFERENCES public.attendance(id) ON DELETE CASCADE,
+  break_type attendance_break_type NOT NULL DEFAULT 'unpaid',
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT attendance_breaks_times_order CHECK (ended_at IS NULL OR ended_at > started_at)
+);
+
+CREATE INDEX idx_attendance_breaks_attendance_id ON public.attendance_breaks(attendance_id);
+
+ALTER TABLE public.attendance_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own breaks or admins view all"
+  ON public.attendance_breaks
+  FOR SELECT
+  USING (
+    has_role(auth.uid(), 'admin'::app_role)
+    OR EXISTS (
+      SELECT 1 FROM public.attendance
+      WHERE attendance.id = attendance_id
+      AND attendance.user_id = auth.uid()
+    )
+  );
+
+-- Employees start and end their own breaks through start_break()/end_break()
+CREATE POLICY "Admins can manage breaks"
+  ON public.attendance_breaks
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_attendance_breaks_updated_at
+  BEFORE UPDATE ON public.attendance_breaks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Breaks stay inside their session and never overlap each other
+CREATE OR REPLACE FUNCTION public.validate_attendance_break()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.attendance;
+BEGIN
+  -- Serialise concurrent changes to the same session's breaks
+  PERFORM pg_advisory_xact_lock(hashtext('attendance_breaks:' || NEW.attendance_id::text));
+
+  SELECT * INTO _session FROM public.attendance WHERE id = NEW.attendance_id;
+
+  IF NEW.started_at < _session.clock_in THEN
+    RAISE EXCEPTION 'A break cannot start before the session does'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _session.clock_out IS NOT NULL AND (
+    NEW.ended_at IS NULL OR NEW.ended_at > _session.clock_out
+  ) THEN
+    RAISE EXCEPTION 'A break must end by the time the session does'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_breaks
+    WHERE attendance_id = NEW.attendance_id
+      AND id <> NEW.id
+      AND tstzrange(started_at, COALESCE(ended_at, 'infinity'))
+        && tstzrange(NEW.started_at, COALESCE(NEW.ended_at, 'infinity'))
+  ) THEN
+    RAISE EXCEPTION 'This break overlaps another break in the session'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_attendance_break
+  BEFORE INSERT OR UPDATE OF attendance_id, started_at, ended_at ON public.attendance_breaks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_attendance_break();
+
+-- Moving a session's times must keep its breaks inside it. Breaks still open
+-- when the session closes are closed with it.
+CREATE OR REPLACE FUNCTION public.validate_attendance_session_breaks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.attendance_breaks
+    WHERE attendance_id = NEW.id
+      AND (
+        started_at < NEW.clock_in
+        OR (NEW.clock_out IS NOT NULL AND started_at >= NEW.clock_out)
+        OR (NEW.clock_out IS NOT NULL AND ended_at > NEW.clock_out)
+      )
+  ) THEN
+    RAISE EXCEPTION 'The session has breaks outside these times; change the breaks first'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_attendance_session_breaks
+  BEFORE UPDATE OF clock_in, clock_out ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_attendance_session_breaks();
+
+CREATE OR REPLACE FUNCTION public.close_open_breaks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.attendance_breaks
+  SET ended_at = NEW.clock_out
+  WHERE attendance_id = NEW.id
+    AND ended_at IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER close_open_breaks
+  AFTER UPDATE OF clock_out ON public.attendance
+  FOR EACH ROW
+  WHEN (NEW.clock_out IS NOT NULL)
+  EXECUTE FUNCTION public.close_open_breaks();
+
+-- Hours per session: paid breaks count as worked time, unpaid breaks do not.
+-- Hours stay null while the session is open.
+CREATE VIEW public.attendance_hours
+WITH (security_invoker = true)
+AS
+SELECT
+  a.id AS attendance_id,
+  a.user_id,
+  a.clock_in,
+  a.clock_out,
+  ROUND(EXTRACT(EPOCH FROM (a.clock_out - a.clock_in)) / 3600, 2) AS gross_hours,
+  ROUND(COALESCE(b.paid_seconds, 0) / 3600, 2) AS paid_break_hours,
+  ROUND(COALESCE(b.unpaid_seconds, 0) / 3600, 2) AS unpaid_break_hours,
+  ROUND(
+    (EXTRACT(EPOCH FROM (a.clock_out - a.clock_in)) - COALESCE(b.unpaid_seconds, 0)) / 3600, 2
+  ) AS net_hours
+FROM public.attendance a
+LEFT JOIN LATERAL (
+  SELECT
+    SUM(EXTRACT(EPOCH FROM (ab.ended_at - ab.started_at)))
+      FILTER (WHERE ab.break_type = 'paid') AS paid_seconds,
+    SUM(EXTRACT(EPOCH FROM (ab.ended_at - ab.started_at)))
+      FILTER (WHERE ab.break_type = 'unpaid') AS unpaid_seconds
+  FROM public.attendance_breaks ab
+  WHERE ab.attendance_id = a.id
+    AND ab.ended_at IS NOT NULL
+) b ON true;
+
+-- Self-service breaks for the current user's open session, at the server's time
+CREATE OR REPLACE FUNCTION public.start_break(_break_type attendance_break_type DEFAULT 'unpaid')
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendance_id UUID;
+  _break_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to start a break'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT COALESCE((SELECT self_service_enabled FROM public.attendance_settings), false) THEN
+    RAISE EXCEPTION 'Self-service clock-in is turned off'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id INTO _attendance_id
+  FROM public.attendance
+  WHERE user_id = auth.uid()
+    AND clock_out IS NULL;
+
+  IF _attendance_id IS NULL THEN
+    RAISE EXCEPTION 'You are not clocked in'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.attendance_breaks (attendance_id, break_type, started_at)
+  VALUES (_attendance_id, _break_type, NOW())
+  RETURNING id INTO _break_id;
+
+  RETURN _break_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_break()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _break_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to end a break'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT COALESCE((SELECT self_service_enabled FROM public.attendance_settings), false) THEN
+    RAISE EXCEPTION 'Self-service clock-in is turned off'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE public.attendance_breaks ab
+  SET ended_at = NOW()
+  FROM public.attendance a
+  WHERE a.id = ab.attendance_id
+    AND a.user_id = auth.uid()
+    AND a.clock_out IS NULL
+    AND ab.ended_at IS NULL
+  RETURNING ab.id INTO _break_id;
+
+  IF _break_id IS NULL THEN
+    RAISE EXCEPTION 'You are not on a break'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN _break_id;
+END;
+$$;
+
+-- Comp-off is earned on net hours, so unpaid breaks no longer count
+CREATE OR REPLACE FUNCTION public.refresh_comp_off_credit(_user_id UUID, _work_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rules public.comp_off_rules;
+  _hours NUMERIC;
+  _is_working_day BOOLEAN;
+  _extra NUMERIC;
+  _days NUMERIC;
+BEGIN
+  SELECT * INTO _rules FROM public.comp_off_rules;
+  IF NOT FOUND OR NOT _rules.is_active THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.comp_off_credits
+    WHERE user_id = _user_id
+      AND work_date = _work_date
+      AND status <> 'pending'
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(h.net_hours), 0) INTO _hours
+  FROM public.attendance_hours h
+  WHERE h.user_id = _user_id
+    AND h.clock_in::DATE = _work_date
+    AND h.clock_out IS NOT NULL;
+
+  _is_working_day := public.count_working_days(
+    public.get_user_holiday_calendar(_user_id), _work_date, _work_date
+  ) > 0;
+  _extra := CASE
+    WHEN _is_working_day THEN GREATEST(_hours - _rules.scheduled_hours, 0)
+    ELSE _hours
+  END;
+  _days := FLOOR(_extra * 2 / _rules.hours_per_day) / 2;
+
+  IF _days <= 0 THEN
+    DELETE FROM public.comp_off_credits
+    WHERE user_id = _user_id AND work_date = _work_date AND status = 'pending';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.comp_off_credits (user_id, work_date, is_working_day, hours_worked, extra_hours, days)
+  VALUES (_user_id, _work_date, _is_working_day, ROUND(_hours, 2), ROUND(_extra, 2), _days)
+  ON CONFLICT (user_id, work_date) DO UPDATE
+    SET is_working_day = EXCLUDED.is_working_day,
+      hours_worked = EXCLUDED.hours_worked,
+      extra_hours = EXCLUDED.extra_hours,
+      days = EXCLUDED.days
+    WHERE comp_off_credits.status = 'pending';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_comp_off_credits_from_breaks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.attendance;
+BEGIN
+  SELECT * INTO _session
+  FROM public.attendance
+  WHERE id = COALESCE(NEW.attendance_id, OLD.attendance_id);
+
+  IF FOUND AND _session.clock_out IS NOT NULL THEN
+    PERFORM public.refresh_comp_off_credit(_session.user_id, _session.clock_in::DATE);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_comp_off_credits_from_breaks
+  AFTER INSERT OR UPDATE OF break_type, started_at, ended_at OR DELETE ON public.attendance_breaks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_comp_off_credits_from_breaks();
@@ -0,0 +1,324 @@
+CREATE TYPE public.pay_period_frequency AS ENUM ('weekly', 'biweekly', 'monthly');
+CREATE TYPE public.overtime_approval_status AS ENUM ('approved', 'rejected');
+
+-- Weekly and biweekly pay periods repeat from the anchor date; monthly ones
+-- follow calendar months
+ALTER TABLE public.attendance_settings
+  ADD COLUMN pay_period_frequency pay_period_frequency NOT NULL DEFAULT 'monthly',
+  ADD COLUMN pay_period_anchor DATE NOT NULL DEFAULT '2025-01-06';
+
+-- Create overtime policies table (NULL department = company-wide default).
+-- A NULL threshold turns that rule off.
+CREATE TABLE public.overtime_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  department TEXT,
+  daily_threshold_hours NUMERIC(4, 2) CHECK (daily_threshold_hours > 0),
+  weekly_threshold_hours NUMERIC(5, 2) CHECK (weekly_threshold_hours > 0),
+  overtime_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 1.5 CHECK (overtime_multiplier >= 1),
+  weekend_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 1.5 CHECK (weekend_multiplier >= 1),
+  holiday_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 2 CHECK (holiday_multiplier >= 1),
+  requires_approval BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX overtime_policies_department_key
+  ON public.overtime_policies(COALESCE(department, ''));
+
+INSERT INTO public.overtime_policies (department, daily_threshold_hours, weekly_threshold_hours)
+VALUES (NULL, 8, 40);
+
+ALTER TABLE public.overtime_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view overtime policies"
+  ON public.overtime_policies
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage overtime policies"
+  ON public.overtime_policies
+  FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_overtime_policies_updated_at
+  BEFORE UPDATE ON public.overtime_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create overtime approvals table: a decision on an employee's overtime and
+-- premium hours for one pay period, with the hours it was made on. If the
+-- hours change afterwards the decision no longer applies.
+CREATE TABLE public.overtime_approvals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status overtime_approval_status NOT NULL,
+  overtime_hours NUMERIC(6, 2) NOT NULL,
+  premium_hours NUMERIC(6, 2) NOT NULL,
+  review_notes TEXT,
+  reviewed_by UUID NOT NULL REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, period_start, period_end),
+  CONSTRAINT overtime_approvals_rejection_requires_notes
+    CHECK (status <> 'rejected' OR COALESCE(btrim(review_notes), '') <> '')
+);
+
+ALTER TABLE public.overtime_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Decisions are only written by review_overtime()
+CREATE POLICY "Users can view own overtime approvals or admins view all"
+  ON public.overtime_approvals
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Pay period containing a date
+CREATE OR REPLACE FUNCTION public.get_pay_period(_date DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (period_start DATE, period_end DATE)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.attendance_settings;
+  _length INTEGER;
+  _start DATE;
+BEGIN
+  SELECT * INTO _settings FROM public.attendance_settings;
+
+  IF COALESCE(_settings.pay_period_frequency, 'monthly') = 'monthly' THEN
+    _start := date_trunc('month', _date)::DATE;
+    RETURN QUERY SELECT _start, (_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE;
+    RETURN;
+  END IF;
+
+  _length := CASE WHEN _settings.pay_period_frequency = 'weekly' THEN 7 ELSE 14 END;
+  _start := _settings.pay_period_anchor
+    + FLOOR((_date - _settings.pay_period_anchor)::NUMERIC / _length)::INTEGER * _length;
+
+  RETURN QUERY SELECT _start, _start + _length - 1;
+END;
+$$;
+
+-- Net hours per employee for a pay period, split into buckets by their
+-- overtime policy (department first, then the default):
+--   * weekend and holiday hours on the employee's holiday calendar are all
+--     premium and count towards no threshold
+--   * on other days, hours past the daily threshold are overtime
+--   * the remaining hours of each 7-day block from the period start are
+--     overtime past the weekly threshold; a short last block in a monthly
+--     period is held to the full threshold
+-- Days are taken in the organisation's time zone. Admins see everyone,
+-- employees only themselves.
+CREATE OR REPLACE FUNCTION public.get_overtime_report(_period_start DATE, _period_end DATE)
+RETURNS TABLE (
+  user_id UUID,
+  employee_name TEXT,
+  department TEXT,
+  regular_hours NUMERIC,
+  overtime_hours NUMERIC,
+  weekend_hours NUMERIC,
+  holiday_hours NUMERIC,
+  overtime_multiplier NUMERIC,
+  weekend_multiplier NUMERIC,
+  holiday_multiplier NUMERIC,
+  approval_status TEXT,
+  review_notes TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _time_zone TEXT;
+  _is_admin BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  _is_admin := has_role(auth.uid(), 'admin'::app_role);
+  SELECT COALESCE(s.time_zone, 'UTC') INTO _time_zone FROM public.attendance_settings s;
+
+  RETURN QUERY
+  WITH employees AS (
+    SELECT
+      p.id AS employee_id,
+      p.name AS full_name,
+      p.department AS employee_department,
+      public.get_user_holiday_calendar(p.id) AS calendar_id,
+      pol.daily_threshold_hours AS daily_threshold,
+      pol.weekly_threshold_hours AS weekly_threshold,
+      pol.overtime_multiplier AS overtime_rate,
+      pol.weekend_multiplier AS weekend_rate,
+      pol.holiday_multiplier AS holiday_rate,
+      COALESCE(pol.requires_approval, false) AS needs_approval
+    FROM public.profiles p
+    LEFT JOIN LATERAL (
+      SELECT op.*
+      FROM public.overtime_policies op
+      WHERE op.department = p.department OR op.department IS NULL
+      ORDER BY op.department IS NULL
+      LIMIT 1
+    ) pol ON true
+    WHERE _is_admin OR p.id = auth.uid()
+  ),
+  days AS (
+    SELECT
+      e.*,
+      (h.clock_in AT TIME ZONE _time_zone)::DATE AS work_date,
+      SUM(h.net_hours) AS hours
+    FROM employees e
+    JOIN public.attendance_hours h ON h.user_id = e.employee_id
+    WHERE h.clock_out IS NOT NULL
+      AND (h.clock_in AT TIME ZONE _time_zone)::DATE BETWEEN _period_start AND _period_end
+    GROUP BY e.employee_id, e.full_name, e.employee_department, e.calendar_id,
+      e.daily_threshold, e.weekly_threshold, e.overtime_rate, e.weekend_rate,
+      e.holiday_rate, e.needs_approval, (h.clock_in AT TIME ZONE _time_zone)::DATE
+  ),
+  classified AS (
+    SELECT
+      d.*,
+      EXISTS (
+        SELECT 1 FROM public.holidays hd
+        WHERE hd.calendar_id = d.calendar_id
+          AND hd.holiday_date = d.work_date
+      ) AS is_holiday,
+      EXTRACT(DOW FROM d.work_date)::SMALLINT = ANY (
+        COALESCE(
+          (SELECT hc.weekend_days FROM public.holiday_calendars hc WHERE hc.id = d.calendar_id),
+          '{0,6}'::SMALLINT[]
+        )
+      ) AS is_weekend
+    FROM days d
+  ),
+  weekly AS (
+    SELECT
+      c.employee_id,
+      MAX(c.weekly_threshold) AS weekly_threshold,
+      SUM(LEAST(c.hours, COALESCE(c.daily_threshold, c.hours)))
+        FILTER (WHERE NOT c.is_holiday AND NOT c.is_weekend) AS within_daily,
+      SUM(GREATEST(c.hours - COALESCE(c.daily_threshold, c.hours), 0))
+        FILTER (WHERE NOT c.is_holiday AND NOT c.is_weekend) AS past_daily
+    FROM classified c
+    GROUP BY c.employee_id, (c.work_date - _period_start) / 7
+  ),
+  totals AS (
+    SELECT
+      e.employee_id,
+      ROUND(COALESCE(w.regular, 0), 2) AS regular,
+      ROUND(COALESCE(w.overtime, 0), 2) AS overtime,
+      ROUND(COALESCE(pr.weekend, 0), 2) AS weekend,
+      ROUND(COALESCE(pr.holiday, 0), 2) AS holiday
+    FROM employees e
+    JOIN (
+      SELECT
+        c.employee_id,
+        SUM(c.hours) FILTER (WHERE c.is_weekend AND NOT c.is_holiday) AS weekend,
+        SUM(c.hours) FILTER (WHERE c.is_holiday) AS holiday
+      FROM classified c
+      GROUP BY c.employee_id
+    ) pr ON pr.employee_id = e.employee_id
+    LEFT JOIN (
+      SELECT
+        wk.employee_id,
+        SUM(LEAST(COALESCE(wk.within_daily, 0), COALESCE(wk.weekly_threshold, wk.within_daily, 0))) AS regular,
+        SUM(
+          COALESCE(wk.past_daily, 0)
+          + GREATEST(COALESCE(wk.within_daily, 0) - COALESCE(wk.weekly_threshold, wk.within_daily, 0), 0)
+        ) AS overtime
+      FROM weekly wk
+      GROUP BY wk.employee_id
+    ) w ON w.employee_id = e.employee_id
+  )
+  SELECT
+    e.employee_id,
+    e.full_name,
+    e.employee_department,
+    t.regular,
+    t.overtime,
+    t.weekend,
+    t.holiday,
+    e.overtime_rate,
+    e.weekend_rate,
+    e.holiday_rate,
+    CASE
+      WHEN NOT e.needs_approval OR t.overtime + t.weekend + t.holiday = 0 THEN 'not_required'
+      WHEN oa.id IS NULL
+        OR oa.overtime_hours <> t.overtime
+        OR oa.premium_hours <> t.weekend + t.holiday THEN 'pending'
+      ELSE oa.status::TEXT
+    END,
+    CASE
+      WHEN oa.overtime_hours = t.overtime AND oa.premium_hours = t.weekend + t.holiday
+        THEN oa.review_notes
+    END
+  FROM totals t
+  JOIN employees e ON e.employee_id = t.employee_id
+  LEFT JOIN public.overtime_approvals oa
+    ON oa.user_id = t.employee_id
+    AND oa.period_start = _period_start
+    AND oa.period_end = _period_end
+  ORDER BY e.full_name;
+END;
+$$;
+
+-- Records an admin's decision on the overtime and premium hours an employee
+-- has in a pay period right now
+CREATE OR REPLACE FUNCTION public.review_overtime(
+  _user_id UUID,
+  _period_start DATE,
+  _period_end DATE,
+  _decision overtime_approval_status,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report RECORD;
+  _approval_id UUID;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can review overtime'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO _report
+  FROM public.get_overtime_report(_period_start, _period_end) r
+  WHERE r.user_id = _user_id;
+
+  IF NOT FOUND OR _report.approval_status = 'not_required' THEN
+    RAISE EXCEPTION 'There is no overtime to review for this employee and period'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.overtime_approvals (
+    user_id, period_start, period_end, status, overtime_hours, premium_hours,
+    review_notes, reviewed_by
+  )
+  VALUES (
+    _user_id, _period_start, _period_end, _decision, _report.overtime_hours,
+    _report.weekend_hours + _report.holiday_hours, NULLIF(btrim(_notes), ''), auth.uid()
+  )
+  ON CONFLICT (user_id, period_start, period_end) DO UPDATE
+    SET status = EXCLUDED.status,
+      overtime_hours = EXCLUDED.overtime_hours,
+      premium_hours = EXCLUDED.premium_hours,
+      review_notes = EXCLUDED.review_notes,
+      reviewed_by = EXCLUDED.reviewed_by,
+      reviewed_at = NOW()
+  RETURNING id INTO _approval_id;
+
+  RETURN _approval_id;
+END;
+$$;
@@ -0,0 +1,351 @@
+CREATE TYPE public.timesheet_status AS ENUM ('submitted', 'approved', 'rejected', 'reopened');
+CREATE TYPE public.timesheet_event_type AS ENUM ('submitted', 'approved', 'rejected', 'unlocked');
+
+-- Create timesheets table: an employee's signed-off hours for one week
+-- (Sunday to Saturday in the organisation's time zone). total_hours is the
+-- net total when it was last submitted.
+CREATE TABLE public.timesheets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL CHECK (EXTRACT(DOW FROM week_start) = 0),
+  status timesheet_status NOT NULL DEFAULT 'submitted',
+  total_hours NUMERIC(6, 2) NOT NULL,
+  employee_notes TEXT,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_on_behalf_of UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, week_start)
+);
+
+CREATE INDEX idx_timesheets_status ON public.timesheets(status);
+
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+
+-- Every change goes through the functions below
+CREATE POLICY "Users can view own timesheets or reviewers view all"
+  ON public.timesheets
+  FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR public.can_review_leaves(auth.uid())
+  );
+
+CREATE TRIGGER update_timesheets_updated_at
+  BEFORE UPDATE ON public.timesheets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create timesheet events table: the audit trail of every submission,
+-- decision and unlock
+CREATE TABLE public.timesheet_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  timesheet_id UUID NOT NULL REFERENCES public.timesheets(id) ON DELETE CASCADE,
+  event_type timesheet_event_type NOT NULL,
+  actor_id UUID NOT NULL REFERENCES public.profiles(id),
+  total_hours NUMERIC(6, 2) NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_timesheet_events_timesheet_id ON public.timesheet_events(timesheet_id);
+
+ALTER TABLE public.timesheet_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view events of own timesheets or reviewers view all"
+  ON public.timesheet_events
+  FOR SELECT
+  USING (
+    public.can_review_leaves(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.timesheets
+      WHERE timesheets.id = timesheet_id
+      AND timesheets.user_id = auth.uid()
+    )
+  );
+
+-- Sunday starting the organisation-time-zone week a moment falls in
+CREATE OR REPLACE FUNCTION public.get_timesheet_week_start(_at TIMESTAMPTZ)
+RETURNS DATE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _day DATE;
+BEGIN
+  _day := (_at AT TIME ZONE COALESCE(
+    (SELECT time_zone FROM public.attendance_settings), 'UTC'
+  ))::DATE;
+  RETURN _day - EXTRACT(DOW FROM _day)::INTEGER;
+END;
+$$;
+
+-- Net hours per day of an employee's week; open sessions have no hours yet
+CREATE OR REPLACE FUNCTION public.get_timesheet_hours(_user_id UUID, _week_start DATE)
+RETURNS TABLE (work_date DATE, net_hours NUMERIC, open_sessions INTEGER)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _time_zone TEXT;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM _user_id AND NOT public.can_review_leaves(auth.uid()) THEN
+    RAISE EXCEPTION 'You can only view your own timesheet'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT COALESCE(s.time_zone, 'UTC') INTO _time_zone FROM public.attendance_settings s;
+
+  RETURN QUERY
+  SELECT
+    d.day::DATE,
+    COALESCE(SUM(h.net_hours), 0),
+    COUNT(h.attendance_id) FILTER (WHERE h.clock_out IS NULL)::INTEGER
+  FROM generate_series(_week_start, _week_start + 6, INTERVAL '1 day') AS d(day)
+  LEFT JOIN public.attendance_hours h
+    ON h.user_id = _user_id
+    AND (h.clock_in AT TIME ZONE _time_zone)::DATE = d.day::DATE
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+-- Submits (or resubmits after a rejection or unlock) the current user's week
+CREATE OR REPLACE FUNCTION public.submit_timesheet(_week_start DATE, _notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timesheet public.timesheets;
+  _total NUMERIC;
+  _open INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a timesheet'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _week_start > public.get_timesheet_week_start(NOW()) THEN
+    RAISE EXCEPTION 'This week has not started yet'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(h.net_hours), 0), COALESCE(SUM(h.open_sessions), 0)
+  INTO _total, _open
+  FROM public.get_timesheet_hours(auth.uid(), _week_start) h;
+
+  IF _open > 0 THEN
+    RAISE EXCEPTION 'Clock out before submitting this week'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _timesheet
+  FROM public.timesheets
+  WHERE user_id = auth.uid() AND week_start = _week_start
+  FOR UPDATE;
+
+  IF FOUND AND _timesheet.status IN ('submitted', 'approved') THEN
+    RAISE EXCEPTION 'This timesheet has already been submitted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.timesheets (user_id, week_start, total_hours, employee_notes)
+  VALUES (auth.uid(), _week_start, _total, NULLIF(btrim(_notes), ''))
+  ON CONFLICT (user_id, week_start) DO UPDATE
+    SET status = 'submitted',
+      total_hours = EXCLUDED.total_hours,
+      employee_notes = EXCLUDED.employee_notes,
+      submitted_at = NOW(),
+      review_notes = NULL,
+      reviewed_by = NULL,
+      reviewed_on_behalf_of = NULL,
+      reviewed_at = NULL
+  RETURNING * INTO _timesheet;
+
+  INSERT INTO public.timesheet_events (timesheet_id, event_type, actor_id, total_hours, notes)
+  VALUES (_timesheet.id, 'submitted', auth.uid(), _total, _timesheet.employee_notes);
+
+  RETURN _timesheet.id;
+END;
+$$;
+
+-- Admins and today's delegates approve or reject submitted weeks, never
+-- their own. Approval is refused if the hours changed since submission.
+CREATE OR REPLACE FUNCTION public.review_timesheet(
+  _timesheet_id UUID,
+  _decision timesheet_status,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timesheet public.timesheets;
+  _current NUMERIC;
+BEGIN
+  IF NOT public.can_review_leaves(auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot review timesheets'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A timesheet can only be approved or rejected'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO _timesheet FROM public.timesheets WHERE id = _timesheet_id FOR UPDATE;
+
+  IF NOT FOUND OR _timesheet.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted timesheets can be reviewed'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _timesheet.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own timesheet'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _decision = 'rejected' AND COALESCE(btrim(_notes), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a timesheet'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(h.net_hours), 0) INTO _current
+  FROM public.get_timesheet_hours(_timesheet.user_id, _timesheet.week_start) h;
+
+  IF _decision = 'approved' AND _current <> _timesheet.total_hours THEN
+    RAISE EXCEPTION 'The hours changed since this timesheet was submitted; reject it so the employee can resubmit'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.timesheets
+  SET status = _decision,
+    review_notes = NULLIF(btrim(_notes), ''),
+    reviewed_by = auth.uid(),
+    reviewed_on_behalf_of = CASE
+      WHEN has_role(auth.uid(), 'admin'::app_role) THEN NULL
+      ELSE public.get_active_delegator(auth.uid())
+    END,
+    reviewed_at = NOW()
+  WHERE id = _timesheet_id;
+
+  INSERT INTO public.timesheet_events (timesheet_id, event_type, actor_id, total_hours, notes)
+  VALUES (
+    _timesheet_id, _decision::TEXT::timesheet_event_type, auth.uid(),
+    _timesheet.total_hours, NULLIF(btrim(_notes), '')
+  );
+END;
+$$;
+
+-- Reopens an approved week for edits. Admins only, with a reason on record.
+CREATE OR REPLACE FUNCTION public.unlock_timesheet(_timesheet_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timesheet public.timesheets;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can unlock timesheets'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to unlock a timesheet'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _timesheet FROM public.timesheets WHERE id = _timesheet_id FOR UPDATE;
+
+  IF NOT FOUND OR _timesheet.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved timesheets can be unlocked'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.timesheets
+  SET status = 'reopened'
+  WHERE id = _timesheet_id;
+
+  INSERT INTO public.timesheet_events (timesheet_id, event_type, actor_id, total_hours, notes)
+  VALUES (_timesheet_id, 'unlocked', auth.uid(), _timesheet.total_hours, btrim(_reason));
+END;
+$$;
+
+-- Attendance in an approved week is locked, whoever edits it and however
+-- (directly, by clocking, through a correction or a break)
+CREATE OR REPLACE FUNCTION public.is_attendance_week_locked(_user_id UUID, _at TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.timesheets
+    WHERE user_id = _user_id
+      AND week_start = public.get_timesheet_week_start(_at)
+      AND status = 'approved'
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_locked_attendance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP IN ('UPDATE', 'DELETE') AND public.is_attendance_week_locked(OLD.user_id, OLD.clock_in))
+    OR (TG_OP IN ('INSERT', 'UPDATE') AND public.is_attendance_week_locked(NEW.user_id, NEW.clock_in))
+  THEN
+    RAISE EXCEPTION 'This week''s timesheet is approved and locked; an admin must unlock it first'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER guard_locked_attendance
+  BEFORE INSERT OR UPDATE OR DELETE ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_locked_attendance();
+
+CREATE OR REPLACE FUNCTION public.guard_locked_attendance_breaks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.attendance;
+BEGIN
+  SELECT * INTO _session
+  FROM public.attendance
+  WHERE id = COALESCE(NEW.attendance_id, OLD.attendance_id);
+
+  IF FOUND AND public.is_attendance_week_locked(_session.user_id, _session.clock_in) THEN
+    RAISE EXCEPTION 'This week''s timesheet is approved and locked; an admin must unlock it first'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER guard_locked_attendance_breaks
+  BEFORE INSERT OR UPDATE OR DELETE ON public.attendance_breaks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_locked_attendance_breaks();
@@ -0,0 +1,82 @@
+-- Manual entries are attributed to the admin posting them
+DROP POLICY "Admins can post ledger entries" ON public.leave_ledger;
+
+CREATE POLICY "Admins can post ledger entries"
+  ON public.leave_ledger
+  FOR INSERT
+  WITH CHECK (
+    has_role(auth.uid(), 'admin'::app_role)
+    AND entry_type IN ('entitlement', 'accrual', 'adjustment')
+    AND created_by = auth.uid()
+  );
+
+-- A leave spanning a year end is charged to each leave year for the days
+-- falling in it, and reversed the same way
+CREATE OR REPLACE FUNCTION public.post_leave_ledger_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _year INTEGER;
+  _days NUMERIC;
+  _net RECORD;
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status <> 'approved') THEN
+    IF public.leave_year(NEW.start_date) = public.leave_year(NEW.end_date) THEN
+      INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by)
+      VALUES (
+        NEW.user_id,
+        NEW.type,
+        public.leave_year(NEW.start_date),
+        'deduction',
+        -NEW.duration_days,
+        NEW.id,
+        NEW.reviewed_by
+      );
+    ELSE
+      -- Partial-day leave covers a single date, so only full days get here
+      FOR _year IN
+        SELECT generate_series(public.leave_year(NEW.start_date), public.leave_year(NEW.end_date))
+      LOOP
+        _days := public.calculate_leave_duration(
+          NEW.user_id,
+          GREATEST(NEW.start_date, make_date(_year, 1, 1)),
+          LEAST(NEW.end_date, make_date(_year, 12, 31)),
+          NEW.duration_unit,
+          NEW.hours
+        );
+
+        IF _days > 0 THEN
+          INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by)
+          VALUES (NEW.user_id, NEW.type, _year, 'deduction', -_days, NEW.id, NEW.reviewed_by);
+        END IF;
+      END LOOP;
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    FOR _net IN
+      SELECT leave_year, SUM(days) AS days
+      FROM public.leave_ledger
+      WHERE leave_id = OLD.id
+      GROUP BY leave_year
+      HAVING SUM(days) < 0
+      ORDER BY leave_year
+    LOOP
+      INSERT INTO public.leave_ledger (user_id, leave_type, leave_year, entry_type, days, leave_id, created_by, notes)
+      VALUES (
+        OLD.user_id,
+        OLD.type,
+        _net.leave_year,
+        'reversal',
+        -_net.days,
+        OLD.id,
+        COALESCE(auth.uid(), NEW.reviewed_by),
+        'Reversed on status change to ' || NEW.status
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,19 @@
+-- New requests start pending with no decision on them, so every approval,
+-- rejection and cancellation goes through the review workflow
+DROP POLICY "Users can insert own leaves" ON public.leaves;
+
+CREATE POLICY "Users can insert own leaves"
+  ON public.leaves
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND review_notes IS NULL
+    AND reviewed_by IS NULL
+    AND reviewed_at IS NULL
+    AND reviewed_on_behalf_of IS NULL
+    AND cancellation_requested_at IS NULL
+    AND cancellation_reason IS NULL
+    AND cancellation_reviewed_by IS NULL
+    AND cancellation_reviewed_at IS NULL
+  );
@@ -0,0 +1,82 @@
+-- Partial-day leave on the same date may not add up to more than a working
+-- day, a half day counting as half of it
+CREATE OR REPLACE FUNCTION public.prevent_overlapping_leaves()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _conflict RECORD;
+  _hours_per_day NUMERIC;
+  _booked_hours NUMERIC;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise concurrent requests from the same employee
+  PERFORM pg_advisory_xact_lock(hashtext('leaves:' || NEW.user_id::text));
+
+  SELECT start_date, end_date, status INTO _conflict
+  FROM public.leaves
+  WHERE user_id = NEW.user_id
+    AND id <> NEW.id
+    AND status IN ('pending', 'approved')
+    AND daterange(start_date, end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+    AND (
+      duration_unit = 'full_day'
+      OR NEW.duration_unit = 'full_day'
+      OR (
+        duration_unit = 'half_day'
+        AND NEW.duration_unit = 'half_day'
+        AND half_day_period = NEW.half_day_period
+      )
+    )
+  ORDER BY start_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This leave overlaps your % leave from % to %',
+      _conflict.status, _conflict.start_date, _conflict.end_date
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- Partial-day leave covers a single date
+  IF NEW.duration_unit <> 'full_day' THEN
+    SELECT work_hours_per_day INTO _hours_per_day
+    FROM public.holiday_calendars
+    WHERE id = public.get_user_holiday_calendar(NEW.user_id);
+    _hours_per_day := COALESCE(_hours_per_day, 8);
+
+    SELECT COALESCE(SUM(
+      CASE WHEN duration_unit = 'half_day' THEN _hours_per_day / 2 ELSE hours END
+    ), 0) INTO _booked_hours
+    FROM public.leaves
+    WHERE user_id = NEW.user_id
+      AND id <> NEW.id
+      AND status IN ('pending', 'approved')
+      AND duration_unit <> 'full_day'
+      AND start_date = NEW.start_date;
+
+    IF _booked_hours
+      + CASE WHEN NEW.duration_unit = 'half_day' THEN _hours_per_day / 2 ELSE NEW.hours END
+      > _hours_per_day THEN
+      RAISE EXCEPTION 'You already have % hours of leave on %; a working day is % hours',
+        ROUND(_booked_hours, 2), NEW.start_date, _hours_per_day
+        USING ERRCODE = 'exclusion_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Changing the hours of a request can now push a day over the limit
+DROP TRIGGER prevent_overlapping_leaves ON public.leaves;
+
+CREATE TRIGGER prevent_overlapping_leaves
+  BEFORE INSERT OR UPDATE OF start_date, end_date, status, duration_unit, half_day_period, hours
+  ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_overlapping_leaves();
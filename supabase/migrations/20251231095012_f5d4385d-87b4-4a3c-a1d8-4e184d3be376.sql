@@ -0,0 +1,70 @@
+-- Approve or reject several pending leaves as one all-or-nothing operation.
+-- Every row is still tried so each failure (e.g. an overlap or a missing
+-- document) can be reported, but if any row fails the whole batch is rolled
+-- back: the failed rows carry their error and the others come back with
+-- success = false and no error, meaning they were not applied.
+-- Runs with the caller's privileges: only admins pass the leaves UPDATE policy.
+CREATE OR REPLACE FUNCTION public.review_leaves(
+  _leave_ids UUID[],
+  _decision leave_status,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  leave_id UUID,
+  success BOOLEAN,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _errors TEXT[] := '{}';
+  _failed BOOLEAN := false;
+  _index INTEGER;
+BEGIN
+  IF _decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Leaves can only be approved or rejected in bulk'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Variables keep their values when the block below is rolled back
+  BEGIN
+    FOR _index IN 1..COALESCE(array_length(_leave_ids, 1), 0) LOOP
+      BEGIN
+        UPDATE public.leaves
+        SET
+          status = _decision,
+          review_notes = NULLIF(btrim(_notes), ''),
+          reviewed_by = auth.uid(),
+          reviewed_at = NOW()
+        WHERE id = _leave_ids[_index]
+          AND status = 'pending';
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Leave is no longer pending or you cannot review it';
+        END IF;
+
+        _errors[_index] := NULL;
+      EXCEPTION WHEN OTHERS THEN
+        _failed := true;
+        _errors[_index] := SQLERRM;
+      END;
+    END LOOP;
+
+    IF _failed THEN
+      RAISE EXCEPTION 'Bulk review rolled back';
+    END IF;
+  EXCEPTION WHEN OTHERS THEN
+    IF NOT _failed THEN
+      RAISE;
+    END IF;
+  END;
+
+  FOR _index IN 1..COALESCE(array_length(_leave_ids, 1), 0) LOOP
+    leave_id := _leave_ids[_index];
+    success := NOT _failed;
+    error_message := _errors[_index];
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
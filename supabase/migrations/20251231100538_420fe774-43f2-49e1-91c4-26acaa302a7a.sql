@@ -0,0 +1,13 @@
+-- Employees also see whose behalf a delegate decided their leave on
+DROP POLICY "Users can view reviewers of own leaves" ON public.profiles;
+
+CREATE POLICY "Users can view reviewers of own leaves"
+  ON public.profiles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.leaves
+      WHERE (leaves.reviewed_by = profiles.id OR leaves.reviewed_on_behalf_of = profiles.id)
+      AND leaves.user_id = auth.uid()
+    )
+  );
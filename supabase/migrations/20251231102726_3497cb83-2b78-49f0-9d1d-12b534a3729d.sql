@@ -0,0 +1,120 @@
+-- Day a session counts towards, in the organisation's time zone, so comp-off
+-- agrees with overtime, timesheets and shift adherence near midnight
+CREATE OR REPLACE FUNCTION public.get_attendance_work_date(_clock_in TIMESTAMPTZ)
+RETURNS DATE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT (_clock_in AT TIME ZONE COALESCE(
+    (SELECT time_zone FROM public.attendance_settings), 'UTC'
+  ))::DATE
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_comp_off_credit(_user_id UUID, _work_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rules public.comp_off_rules;
+  _hours NUMERIC;
+  _is_working_day BOOLEAN;
+  _extra NUMERIC;
+  _days NUMERIC;
+BEGIN
+  SELECT * INTO _rules FROM public.comp_off_rules;
+  IF NOT FOUND OR NOT _rules.is_active THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.comp_off_credits
+    WHERE user_id = _user_id
+      AND work_date = _work_date
+      AND status <> 'pending'
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(h.net_hours), 0) INTO _hours
+  FROM public.attendance_hours h
+  WHERE h.user_id = _user_id
+    AND public.get_attendance_work_date(h.clock_in) = _work_date
+    AND h.clock_out IS NOT NULL;
+
+  _is_working_day := public.count_working_days(
+    public.get_user_holiday_calendar(_user_id), _work_date, _work_date
+  ) > 0;
+  _extra := CASE
+    WHEN _is_working_day THEN GREATEST(_hours - _rules.scheduled_hours, 0)
+    ELSE _hours
+  END;
+  _days := FLOOR(_extra * 2 / _rules.hours_per_day) / 2;
+
+  IF _days <= 0 THEN
+    DELETE FROM public.comp_off_credits
+    WHERE user_id = _user_id AND work_date = _work_date AND status = 'pending';
+    RETURN;
+  END IF;
+
+  INSERT INTO public.comp_off_credits (user_id, work_date, is_working_day, hours_worked, extra_hours, days)
+  VALUES (_user_id, _work_date, _is_working_day, ROUND(_hours, 2), ROUND(_extra, 2), _days)
+  ON CONFLICT (user_id, work_date) DO UPDATE
+    SET is_working_day = EXCLUDED.is_working_day,
+      hours_worked = EXCLUDED.hours_worked,
+      extra_hours = EXCLUDED.extra_hours,
+      days = EXCLUDED.days
+    WHERE comp_off_credits.status = 'pending';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_comp_off_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_comp_off_credit(NEW.user_id, public.get_attendance_work_date(NEW.clock_in));
+  END IF;
+
+  -- The record may have moved to another day or employee, or been deleted
+  IF TG_OP = 'DELETE' OR (
+    TG_OP = 'UPDATE'
+    AND (
+      OLD.user_id <> NEW.user_id
+      OR public.get_attendance_work_date(OLD.clock_in) <> public.get_attendance_work_date(NEW.clock_in)
+    )
+  ) THEN
+    PERFORM public.refresh_comp_off_credit(OLD.user_id, public.get_attendance_work_date(OLD.clock_in));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_comp_off_credits_from_breaks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.attendance;
+BEGIN
+  SELECT * INTO _session
+  FROM public.attendance
+  WHERE id = COALESCE(NEW.attendance_id, OLD.attendance_id);
+
+  IF FOUND AND _session.clock_out IS NOT NULL THEN
+    PERFORM public.refresh_comp_off_credit(
+      _session.user_id, public.get_attendance_work_date(_session.clock_in)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,89 @@
+-- Only weeks that have ended in the organisation's time zone can be submitted:
+-- approving a week locks it, which would stop the employee clocking in for
+-- the rest of it
+CREATE OR REPLACE FUNCTION public.submit_timesheet(_week_start DATE, _notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _timesheet public.timesheets;
+  _total NUMERIC;
+  _open INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a timesheet'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _week_start >= public.get_timesheet_week_start(NOW()) THEN
+    RAISE EXCEPTION 'A week can only be submitted once it has ended'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(SUM(h.net_hours), 0), COALESCE(SUM(h.open_sessions), 0)
+  INTO _total, _open
+  FROM public.get_timesheet_hours(auth.uid(), _week_start) h;
+
+  IF _open > 0 THEN
+    RAISE EXCEPTION 'Clock out before submitting this week'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO _timesheet
+  FROM public.timesheets
+  WHERE user_id = auth.uid() AND week_start = _week_start
+  FOR UPDATE;
+
+  IF FOUND AND _timesheet.status IN ('submitted', 'approved') THEN
+    RAISE EXCEPTION 'This timesheet has already been submitted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.timesheets (user_id, week_start, total_hours, employee_notes)
+  VALUES (auth.uid(), _week_start, _total, NULLIF(btrim(_notes), ''))
+  ON CONFLICT (user_id, week_start) DO UPDATE
+    SET status = 'submitted',
+      total_hours = EXCLUDED.total_hours,
+      employee_notes = EXCLUDED.employee_notes,
+      submitted_at = NOW(),
+      review_notes = NULL,
+      reviewed_by = NULL,
+      reviewed_on_behalf_of = NULL,
+      reviewed_at = NULL
+  RETURNING * INTO _timesheet;
+
+  INSERT INTO public.timesheet_events (timesheet_id, event_type, actor_id, total_hours, notes)
+  VALUES (_timesheet.id, 'submitted', auth.uid(), _total, _timesheet.employee_notes);
+
+  RETURN _timesheet.id;
+END;
+$$;
+
+-- Moving a break between sessions must not take it out of, or into, a locked week
+CREATE OR REPLACE FUNCTION public.guard_locked_attendance_breaks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+      SELECT 1 FROM public.attendance a
+      WHERE a.id = OLD.attendance_id
+        AND public.is_attendance_week_locked(a.user_id, a.clock_in)
+    ))
+    OR (TG_OP IN ('INSERT', 'UPDATE') AND EXISTS (
+      SELECT 1 FROM public.attendance a
+      WHERE a.id = NEW.attendance_id
+        AND public.is_attendance_week_locked(a.user_id, a.clock_in)
+    ))
+  THEN
+    RAISE EXCEPTION 'This week''s timesheet is approved and locked; an admin must unlock it first'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
@@ -0,0 +1,109 @@
+-- Owners only upload under <user_id>/<leave_id>/ for their own pending leaves
+DROP POLICY "Users can upload own leave attachments" ON storage.objects;
+
+CREATE POLICY "Users can upload own leave attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'leave-attachments'
+    AND (storage.foldername(objects.name))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.leaves
+      WHERE leaves.id::text = (storage.foldername(objects.name))[2]
+      AND leaves.user_id = auth.uid()
+      AND leaves.status = 'pending'
+    )
+  );
+
+-- Files of decided leave stay put, matching the leave_attachments DELETE policy.
+-- Owners may still clean up files of a pending leave, e.g. after a failed insert.
+DROP POLICY "Users can delete own leave attachments" ON storage.objects;
+
+CREATE POLICY "Users can delete own leave attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'leave-attachments'
+    AND (
+      has_role(auth.uid(), 'admin'::app_role)
+      OR (
+        (storage.foldername(objects.name))[1] = auth.uid()::text
+        AND EXISTS (
+          SELECT 1 FROM public.leaves
+          WHERE leaves.id::text = (storage.foldername(objects.name))[2]
+          AND leaves.user_id = auth.uid()
+          AND leaves.status = 'pending'
+        )
+      )
+    )
+  );
+
+-- Whether the file behind an attachment row was actually uploaded
+CREATE OR REPLACE FUNCTION public.leave_attachment_uploaded(_storage_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM storage.objects o
+    WHERE o.bucket_id = 'leave-attachments'
+    AND o.name = _storage_path
+  )
+$$;
+
+-- Rows can only be recorded for files that are already in the bucket
+DROP POLICY "Users can attach files to own pending leaves" ON public.leave_attachments;
+
+CREATE POLICY "Users can attach files to own pending leaves"
+  ON public.leave_attachments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND storage_path LIKE auth.uid()::text || '/' || leave_id::text || '/%'
+    AND public.leave_attachment_uploaded(storage_path)
+    AND EXISTS (
+      SELECT 1 FROM public.leaves
+      WHERE leaves.id = leave_id
+      AND leaves.user_id = auth.uid()
+      AND leaves.status = 'pending'
+    )
+  );
+
+-- A required document only counts if its file is still in storage
+CREATE OR REPLACE FUNCTION public.require_leave_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.leave_policies;
+  _type_requires BOOLEAN;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  _policy := public.get_applicable_leave_policy(NEW.user_id, NEW.type);
+
+  SELECT requires_attachment INTO _type_requires
+  FROM public.leave_types
+  WHERE key = NEW.type;
+
+  IF (COALESCE(_policy.attachment_required, false) OR COALESCE(_type_requires, false))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.leave_attachments a
+      WHERE a.leave_id = NEW.id
+      AND public.leave_attachment_uploaded(a.storage_path)
+    ) THEN
+    RAISE EXCEPTION 'A supporting document is required before this leave can be approved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;